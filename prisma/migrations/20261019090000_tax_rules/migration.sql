@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "country" TEXT,
+ADD COLUMN     "taxId" TEXT;
+
+-- CreateTable
+CREATE TABLE "tax_rules" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "tenantId" TEXT,
+    "country" TEXT,
+    "jurisdiction" TEXT,
+    "name" TEXT NOT NULL,
+    "rate" DECIMAL(7,6) NOT NULL,
+    "exempt" BOOLEAN NOT NULL DEFAULT false,
+    "reverseCharge" BOOLEAN NOT NULL DEFAULT false,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tax_rules_organizationId_effectiveFrom_idx" ON "tax_rules"("organizationId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "tax_rules_tenantId_effectiveFrom_idx" ON "tax_rules"("tenantId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "tax_rules" ADD CONSTRAINT "tax_rules_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_rules" ADD CONSTRAINT "tax_rules_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "prefix" TEXT,
+    "padding" INTEGER NOT NULL DEFAULT 6,
+    "resetYearly" BOOLEAN NOT NULL DEFAULT false,
+    "year" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_sequences_organizationId_key" ON "invoice_sequences"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "invoice_sequences" ADD CONSTRAINT "invoice_sequences_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: continue numbering after the highest number each organization has issued
+INSERT INTO "invoice_sequences" ("id", "organizationId", "year", "lastNumber", "updatedAt")
+SELECT 'seq_' || "organizationId",
+       "organizationId",
+       EXTRACT(YEAR FROM CURRENT_TIMESTAMP)::INTEGER,
+       GREATEST(COUNT(*), COALESCE(MAX(SUBSTRING("invoiceNumber" FROM '([0-9]+)$')::INTEGER), 0))::INTEGER,
+       CURRENT_TIMESTAMP
+FROM "invoices"
+GROUP BY "organizationId";
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "InvoiceType" AS ENUM ('INVOICE', 'CREDIT_NOTE');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "creditedInvoiceId" TEXT,
+ADD COLUMN     "finalizedAt" TIMESTAMP(3),
+ADD COLUMN     "type" "InvoiceType" NOT NULL DEFAULT 'INVOICE',
+ADD COLUMN     "voidedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "invoices_creditedInvoiceId_idx" ON "invoices"("creditedInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_creditedInvoiceId_fkey" FOREIGN KEY ("creditedInvoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "DunningAction" AS ENUM ('REMINDER', 'SUSPEND_TENANT');
+
+-- CreateTable
+CREATE TABLE "dunning_policies" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "steps" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "dunning_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_dunning_steps" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "afterDays" INTEGER NOT NULL,
+    "action" "DunningAction" NOT NULL,
+    "executedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_dunning_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dunning_policies_organizationId_key" ON "dunning_policies"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "invoice_dunning_steps_executedAt_idx" ON "invoice_dunning_steps"("executedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_dunning_steps_invoiceId_afterDays_action_key" ON "invoice_dunning_steps"("invoiceId", "afterDays", "action");
+
+-- AddForeignKey
+ALTER TABLE "dunning_policies" ADD CONSTRAINT "dunning_policies_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_dunning_steps" ADD CONSTRAINT "invoice_dunning_steps_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
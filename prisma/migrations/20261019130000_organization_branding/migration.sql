@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "billingAddress" TEXT,
+ADD COLUMN     "billingEmail" TEXT,
+ADD COLUMN     "billingName" TEXT,
+ADD COLUMN     "brandColor" TEXT,
+ADD COLUMN     "taxId" TEXT;
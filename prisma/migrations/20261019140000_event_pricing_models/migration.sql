@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "PricingModel" AS ENUM ('GRADUATED', 'VOLUME', 'PACKAGE', 'FLAT_PLUS_UNIT', 'FREE_ALLOWANCE');
+
+-- CreateTable
+CREATE TABLE "event_pricing" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "model" "PricingModel" NOT NULL DEFAULT 'GRADUATED',
+    "packageSize" DECIMAL(20,6),
+    "flatFee" DECIMAL(20,6),
+    "freeAllowance" DECIMAL(20,6),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_pricing_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_pricing_organizationId_eventType_key" ON "event_pricing"("organizationId", "eventType");
+
+-- AddForeignKey
+ALTER TABLE "event_pricing" ADD CONSTRAINT "event_pricing_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
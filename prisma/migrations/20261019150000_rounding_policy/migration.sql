@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "RoundingMode" AS ENUM ('HALF_UP', 'HALF_EVEN');
+
+-- CreateEnum
+CREATE TYPE "RoundingScope" AS ENUM ('PER_LINE', 'PER_INVOICE');
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "roundingMode" "RoundingMode" NOT NULL DEFAULT 'HALF_UP',
+ADD COLUMN     "roundingScope" "RoundingScope" NOT NULL DEFAULT 'PER_LINE';
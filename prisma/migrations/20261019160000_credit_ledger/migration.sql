@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "CreditGrantType" AS ENUM ('PREPAID', 'PROMOTIONAL');
+
+-- CreateEnum
+CREATE TYPE "CreditEntryType" AS ENUM ('GRANT', 'DRAWDOWN', 'REVERSAL', 'VOID');
+
+-- CreateTable
+CREATE TABLE "credit_grants" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "type" "CreditGrantType" NOT NULL DEFAULT 'PROMOTIONAL',
+    "description" TEXT,
+    "amount" DECIMAL(20,2) NOT NULL,
+    "remainingAmount" DECIMAL(20,2) NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "eventTypes" TEXT[],
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "voidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_grants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "grantId" TEXT NOT NULL,
+    "invoiceId" TEXT,
+    "type" "CreditEntryType" NOT NULL,
+    "amount" DECIMAL(20,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_grants_organizationId_idx" ON "credit_grants"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "credit_grants_tenantId_expiresAt_idx" ON "credit_grants"("tenantId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_grantId_idx" ON "credit_ledger_entries"("grantId");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_tenantId_createdAt_idx" ON "credit_ledger_entries"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_invoiceId_idx" ON "credit_ledger_entries"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "credit_grants" ADD CONSTRAINT "credit_grants_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_grants" ADD CONSTRAINT "credit_grants_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_grantId_fkey" FOREIGN KEY ("grantId") REFERENCES "credit_grants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "TrueUpFrequency" AS ENUM ('MONTHLY', 'QUARTERLY', 'END_OF_TERM');
+
+-- CreateTable
+CREATE TABLE "contracts" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "committedAmount" DECIMAL(20,2) NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "trueUpFrequency" "TrueUpFrequency" NOT NULL DEFAULT 'END_OF_TERM',
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contracts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contracts_organizationId_idx" ON "contracts"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "contracts_tenantId_startDate_idx" ON "contracts"("tenantId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "contracts" ADD CONSTRAINT "contracts_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contracts" ADD CONSTRAINT "contracts_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "currency" TEXT;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN "exchangeRate" DECIMAL(20,10) NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "pricing_tiers" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "subscription_plans" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(20,10) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_organizationId_fromCurrency_toCurrency_effec_idx" ON "exchange_rates"("organizationId", "fromCurrency", "toCurrency", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
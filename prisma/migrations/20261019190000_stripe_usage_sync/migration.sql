@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "stripe_meter_mappings" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "meterEventName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stripe_meter_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stripe_usage_syncs" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "usageDate" TIMESTAMP(3) NOT NULL,
+    "meterEventName" TEXT NOT NULL,
+    "stripeCustomerId" TEXT NOT NULL,
+    "localQuantity" DECIMAL(20,6) NOT NULL,
+    "reportedQuantity" DECIMAL(20,6) NOT NULL DEFAULT 0,
+    "pendingQuantity" DECIMAL(20,6),
+    "lastError" TEXT,
+    "syncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stripe_usage_syncs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stripe_meter_mappings_organizationId_eventType_key" ON "stripe_meter_mappings"("organizationId", "eventType");
+
+-- CreateIndex
+CREATE INDEX "stripe_usage_syncs_organizationId_usageDate_idx" ON "stripe_usage_syncs"("organizationId", "usageDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stripe_usage_syncs_organizationId_eventType_usageDate_key" ON "stripe_usage_syncs"("organizationId", "eventType", "usageDate");
+
+-- AddForeignKey
+ALTER TABLE "stripe_meter_mappings" ADD CONSTRAINT "stripe_meter_mappings_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stripe_usage_syncs" ADD CONSTRAINT "stripe_usage_syncs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "PlanChangeStatus" AS ENUM ('SCHEDULED', 'APPLIED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "subscription_plan_changes" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "fromPlanId" TEXT NOT NULL,
+    "toPlanId" TEXT NOT NULL,
+    "isUpgrade" BOOLEAN NOT NULL,
+    "status" "PlanChangeStatus" NOT NULL,
+    "effectiveAt" TIMESTAMP(3) NOT NULL,
+    "prorationAmount" INTEGER,
+    "stripeScheduleId" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "appliedAt" TIMESTAMP(3),
+    "canceledAt" TIMESTAMP(3),
+
+    CONSTRAINT "subscription_plan_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subscription_plan_changes_subscriptionId_status_idx" ON "subscription_plan_changes"("subscriptionId", "status");
+
+-- CreateIndex
+CREATE INDEX "subscription_plan_changes_organizationId_idx" ON "subscription_plan_changes"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "subscription_plan_changes" ADD CONSTRAINT "subscription_plan_changes_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_plan_changes" ADD CONSTRAINT "subscription_plan_changes_fromPlanId_fkey" FOREIGN KEY ("fromPlanId") REFERENCES "subscription_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_plan_changes" ADD CONSTRAINT "subscription_plan_changes_toPlanId_fkey" FOREIGN KEY ("toPlanId") REFERENCES "subscription_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
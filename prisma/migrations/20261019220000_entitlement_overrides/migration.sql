@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "entitlement_overrides" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "entitlement_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entitlement_overrides_organizationId_feature_key" ON "entitlement_overrides"("organizationId", "feature");
+
+-- AddForeignKey
+ALTER TABLE "entitlement_overrides" ADD CONSTRAINT "entitlement_overrides_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "eventQuotaMode" "QuotaEnforcementMode",
+ADD COLUMN     "eventQuotaSoftPercent" INTEGER NOT NULL DEFAULT 80,
+ADD COLUMN     "eventQuotaOveragePercent" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "quota_limits" ADD COLUMN     "periodDays" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "usage_events_tenantId_eventType_createdAt_idx" ON "usage_events"("tenantId", "eventType", "createdAt");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "quota_period_usages" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "limitType" "QuotaLimitType" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "consumed" DECIMAL(20,6) NOT NULL,
+    "limitValue" DECIMAL(20,6) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quota_period_usages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quota_period_usages_tenantId_eventType_periodStart_key" ON "quota_period_usages"("tenantId", "eventType", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "quota_period_usages" ADD CONSTRAINT "quota_period_usages_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "defaultQuotaTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "quota_templates" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quota_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quota_template_limits" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "limitType" "QuotaLimitType" NOT NULL DEFAULT 'MONTHLY',
+    "limitValue" DECIMAL(20,6) NOT NULL,
+    "periodDays" INTEGER,
+    "softLimitValue" DECIMAL(20,6),
+    "enforcementMode" "QuotaEnforcementMode" NOT NULL DEFAULT 'HARD',
+    "overageAllowed" DECIMAL(20,6),
+
+    CONSTRAINT "quota_template_limits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_defaultQuotaTemplateId_key" ON "organizations"("defaultQuotaTemplateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quota_templates_organizationId_name_key" ON "quota_templates"("organizationId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quota_template_limits_templateId_eventType_key" ON "quota_template_limits"("templateId", "eventType");
+
+-- AddForeignKey
+ALTER TABLE "organizations" ADD CONSTRAINT "organizations_defaultQuotaTemplateId_fkey" FOREIGN KEY ("defaultQuotaTemplateId") REFERENCES "quota_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quota_templates" ADD CONSTRAINT "quota_templates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quota_template_limits" ADD CONSTRAINT "quota_template_limits_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "quota_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "credit_grants" ADD COLUMN "currency" TEXT;
+
+-- AlterTable
+ALTER TABLE "contracts" ADD COLUMN "currency" TEXT;
+
+-- Backfill: existing grants and contracts are in the tenant's current billing currency
+UPDATE "credit_grants" g
+SET "currency" = COALESCE(t."currency", o."currency")
+FROM "tenants" t
+JOIN "organizations" o ON o."id" = t."organizationId"
+WHERE t."id" = g."tenantId";
+
+UPDATE "contracts" c
+SET "currency" = COALESCE(t."currency", o."currency")
+FROM "tenants" t
+JOIN "organizations" o ON o."id" = t."organizationId"
+WHERE t."id" = c."tenantId";
+
+ALTER TABLE "credit_grants" ALTER COLUMN "currency" SET NOT NULL;
+
+ALTER TABLE "contracts" ALTER COLUMN "currency" SET NOT NULL;
@@ -0,0 +1,25 @@
+-- DropIndex
+DROP INDEX "stripe_usage_syncs_organizationId_eventType_usageDate_key";
+
+-- AlterTable
+ALTER TABLE "stripe_usage_syncs" ADD COLUMN "periodStart" TIMESTAMP(3);
+
+-- Backfill: rows in the current period of the organization's live
+-- subscription belong to it; older rows are only kept for reference
+UPDATE "stripe_usage_syncs" u
+SET "periodStart" = s."currentPeriodStart"
+FROM (
+    SELECT DISTINCT ON ("organizationId") "organizationId", "currentPeriodStart"
+    FROM "subscriptions"
+    WHERE "status" IN ('ACTIVE', 'TRIALING')
+    ORDER BY "organizationId", "currentPeriodStart" DESC
+) s
+WHERE s."organizationId" = u."organizationId"
+  AND u."usageDate" >= date_trunc('day', s."currentPeriodStart");
+
+UPDATE "stripe_usage_syncs" SET "periodStart" = "usageDate" WHERE "periodStart" IS NULL;
+
+ALTER TABLE "stripe_usage_syncs" ALTER COLUMN "periodStart" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stripe_usage_syncs_organizationId_eventType_periodStart_str_key" ON "stripe_usage_syncs"("organizationId", "eventType", "periodStart", "stripeCustomerId", "usageDate");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "stripeStateAt" TIMESTAMP(3);
+
+-- Backfill: the newest processed event that wrote each subscription
+UPDATE "subscriptions" s
+SET "stripeStateAt" = e."stripeCreatedAt"
+FROM (
+    SELECT "payload"->'data'->'object'->>'id' AS "stripeSubscriptionId",
+           MAX("stripeCreatedAt") AS "stripeCreatedAt"
+    FROM "stripe_webhook_events"
+    WHERE "status" = 'PROCESSED'
+      AND "type" LIKE 'customer.subscription.%'
+    GROUP BY 1
+) e
+WHERE e."stripeSubscriptionId" = s."stripeSubscriptionId";
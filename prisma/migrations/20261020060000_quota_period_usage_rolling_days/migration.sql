@@ -0,0 +1,5 @@
+-- Rolling windows were archived as overlapping 30-day totals; they are now
+-- archived a day at a time, so drop the overlapping rows
+DELETE FROM "quota_period_usages"
+WHERE "limitType" = 'ROLLING_30D'
+  AND "periodEnd" - "periodStart" > INTERVAL '1 day';
@@ -0,0 +1,6 @@
+-- Invoice number prefixes are chosen per organization, so numbers only need
+-- to be unique within one
+DROP INDEX "invoices_invoiceNumber_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_organizationId_invoiceNumber_key" ON "invoices"("organizationId", "invoiceNumber");
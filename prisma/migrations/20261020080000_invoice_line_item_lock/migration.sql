@@ -0,0 +1,31 @@
+-- Line items are locked once their invoice leaves DRAFT. Rows whose invoice
+-- no longer exists are being removed by its cascading delete and pass.
+CREATE FUNCTION "invoice_line_items_locked"() RETURNS TRIGGER AS $$
+DECLARE
+  "invoiceStatus" "InvoiceStatus";
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    SELECT "status" INTO "invoiceStatus" FROM "invoices" WHERE "id" = OLD."invoiceId";
+    IF "invoiceStatus" IS NOT NULL AND "invoiceStatus" <> 'DRAFT' THEN
+      RAISE EXCEPTION 'Line items of invoice % are locked (%)', OLD."invoiceId", "invoiceStatus"
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    SELECT "status" INTO "invoiceStatus" FROM "invoices" WHERE "id" = NEW."invoiceId";
+    IF "invoiceStatus" <> 'DRAFT' THEN
+      RAISE EXCEPTION 'Line items of invoice % are locked (%)', NEW."invoiceId", "invoiceStatus"
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+-- CreateTrigger
+CREATE TRIGGER "invoice_line_items_locked"
+BEFORE INSERT OR UPDATE OR DELETE ON "invoice_line_items"
+FOR EACH ROW EXECUTE FUNCTION "invoice_line_items_locked"();
@@ -23,6 +23,8 @@ async function main() {
           support: "email",
           apiAccess: true,
           teamMembers: 1,
+          maxApiKeys: 2,
+          dataRetentionDays: 30,
           customEventTypes: false,
           webhookIntegrations: false,
         },
@@ -40,6 +42,8 @@ async function main() {
           support: "priority",
           apiAccess: true,
           teamMembers: 5,
+          maxApiKeys: 10,
+          dataRetentionDays: 365,
           customEventTypes: true,
           webhookIntegrations: true,
         },
@@ -57,6 +61,8 @@ async function main() {
           support: "dedicated",
           apiAccess: true,
           teamMembers: -1, // unlimited
+          maxApiKeys: -1,
+          dataRetentionDays: -1,
           customEventTypes: true,
           webhookIntegrations: true,
           slaGuarantee: true,
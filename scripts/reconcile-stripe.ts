@@ -0,0 +1,71 @@
+/**
+ * Script to reconcile Stripe with the local Subscription table.
+ * Run with: npx tsx scripts/reconcile-stripe.ts [--apply] [--json]
+ *
+ * Pages through every Stripe subscription, customer and invoice and reports
+ * drift. Nothing is written unless --apply is passed; corrections are then
+ * recorded in AuditLog. Exits non-zero while drift remains.
+ */
+
+import { prisma } from "@/server/db/prisma";
+import { reconcileStripe } from "@/server/services/stripeReconciliation";
+
+async function reconcile() {
+  const apply = process.argv.includes("--apply");
+  const json = process.argv.includes("--json");
+
+  console.error(
+    apply
+      ? "Reconciling Stripe and applying fixes..."
+      : "Reconciling Stripe (dry run, pass --apply to fix)...",
+  );
+
+  const report = await reconcileStripe({ apply });
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(
+      `Scanned ${report.scanned.subscriptions} subscription(s), ${report.scanned.customers} customer(s), ${report.scanned.invoices} invoice(s)`,
+    );
+
+    for (const drift of report.drift) {
+      const marker = drift.applied
+        ? "✓ fixed"
+        : drift.error
+          ? "✗ failed"
+          : drift.fixable
+            ? "⚠ fixable"
+            : "⚠ manual";
+      const target =
+        drift.stripeInvoiceId ??
+        drift.stripeSubscriptionId ??
+        drift.stripeCustomerId;
+
+      console.log(`\n${marker} ${drift.kind} ${target}`);
+      console.log(`  ${drift.detail}`);
+      if (drift.organizationId) {
+        console.log(`  organizationId: ${drift.organizationId}`);
+      }
+      for (const [field, change] of Object.entries(drift.changes ?? {})) {
+        console.log(
+          `  ${field}: ${JSON.stringify(change.local)} → ${JSON.stringify(change.stripe)}`,
+        );
+      }
+      if (drift.error) console.log(`  error: ${drift.error}`);
+    }
+
+    console.log(
+      `\nDone! ${report.drift.length} drift item(s), ${report.corrected} fixed, ${report.failed} failed`,
+    );
+  }
+
+  if (report.drift.some((drift) => !drift.applied)) process.exitCode = 1;
+}
+
+reconcile()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
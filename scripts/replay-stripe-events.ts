@@ -0,0 +1,58 @@
+/**
+ * Script to replay Stripe webhook events.
+ * Run with: npx tsx scripts/replay-stripe-events.ts <event id>...
+ *       or: npx tsx scripts/replay-stripe-events.ts --dead [--type <event type>]
+ *
+ * Event ids that were never received are fetched from Stripe. --dead replays
+ * every event that ran out of retries, oldest first.
+ */
+
+import { prisma } from "@/server/db/prisma";
+import { replayStripeEvent } from "@/server/services/stripeWebhooks";
+
+async function replayEvents() {
+  const args = process.argv.slice(2);
+  const typeIndex = args.indexOf("--type");
+  const type = typeIndex >= 0 ? args[typeIndex + 1] : undefined;
+
+  let eventIds = args.filter(
+    (arg, index) => !arg.startsWith("--") && index !== typeIndex + 1,
+  );
+
+  if (args.includes("--dead")) {
+    const dead = await prisma.stripeWebhookEvent.findMany({
+      where: { status: "DEAD", ...(type ? { type } : {}) },
+      orderBy: { stripeCreatedAt: "asc" },
+      select: { id: true },
+    });
+    eventIds = [...eventIds, ...dead.map((event) => event.id)];
+  }
+
+  if (eventIds.length === 0) {
+    console.log(
+      "Usage: replay-stripe-events.ts <event id>... | --dead [--type <event type>]",
+    );
+    return;
+  }
+
+  console.log(`Replaying ${eventIds.length} event(s)...`);
+
+  let failed = 0;
+  for (const eventId of eventIds) {
+    const result = await replayStripeEvent(eventId);
+
+    if (result.status === "failed") {
+      failed++;
+      console.log(`✗ ${eventId}: ${result.error}`);
+    } else {
+      console.log(`✓ ${eventId}: ${result.status}`);
+    }
+  }
+
+  console.log(`\nDone! ${eventIds.length - failed} replayed, ${failed} failed`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+replayEvents()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
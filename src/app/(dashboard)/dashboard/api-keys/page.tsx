@@ -24,6 +24,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { UpgradePrompt } from "@/components/billing/UpgradePrompt";
 import {
   Dialog,
   DialogContent,
@@ -52,10 +53,23 @@ type ApiKey = {
   createdAt: Date;
 };
 
+// What a key can be granted; new keys start with the first two
+const API_KEY_PERMISSIONS = [
+  { value: "events:write", label: "Send usage events" },
+  { value: "usage:read", label: "Read usage and events" },
+  { value: "quotas:read", label: "Read quotas" },
+  { value: "quotas:write", label: "Create, update and delete quotas" },
+  { value: "invoices:read", label: "Download invoices and credit notes" },
+];
+
+const DEFAULT_PERMISSIONS = ["events:write", "usage:read"];
+
 export default function ApiKeysPage() {
   const { user } = useUser();
   const { organization } = useOrganization();
   const [newKeyName, setNewKeyName] = useState("");
+  const [newKeyPermissions, setNewKeyPermissions] =
+    useState<string[]>(DEFAULT_PERMISSIONS);
   const [newKey, setNewKey] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
@@ -74,6 +88,7 @@ export default function ApiKeysPage() {
     onSuccess: (data) => {
       setNewKey(data.key);
       setNewKeyName("");
+      setNewKeyPermissions(DEFAULT_PERMISSIONS);
       setShowCreateDialog(false);
       setShowKeyDialog(true);
       utils.apiKeys.list.invalidate();
@@ -103,10 +118,17 @@ export default function ApiKeysPage() {
       organizationId: organization.id,
       name: newKeyName,
       createdBy: user.id,
-      permissions: ["events:write", "usage:read"],
+      permissions: newKeyPermissions,
     });
   };
 
+  const togglePermission = (permission: string) =>
+    setNewKeyPermissions((current) =>
+      current.includes(permission)
+        ? current.filter((value) => value !== permission)
+        : [...current, permission],
+    );
+
   const handleCopyKey = async () => {
     if (newKey) {
       await navigator.clipboard.writeText(newKey);
@@ -184,7 +206,27 @@ export default function ApiKeysPage() {
                   onChange={(e) => setNewKeyName(e.target.value)}
                 />
               </div>
+              <div className="space-y-2">
+                <Label>Permissions</Label>
+                {API_KEY_PERMISSIONS.map((permission) => (
+                  <label
+                    key={permission.value}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={newKeyPermissions.includes(permission.value)}
+                      onChange={() => togglePermission(permission.value)}
+                    />
+                    <code>{permission.value}</code>
+                    <span className="text-muted-foreground">
+                      {permission.label}
+                    </span>
+                  </label>
+                ))}
+              </div>
             </div>
+            <UpgradePrompt error={createMutation.error} />
             <DialogFooter>
               <Button
                 variant="outline"
@@ -194,7 +236,11 @@ export default function ApiKeysPage() {
               </Button>
               <Button
                 onClick={handleCreateKey}
-                disabled={!newKeyName.trim() || createMutation.isPending}
+                disabled={
+                  !newKeyName.trim() ||
+                  newKeyPermissions.length === 0 ||
+                  createMutation.isPending
+                }
               >
                 {createMutation.isPending ? (
                   <>
@@ -62,9 +62,20 @@ interface Plan {
   basePrice: number;
   includedEvents: number;
   overageRate: number;
+  currency: string;
   features: Record<string, boolean>;
 }
 
+// Plan prices are in the minor unit of the plan's currency
+function formatPlanPrice(amount: number, currency: string, fractionDigits = 2) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(amount / 100);
+}
+
 function PlansContent() {
   const searchParams = useSearchParams();
   const canceled = searchParams.get("canceled");
@@ -99,10 +110,56 @@ function PlansContent() {
       },
     });
 
+  const utils = trpc.useUtils();
+  const [changePlanId, setChangePlanId] = useState<string | null>(null);
+
+  // Existing subscribers change plan in place, with a preview first
+  const { data: preview, isFetching: previewLoading } =
+    trpc.subscription.previewPlanChange.useQuery(
+      { organizationId: organization?.id ?? "", planId: changePlanId ?? "" },
+      { enabled: !!organization?.id && !!changePlanId },
+    );
+
+  const changePlan = trpc.subscription.changePlan.useMutation({
+    onSuccess: () => {
+      setChangePlanId(null);
+      setLoading(null);
+      utils.subscription.getCurrentSubscription.invalidate();
+    },
+    onError: (err) => {
+      setError(err.message);
+      setLoading(null);
+    },
+  });
+
+  const cancelScheduledChange =
+    trpc.subscription.cancelScheduledPlanChange.useMutation({
+      onSuccess: () => utils.subscription.getCurrentSubscription.invalidate(),
+      onError: (err) => setError(err.message),
+    });
+
   const currentPlanId = currentSubscription?.plan?.id;
+  const scheduledChange = currentSubscription?.scheduledChange;
+
+  const handleConfirmChange = () => {
+    if (!organization?.id || !preview) return;
+    setError(null);
+    setLoading(preview.newPlan.id);
+    changePlan.mutate({
+      organizationId: organization.id,
+      planId: preview.newPlan.id,
+      timing: preview.timing,
+      prorationDate: preview.prorationDate ?? undefined,
+    });
+  };
 
   const handleSelectPlan = async (planId: string) => {
     if (planId === currentPlanId) return;
+    if (currentSubscription) {
+      setError(null);
+      setChangePlanId(planId);
+      return;
+    }
     if (!organization?.id || !user?.primaryEmailAddress?.emailAddress) {
       setError(
         "Please ensure you have an organization selected and email verified",
@@ -156,6 +213,100 @@ function PlansContent() {
         </Card>
       )}
 
+      {scheduledChange && (
+        <Card>
+          <CardContent className="flex items-center justify-between py-4">
+            <p className="text-sm">
+              Your plan changes to <strong>{scheduledChange.planName}</strong>{" "}
+              on {new Date(scheduledChange.effectiveAt).toLocaleDateString()}.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={cancelScheduledChange.isPending}
+              onClick={() =>
+                organization?.id &&
+                cancelScheduledChange.mutate({
+                  organizationId: organization.id,
+                })
+              }
+            >
+              Keep current plan
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {changePlanId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Change plan</CardTitle>
+            <CardDescription>
+              {preview
+                ? `${preview.currentPlan.name} → ${preview.newPlan.name}`
+                : "Calculating..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {previewLoading || !preview ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : (
+              <>
+                {preview.timing === "IMMEDIATE" ? (
+                  <p>
+                    Takes effect now.{" "}
+                    {preview.proration
+                      ? `${formatPlanPrice(
+                          preview.proration.net,
+                          preview.proration.currency,
+                        )} is charged for the remaining ${preview.proration.remainingPercent}% of this period.`
+                      : "No proration is charged during a trial."}
+                  </p>
+                ) : (
+                  <p>
+                    Takes effect at the end of the current period, on{" "}
+                    {new Date(preview.effectiveAt).toLocaleDateString()}. Your
+                    current features stay available until then.
+                  </p>
+                )}
+                <p>
+                  From then on you pay{" "}
+                  {formatPlanPrice(
+                    preview.nextPeriodAmount,
+                    preview.newPlan.currency,
+                  )}{" "}
+                  per month.
+                </p>
+                {preview.featureChanges.length > 0 && (
+                  <ul className="list-inside list-disc text-muted-foreground">
+                    {preview.featureChanges.map((change) => (
+                      <li key={change.feature}>
+                        {change.feature}: {String(change.from)} →{" "}
+                        {String(change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </CardContent>
+          <CardFooter className="gap-2">
+            <Button
+              disabled={!preview || !!scheduledChange || changePlan.isPending}
+              onClick={handleConfirmChange}
+            >
+              {changePlan.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Confirm change
+            </Button>
+            <Button variant="outline" onClick={() => setChangePlanId(null)}>
+              Cancel
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
       <div className="grid gap-6 lg:grid-cols-3">
         {plans?.map((plan: Plan, index: number) => {
           const Icon = planIcons[plan.name] ?? Zap;
@@ -194,15 +345,15 @@ function PlansContent() {
               <CardContent className="space-y-4">
                 <div>
                   <span className="text-4xl font-bold">
-                    ${(plan.basePrice / 100).toFixed(0)}
+                    {formatPlanPrice(plan.basePrice, plan.currency, 0)}
                   </span>
                   <span className="text-muted-foreground">/month</span>
                 </div>
                 <div className="text-sm text-muted-foreground">
                   <p>{plan.includedEvents.toLocaleString()} events included</p>
                   <p>
-                    ${(plan.overageRate / 100).toFixed(2)} per 1,000 overage
-                    events
+                    {formatPlanPrice(plan.overageRate, plan.currency)} per 1,000
+                    overage events
                   </p>
                 </div>
                 <ul className="space-y-2">
@@ -233,6 +384,9 @@ function PlansContent() {
                     </>
                   ) : isCurrent ? (
                     "Current Plan"
+                  ) : currentSubscription &&
+                    plan.basePrice < currentSubscription.plan.basePrice ? (
+                    `Downgrade to ${plan.name}`
                   ) : (
                     `Upgrade to ${plan.name}`
                   )}
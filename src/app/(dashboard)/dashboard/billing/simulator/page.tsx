@@ -0,0 +1,401 @@
+"use client";
+
+export const dynamic = "force-dynamic";
+
+import { useState } from "react";
+import { useOrganization } from "@clerk/nextjs";
+import { Calculator, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/lib/trpc/react";
+
+type TierRow = {
+  eventType: string;
+  tierLevel: string;
+  minQuantity: string;
+  maxQuantity: string;
+  unitPrice: string;
+};
+
+type SimulationInput = {
+  organizationId: string;
+  startDate: Date;
+  endDate: Date;
+  proposedTiers: Array<{
+    eventType: string;
+    tierLevel: number;
+    minQuantity: number;
+    maxQuantity: number | null;
+    unitPrice: number;
+  }>;
+};
+
+const emptyTier: TierRow = {
+  eventType: "",
+  tierLevel: "1",
+  minQuantity: "0",
+  maxQuantity: "",
+  unitPrice: "",
+};
+
+function formatCurrency(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+  }).format(amount);
+}
+
+function formatDelta(delta: number, percent: number | null, currency: string) {
+  const sign = delta > 0 ? "+" : delta < 0 ? "-" : "";
+  const amount = `${sign}${formatCurrency(Math.abs(delta), currency)}`;
+  return percent === null ? amount : `${amount} (${percent.toFixed(1)}%)`;
+}
+
+function monthStart() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+export default function PricingSimulatorPage() {
+  const { organization } = useOrganization();
+  const [startDate, setStartDate] = useState(monthStart);
+  const [endDate, setEndDate] = useState(() =>
+    new Date().toISOString().slice(0, 10),
+  );
+  const [tiers, setTiers] = useState<TierRow[]>([{ ...emptyTier }]);
+  const [simulation, setSimulation] = useState<SimulationInput | null>(null);
+
+  const { data, isFetching, error } = trpc.pricing.simulate.useQuery(
+    simulation as SimulationInput,
+    { enabled: !!simulation },
+  );
+
+  const updateTier = (index: number, field: keyof TierRow, value: string) => {
+    setTiers(
+      tiers.map((tier, i) =>
+        i === index ? { ...tier, [field]: value } : tier,
+      ),
+    );
+  };
+
+  const handleSimulate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organization) return;
+
+    setSimulation({
+      organizationId: organization.id,
+      startDate: new Date(`${startDate}T00:00:00.000Z`),
+      endDate: new Date(`${endDate}T23:59:59.999Z`),
+      proposedTiers: tiers.map((tier) => ({
+        eventType: tier.eventType.trim(),
+        tierLevel: Number(tier.tierLevel),
+        minQuantity: Number(tier.minQuantity),
+        maxQuantity: tier.maxQuantity === "" ? null : Number(tier.maxQuantity),
+        unitPrice: Number(tier.unitPrice),
+      })),
+    });
+  };
+
+  if (!organization) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Pricing Simulator
+          </h1>
+          <p className="text-muted-foreground">
+            Please select an organization to simulate pricing.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Pricing Simulator</h1>
+        <p className="text-muted-foreground">
+          Re-price historical usage under proposed tiers before changing them.
+          No invoices are created.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Proposed Tiers</CardTitle>
+          <CardDescription>
+            Proposed tiers replace the current tiers for their event types for
+            the whole range. Other event types keep their current pricing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSimulate} className="space-y-4">
+            <div className="flex gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startDate">From</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endDate">To</Label>
+                <Input
+                  id="endDate"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event Type</TableHead>
+                  <TableHead>Tier</TableHead>
+                  <TableHead>From Quantity</TableHead>
+                  <TableHead>To Quantity</TableHead>
+                  <TableHead>Unit Price</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tiers.map((tier, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        value={tier.eventType}
+                        onChange={(e) =>
+                          updateTier(index, "eventType", e.target.value)
+                        }
+                        placeholder="api_call"
+                        required
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={tier.tierLevel}
+                        onChange={(e) =>
+                          updateTier(index, "tierLevel", e.target.value)
+                        }
+                        required
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={tier.minQuantity}
+                        onChange={(e) =>
+                          updateTier(index, "minQuantity", e.target.value)
+                        }
+                        required
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={tier.maxQuantity}
+                        onChange={(e) =>
+                          updateTier(index, "maxQuantity", e.target.value)
+                        }
+                        placeholder="Unlimited"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.000001"
+                        value={tier.unitPrice}
+                        onChange={(e) =>
+                          updateTier(index, "unitPrice", e.target.value)
+                        }
+                        required
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={tiers.length === 1}
+                        onClick={() =>
+                          setTiers(tiers.filter((_, i) => i !== index))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setTiers([...tiers, { ...emptyTier }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Tier
+              </Button>
+              <Button type="submit" disabled={isFetching}>
+                {isFetching ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Calculator className="mr-2 h-4 w-4" />
+                )}
+                Run Simulation
+              </Button>
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive">{error.message}</p>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {data && (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Current Pricing</CardDescription>
+                <CardTitle className="text-2xl">
+                  {formatCurrency(data.summary.current, data.currency)}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Proposed Pricing</CardDescription>
+                <CardTitle className="text-2xl">
+                  {formatCurrency(data.summary.proposed, data.currency)}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>
+                  Revenue Change ({data.summary.tenantCount} customers)
+                </CardDescription>
+                <CardTitle className="text-2xl">
+                  {formatDelta(
+                    data.summary.delta,
+                    data.summary.deltaPercent,
+                    data.currency,
+                  )}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Per-Customer Impact</CardTitle>
+              <CardDescription>
+                Pre-tax revenue per customer, largest change first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {data.tenants.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No usage snapshots in this range.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Event Types</TableHead>
+                      <TableHead className="text-right">Current</TableHead>
+                      <TableHead className="text-right">Proposed</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.tenants.map((tenant) => (
+                      <TableRow key={tenant.tenantId}>
+                        <TableCell>
+                          <div className="font-medium">{tenant.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {tenant.externalId}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {tenant.byEventType.map((row) => (
+                              <Badge
+                                key={row.eventType}
+                                variant="outline"
+                                title={`${row.quantity.toLocaleString()} units: ${formatCurrency(row.current, data.currency)} -> ${formatCurrency(row.proposed, data.currency)}`}
+                              >
+                                {row.eventType}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(tenant.current, data.currency)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(tenant.proposed, data.currency)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            tenant.delta > 0
+                              ? "text-green-600"
+                              : tenant.delta < 0
+                                ? "text-red-600"
+                                : ""
+                          }`}
+                        >
+                          {formatDelta(
+                            tenant.delta,
+                            tenant.deltaPercent,
+                            data.currency,
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { UpgradePrompt } from "@/components/billing/UpgradePrompt";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Dialog,
@@ -213,6 +214,7 @@ export default function TeamPage() {
                 </p>
               </div>
             </div>
+            <UpgradePrompt error={inviteMutation.error} />
             <DialogFooter>
               <Button
                 variant="outline"
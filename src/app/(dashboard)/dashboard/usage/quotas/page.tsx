@@ -0,0 +1,483 @@
+"use client";
+
+export const dynamic = "force-dynamic";
+
+import { useState } from "react";
+import { useOrganization } from "@clerk/nextjs";
+import { Gauge, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { QuotaTemplates } from "@/components/usage/QuotaTemplates";
+import { trpc } from "@/lib/trpc/react";
+
+type LimitType = "MONTHLY" | "ROLLING_30D" | "CUSTOM";
+type EnforcementMode = "HARD" | "SOFT" | "DISABLED";
+
+const limitTypeLabels: Record<LimitType, string> = {
+  MONTHLY: "Monthly",
+  ROLLING_30D: "Rolling 30 days",
+  CUSTOM: "Custom period",
+};
+
+const modeColors: Record<
+  EnforcementMode,
+  "default" | "secondary" | "destructive"
+> = {
+  HARD: "destructive",
+  SOFT: "default",
+  DISABLED: "secondary",
+};
+
+// Form fields are kept as entered; empty optional fields clear the value
+type QuotaForm = {
+  tenantId: string;
+  eventType: string;
+  limitType: LimitType;
+  periodDays: string;
+  limitValue: string;
+  softLimitValue: string;
+  enforcementMode: EnforcementMode;
+  overageAllowed: string;
+  gracePeriodEnd: string;
+};
+
+const emptyForm: QuotaForm = {
+  tenantId: "",
+  eventType: "",
+  limitType: "MONTHLY",
+  periodDays: "30",
+  limitValue: "",
+  softLimitValue: "",
+  enforcementMode: "HARD",
+  overageAllowed: "",
+  gracePeriodEnd: "",
+};
+
+function optionalNumber(value: string) {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export default function QuotasPage() {
+  const { organization } = useOrganization();
+  // Id of the quota being edited, "new" when creating, null when closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<QuotaForm>(emptyForm);
+
+  const utils = trpc.useUtils();
+  const organizationId = organization?.id ?? "";
+
+  const { data: quotas, isLoading } = trpc.quotas.list.useQuery(
+    {},
+    { enabled: !!organization?.id },
+  );
+
+  const { data: customers } = trpc.customers.list.useQuery(
+    { organizationId, status: "ACTIVE", limit: 100 },
+    { enabled: !!organization?.id && editing === "new" },
+  );
+
+  const onSaved = () => {
+    utils.quotas.list.invalidate();
+    setEditing(null);
+  };
+  const createMutation = trpc.quotas.create.useMutation({ onSuccess: onSaved });
+  const updateMutation = trpc.quotas.update.useMutation({ onSuccess: onSaved });
+  const deleteMutation = trpc.quotas.delete.useMutation({
+    onSuccess: () => utils.quotas.list.invalidate(),
+  });
+
+  const saveError = createMutation.error ?? updateMutation.error;
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const update = (fields: Partial<QuotaForm>) =>
+    setForm((current) => ({ ...current, ...fields }));
+
+  const openCreate = () => {
+    createMutation.reset();
+    setForm(emptyForm);
+    setEditing("new");
+  };
+
+  const openEdit = (quota: NonNullable<typeof quotas>[number]) => {
+    updateMutation.reset();
+    setForm({
+      tenantId: quota.tenantId,
+      eventType: quota.eventType,
+      limitType: quota.limitType,
+      periodDays: String(quota.periodDays ?? 30),
+      limitValue: String(quota.limitValue),
+      softLimitValue: quota.softLimitValue?.toString() ?? "",
+      enforcementMode: quota.enforcementMode,
+      overageAllowed: quota.overageAllowed?.toString() ?? "",
+      gracePeriodEnd: quota.gracePeriodEnd?.toISOString().slice(0, 10) ?? "",
+    });
+    setEditing(quota.id);
+  };
+
+  const handleSave = () => {
+    if (!organization?.id || !editing) return;
+
+    const settings = {
+      limitType: form.limitType,
+      limitValue: Number(form.limitValue),
+      periodDays:
+        form.limitType === "CUSTOM" ? optionalNumber(form.periodDays) : null,
+      softLimitValue: optionalNumber(form.softLimitValue),
+      enforcementMode: form.enforcementMode,
+      overageAllowed:
+        form.enforcementMode === "SOFT"
+          ? optionalNumber(form.overageAllowed)
+          : null,
+      gracePeriodEnd: form.gracePeriodEnd
+        ? new Date(`${form.gracePeriodEnd}T23:59:59Z`)
+        : null,
+    };
+
+    if (editing === "new") {
+      createMutation.mutate({
+        tenantId: form.tenantId,
+        eventType: form.eventType.trim(),
+        ...settings,
+      });
+    } else {
+      updateMutation.mutate({
+        quotaLimitId: editing,
+        ...settings,
+      });
+    }
+  };
+
+  const handleDelete = (quotaLimitId: string) => {
+    if (!organization?.id) return;
+    if (!confirm("Delete this quota? Usage will no longer be limited.")) return;
+    deleteMutation.mutate({ quotaLimitId });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Quotas</h1>
+          <p className="text-muted-foreground">
+            Please select an organization to manage quotas.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const canSave =
+    Number(form.limitValue) > 0 &&
+    (editing !== "new" || (form.tenantId && form.eventType.trim()));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Quotas</h1>
+          <p className="text-muted-foreground">
+            Limit how much each customer can use per event type
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Quota
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Customer Quotas</CardTitle>
+          <CardDescription>
+            Events over a hard limit are rejected; soft limits warn first and
+            allow the configured overage
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!quotas || quotas.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <Gauge className="mb-4 h-12 w-12 text-muted-foreground" />
+              <h3 className="text-lg font-semibold">No quotas yet</h3>
+              <p className="text-muted-foreground">
+                Add a quota to cap a customer&apos;s usage of an event type.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Event Type</TableHead>
+                  <TableHead>Window</TableHead>
+                  <TableHead className="text-right">Limit</TableHead>
+                  <TableHead className="text-right">Soft Limit</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Grace Until</TableHead>
+                  <TableHead className="w-[100px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quotas.map((quota) => (
+                  <TableRow key={quota.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {quota.tenant.name || quota.tenant.externalId}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {quota.tenant.externalId}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {quota.eventType}
+                    </TableCell>
+                    <TableCell>
+                      {limitTypeLabels[quota.limitType]}
+                      {quota.limitType === "CUSTOM" &&
+                        ` (${quota.periodDays ?? 30} days)`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {quota.limitValue.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {quota.softLimitValue?.toLocaleString() ?? "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={modeColors[quota.enforcementMode]}>
+                        {quota.enforcementMode}
+                      </Badge>
+                      {quota.enforcementMode === "SOFT" &&
+                        quota.overageAllowed !== null && (
+                          <span className="ml-2 text-sm text-muted-foreground">
+                            +{quota.overageAllowed.toLocaleString()}
+                          </span>
+                        )}
+                    </TableCell>
+                    <TableCell>
+                      {quota.gracePeriodEnd
+                        ? quota.gracePeriodEnd.toLocaleDateString()
+                        : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEdit(quota)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(quota.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <QuotaTemplates organizationId={organization.id} />
+
+      <Dialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing === "new" ? "Add Quota" : "Edit Quota"}
+            </DialogTitle>
+            <DialogDescription>
+              {editing === "new"
+                ? "Set a usage limit for one customer and event type."
+                : `${form.eventType} quota`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4 sm:grid-cols-2">
+            {editing === "new" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="tenantId">Customer</Label>
+                  <select
+                    id="tenantId"
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={form.tenantId}
+                    onChange={(e) => update({ tenantId: e.target.value })}
+                  >
+                    <option value="">Select a customer</option>
+                    {customers?.customers.map((customer) => (
+                      <option key={customer.id} value={customer.id}>
+                        {customer.name || customer.externalId}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="eventType">Event Type</Label>
+                  <Input
+                    id="eventType"
+                    placeholder="e.g., api_request"
+                    value={form.eventType}
+                    onChange={(e) => update({ eventType: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="limitType">Window</Label>
+              <select
+                id="limitType"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={form.limitType}
+                onChange={(e) =>
+                  update({ limitType: e.target.value as LimitType })
+                }
+              >
+                {Object.entries(limitTypeLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {form.limitType === "CUSTOM" ? (
+              <div className="space-y-2">
+                <Label htmlFor="periodDays">Period (days)</Label>
+                <Input
+                  id="periodDays"
+                  type="number"
+                  min={1}
+                  value={form.periodDays}
+                  onChange={(e) => update({ periodDays: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div />
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="limitValue">Limit</Label>
+              <Input
+                id="limitValue"
+                type="number"
+                min={0}
+                value={form.limitValue}
+                onChange={(e) => update({ limitValue: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="softLimitValue">Soft Limit (warning)</Label>
+              <Input
+                id="softLimitValue"
+                type="number"
+                min={0}
+                placeholder="Optional"
+                value={form.softLimitValue}
+                onChange={(e) => update({ softLimitValue: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="enforcementMode">Enforcement</Label>
+              <select
+                id="enforcementMode"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={form.enforcementMode}
+                onChange={(e) =>
+                  update({
+                    enforcementMode: e.target.value as EnforcementMode,
+                  })
+                }
+              >
+                <option value="HARD">Hard — reject over the limit</option>
+                <option value="SOFT">Soft — allow an overage</option>
+                <option value="DISABLED">Disabled — track only</option>
+              </select>
+            </div>
+            {form.enforcementMode === "SOFT" ? (
+              <div className="space-y-2">
+                <Label htmlFor="overageAllowed">Overage Allowed</Label>
+                <Input
+                  id="overageAllowed"
+                  type="number"
+                  min={0}
+                  placeholder="0"
+                  value={form.overageAllowed}
+                  onChange={(e) => update({ overageAllowed: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div />
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="gracePeriodEnd">Grace Period Until</Label>
+              <Input
+                id="gracePeriodEnd"
+                type="date"
+                value={form.gracePeriodEnd}
+                onChange={(e) => update({ gracePeriodEnd: e.target.value })}
+              />
+            </div>
+          </div>
+          {saveError && (
+            <p className="text-sm text-destructive">{saveError.message}</p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Quota"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -109,3 +109,28 @@ export async function checkTenantQuota(
     };
   }
 }
+
+export async function getTenantQuotaHistory(
+  tenantId: string,
+  options: {
+    eventType?: string;
+    limit?: number;
+  } = {},
+) {
+  const trpc = createServerTRPCClient({ tenantId });
+
+  try {
+    const result = await trpc.usage.getQuotaHistory.query({
+      eventType: options.eventType,
+      limit: options.limit ?? 12,
+    });
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching quota history:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/server/db/prisma";
+import { markOverdueInvoices, runDunning } from "@/server/services/dunning";
+
+/**
+ * Overdue Detection and Dunning
+ *
+ * This endpoint marks PENDING invoices past their due date as OVERDUE, then
+ * runs each organization's dunning schedule (reminders, tenant suspension)
+ * against all overdue invoices. Every step is recorded once per invoice, so
+ * the job can be re-run safely.
+ *
+ * Security: Protected by CRON_SECRET environment variable
+ *
+ * Usage:
+ *   POST /api/cron/invoices
+ *   Headers: { Authorization: Bearer <CRON_SECRET> }
+ *
+ * Optional query params:
+ *   - now: ISO datetime to evaluate due dates against (defaults to now)
+ *   - organizationId: Limit to a specific organization
+ */
+
+export const maxDuration = 300; // 5 minutes max for serverless
+
+export async function POST(req: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = req.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured");
+      return NextResponse.json(
+        { error: "Cron endpoint not configured" },
+        { status: 500 },
+      );
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Parse query params
+    const { searchParams } = new URL(req.url);
+    const nowParam = searchParams.get("now");
+    const organizationId = searchParams.get("organizationId") ?? undefined;
+
+    const now = nowParam ? new Date(nowParam) : new Date();
+
+    if (isNaN(now.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid now parameter" },
+        { status: 400 },
+      );
+    }
+
+    console.log(`Running invoice dunning as of ${now.toISOString()}`);
+
+    const overdue = await markOverdueInvoices({ now, organizationId });
+    const dunning = await runDunning({ now, organizationId });
+
+    // Create audit log for the cron job run
+    await prisma.auditLog.create({
+      data: {
+        action: "CRON_INVOICE_DUNNING",
+        resourceType: "invoice",
+        changes: {
+          now: now.toISOString(),
+          markedOverdue: overdue.marked,
+          overdueInvoices: dunning.overdueInvoices,
+          reminders: dunning.reminders,
+          suspensions: dunning.suspensions,
+          errorsCount: dunning.errors.length,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      now: now.toISOString(),
+      summary: {
+        markedOverdue: overdue.marked,
+        overdueInvoices: dunning.overdueInvoices,
+        reminders: dunning.reminders,
+        suspensions: dunning.suspensions,
+        errors: dunning.errors.length,
+      },
+      errors: dunning.errors.length > 0 ? dunning.errors : undefined,
+    });
+  } catch (error) {
+    console.error("Error in invoice dunning cron job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Support GET for health checks and Vercel Cron
+export async function GET(req: NextRequest) {
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (authHeader && cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return POST(req);
+  }
+
+  return NextResponse.json({
+    status: "healthy",
+    endpoint: "/api/cron/invoices",
+    description: "Overdue invoice detection and dunning endpoint",
+    usage: "POST with Authorization: Bearer <CRON_SECRET>",
+  });
+}
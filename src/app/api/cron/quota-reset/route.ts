@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/server/db/prisma";
+import { rollAllQuotaPeriods } from "@/server/services/quotaPeriods";
+
+/**
+ * Quota Period Rollover
+ *
+ * Moves each QuotaLimit on to its current period: the closed period's final
+ * consumption is archived, resetAt advances to the new period's start and
+ * Redis counters that dropped out of the window are deleted. Quotas already
+ * in their current period are left alone, so the job can run as often as
+ * needed.
+ *
+ * Security: Protected by CRON_SECRET environment variable
+ *
+ * Usage:
+ *   POST /api/cron/quota-reset
+ *   Headers: { Authorization: Bearer <CRON_SECRET> }
+ */
+
+export const maxDuration = 300; // 5 minutes max for serverless
+
+export async function POST(req: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = req.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured");
+      return NextResponse.json(
+        { error: "Cron endpoint not configured" },
+        { status: 500 },
+      );
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const results = await rollAllQuotaPeriods();
+    const rolled = results.filter((r) => r.status === "rolled");
+    const failed = results.filter((r) => r.status === "failed");
+
+    const summary = {
+      quotasChecked: results.length,
+      periodsRolled: rolled.length,
+      periodsArchived: rolled.reduce(
+        (total, r) => total + (r.periods?.length ?? 0),
+        0,
+      ),
+      failed: failed.length,
+    };
+
+    await prisma.auditLog.create({
+      data: {
+        action: "CRON_QUOTA_PERIODS_ROLLED",
+        resourceType: "quota_limit",
+        changes: summary,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      rolled: rolled.length <= 100 ? rolled : undefined, // Only include details for smaller runs
+      errors: failed.length > 0 ? failed : undefined,
+    });
+  } catch (error) {
+    console.error("Error in quota rollover cron job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Support GET for health checks and Vercel Cron
+export async function GET(req: NextRequest) {
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (authHeader && cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return POST(req);
+  }
+
+  return NextResponse.json({
+    status: "healthy",
+    endpoint: "/api/cron/quota-reset",
+    description: "Quota period rollover endpoint",
+    usage: "POST with Authorization: Bearer <CRON_SECRET>",
+  });
+}
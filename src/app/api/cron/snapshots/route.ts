@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Decimal } from "@prisma/client/runtime/library";
 import { prisma } from "@/server/db/prisma";
 
 /**
@@ -130,9 +131,10 @@ export async function POST(req: NextRequest) {
                 usageByType.map(
                   async (item: {
                     eventType: string;
-                    _sum: { quantity: unknown };
+                    _sum: { quantity: Decimal | null };
                   }) => {
-                    const totalQuantity = Number(item._sum.quantity || 0);
+                    // Keep the exact Decimal sum; Number() would drift
+                    const totalQuantity = item._sum.quantity ?? 0;
 
                     return prisma.usageSnapshot.upsert({
                       where: {
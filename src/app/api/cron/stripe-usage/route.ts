@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/server/db/prisma";
+import {
+  syncAllUsage,
+  syncOrganizationUsage,
+} from "@/server/services/stripeUsageSync";
+
+/**
+ * Stripe Meter Usage Sync
+ *
+ * Reports each organization's usage in its current billing period to the
+ * Stripe meters its event types are mapped to. Only usage not yet reported
+ * is sent, so the job can run as often as needed.
+ *
+ * Security: Protected by CRON_SECRET environment variable
+ *
+ * Usage:
+ *   POST /api/cron/stripe-usage
+ *   Headers: { Authorization: Bearer <CRON_SECRET> }
+ *
+ * Optional query params:
+ *   - organizationId: Limit to a specific organization
+ */
+
+export const maxDuration = 300; // 5 minutes max for serverless
+
+export async function POST(req: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = req.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured");
+      return NextResponse.json(
+        { error: "Cron endpoint not configured" },
+        { status: 500 },
+      );
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const organizationIdParam = searchParams.get("organizationId");
+
+    const results = organizationIdParam
+      ? [await syncOrganizationUsage(organizationIdParam)]
+      : await syncAllUsage();
+
+    const summary = {
+      organizationsProcessed: results.length,
+      organizationsSkipped: results.filter((r) => r.status === "skipped")
+        .length,
+      bucketsReported: results.reduce((sum, r) => sum + r.reported, 0),
+      bucketsFailed: results.reduce((sum, r) => sum + r.failed, 0),
+    };
+
+    await prisma.auditLog.create({
+      data: {
+        action: "CRON_STRIPE_USAGE_SYNCED",
+        resourceType: "stripe_usage_sync",
+        changes: summary,
+      },
+    });
+
+    const errors = results.flatMap((result) =>
+      result.errors.map((error) => ({
+        organizationId: result.organizationId,
+        ...error,
+      })),
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      results: results.length <= 100 ? results : undefined, // Only include details for smaller runs
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error("Error in Stripe usage sync cron job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Support GET for health checks and Vercel Cron
+export async function GET(req: NextRequest) {
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (authHeader && cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return POST(req);
+  }
+
+  return NextResponse.json({
+    status: "healthy",
+    endpoint: "/api/cron/stripe-usage",
+    description: "Stripe meter usage sync endpoint",
+    usage: "POST with Authorization: Bearer <CRON_SECRET>",
+  });
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/server/db/prisma";
+import { processDueStripeEvents } from "@/server/services/stripeWebhooks";
+
+/**
+ * Stripe Webhook Retries
+ *
+ * Processes recorded Stripe events whose last attempt failed and whose
+ * backoff has elapsed, plus events that were recorded but never processed.
+ *
+ * Security: Protected by CRON_SECRET environment variable
+ *
+ * Usage:
+ *   POST /api/cron/stripe-webhooks
+ *   Headers: { Authorization: Bearer <CRON_SECRET> }
+ *
+ * Optional query params:
+ *   - limit: Maximum number of events to process (default 100)
+ */
+
+export const maxDuration = 300; // 5 minutes max for serverless
+
+export async function POST(req: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = req.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured");
+      return NextResponse.json(
+        { error: "Cron endpoint not configured" },
+        { status: 500 },
+      );
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const limitParam = searchParams.get("limit");
+
+    const results = await processDueStripeEvents({
+      limit: limitParam ? Number(limitParam) : undefined,
+    });
+
+    const summary = {
+      eventsAttempted: results.length,
+      eventsProcessed: results.filter((r) => r.status === "processed").length,
+      eventsFailed: results.filter((r) => r.status === "failed").length,
+    };
+
+    if (results.length > 0) {
+      await prisma.auditLog.create({
+        data: {
+          action: "CRON_STRIPE_EVENTS_RETRIED",
+          resourceType: "stripe_event",
+          changes: summary,
+        },
+      });
+    }
+
+    const errors = results.filter((r) => r.status === "failed");
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error("Error in Stripe webhook retry cron job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Support GET for health checks and Vercel Cron
+export async function GET(req: NextRequest) {
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (authHeader && cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return POST(req);
+  }
+
+  return NextResponse.json({
+    status: "healthy",
+    endpoint: "/api/cron/stripe-webhooks",
+    description: "Stripe webhook retry endpoint",
+    usage: "POST with Authorization: Bearer <CRON_SECRET>",
+  });
+}
@@ -0,0 +1,312 @@
+import { NextRequest } from "next/server";
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { getRedisClient } from "@/server/db/redis";
+import { POST } from "@/app/api/v1/events/route";
+
+type Row = Record<string, unknown>;
+
+const db = vi.hoisted(() => ({
+  tenants: [] as Row[],
+  quotaLimits: [] as Row[],
+  usageEvents: [] as Row[],
+  orgQuota: null as { mode: string; includedEvents: number } | null,
+  // Inserts of events matching this fail, as a database error would
+  failInsert: (() => false) as (data: Row) => boolean,
+}));
+
+// The in-memory Redis runs the reservation's Lua script like Redis does
+vi.mock("ioredis", async () => ({
+  default: (await import("ioredis-mock")).default,
+}));
+
+vi.mock("@/server/services/apiKeys", () => ({
+  validateApiKey: vi.fn(async () => ({
+    valid: true,
+    organizationId: "org_1",
+    permissions: ["events:write"],
+  })),
+  hasPermission: vi.fn(() => true),
+}));
+
+vi.mock("@/server/services/planChanges", () => ({
+  getEffectivePlan: vi.fn(async () =>
+    db.orgQuota ? { includedEvents: db.orgQuota.includedEvents } : null,
+  ),
+}));
+
+const applyDefaultQuotaTemplate = vi.hoisted(() =>
+  vi.fn(async (): Promise<unknown> => null),
+);
+
+vi.mock("@/server/services/quotaTemplates", () => ({
+  applyDefaultQuotaTemplate,
+}));
+
+vi.mock("@/server/db/prisma", () => {
+  const now = new Date();
+  const sum = (rows: Row[]) => ({
+    _sum: {
+      quantity: rows.reduce((total, row) => total + Number(row.quantity), 0),
+    },
+  });
+
+  const prisma = {
+    // Rows written in a failed transaction are rolled back
+    $transaction: async (
+      operations: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>),
+    ) => {
+      if (Array.isArray(operations)) {
+        const settled = await Promise.allSettled(operations);
+        const written = settled.flatMap((result) =>
+          result.status === "fulfilled" ? [result.value] : [],
+        );
+        const failed = settled.find((result) => result.status === "rejected");
+        if (!failed) return written;
+        db.usageEvents = db.usageEvents.filter((row) => !written.includes(row));
+        throw failed.reason;
+      }
+      const tenants = [...db.tenants];
+      try {
+        return await operations(prisma);
+      } catch (error) {
+        db.tenants = tenants;
+        throw error;
+      }
+    },
+    rateLimit: { findFirst: async () => null },
+    organization: {
+      findUnique: async () =>
+        db.orgQuota
+          ? {
+              eventQuotaMode: db.orgQuota.mode,
+              eventQuotaSoftPercent: 100,
+              eventQuotaOveragePercent: 0,
+            }
+          : null,
+    },
+    subscription: {
+      findFirst: async () =>
+        db.orgQuota
+          ? {
+              currentPeriodStart: new Date(now.getTime() - 86400000),
+              currentPeriodEnd: new Date(now.getTime() + 86400000),
+            }
+          : null,
+    },
+    tenant: {
+      findMany: async ({
+        where,
+      }: {
+        where: { externalId: { in: string[] } };
+      }) =>
+        db.tenants.filter((tenant) =>
+          where.externalId.in.includes(tenant.externalId as string),
+        ),
+      upsert: async ({ create }: { create: Row }) => {
+        let tenant = db.tenants.find(
+          (row) => row.externalId === create.externalId,
+        );
+        if (!tenant) {
+          tenant = { id: `tenant_${create.externalId}`, ...create };
+          db.tenants.push(tenant);
+        }
+        return tenant;
+      },
+    },
+    quotaLimit: {
+      findMany: async ({ where }: { where: { OR: Row[] } }) =>
+        db.quotaLimits.filter((limit) =>
+          where.OR.some(
+            (pair) =>
+              pair.tenantId === limit.tenantId &&
+              pair.eventType === limit.eventType,
+          ),
+        ),
+    },
+    usageEvent: {
+      create: async ({ data }: { data: Row }) => {
+        // Yield so concurrent requests interleave around the insert
+        await new Promise((resolve) => setImmediate(resolve));
+        if (db.failInsert(data)) throw new Error("insert failed");
+        const row = {
+          id: `event_${db.usageEvents.length + 1}`,
+          createdAt: new Date(),
+          ...data,
+        };
+        db.usageEvents.push(row);
+        return row;
+      },
+      aggregate: async ({ where }: { where: Row }) =>
+        sum(
+          db.usageEvents.filter((row) =>
+            where.tenantId
+              ? row.tenantId === where.tenantId &&
+                row.eventType === where.eventType
+              : row.organizationId === where.organizationId,
+          ),
+        ),
+    },
+  };
+
+  return { prisma };
+});
+
+function ingest(events: Array<{ tenant_id: string; metadata?: Row }>) {
+  return POST(
+    new NextRequest("http://localhost/api/v1/events", {
+      method: "POST",
+      headers: { authorization: "Bearer usa_test" },
+      body: JSON.stringify({
+        events: events.map((event) => ({ event_type: "api_call", ...event })),
+      }),
+    }),
+  );
+}
+
+function hardLimit(tenantId: string, limitValue: number) {
+  db.tenants.push({
+    id: `tenant_${tenantId}`,
+    organizationId: "org_1",
+    externalId: tenantId,
+  });
+  db.quotaLimits.push({
+    tenantId: `tenant_${tenantId}`,
+    eventType: "api_call",
+    limitType: "MONTHLY",
+    limitValue,
+    softLimitValue: null,
+    enforcementMode: "HARD",
+    gracePeriodEnd: null,
+    overageAllowed: null,
+    resetAt: new Date(),
+    periodDays: null,
+  });
+}
+
+// The tenant's monthly Redis counter, which only moves on the atomic path
+async function counter(tenantId: string) {
+  const month = new Date().toISOString().slice(0, 7);
+  return Number(
+    await getRedisClient().get(
+      `quota:tenant:tenant_${tenantId}:event:api_call:period:${month}`,
+    ),
+  );
+}
+
+const stored = (tenantId?: string) =>
+  db.usageEvents.filter(
+    (row) => !tenantId || row.tenantId === `tenant_${tenantId}`,
+  ).length;
+
+describe("POST /api/v1/events", () => {
+  // Connected up front, as a warm instance's client is. The mock does not
+  // track its connection status, which the Redis fallback checks.
+  beforeAll(async () => {
+    const client = getRedisClient();
+    await client.connect();
+    Object.assign(client, { status: "ready" });
+  });
+
+  beforeEach(async () => {
+    db.tenants = [];
+    db.quotaLimits = [];
+    db.usageEvents = [];
+    db.orgQuota = null;
+    db.failInsert = () => false;
+    applyDefaultQuotaTemplate.mockClear();
+    await getRedisClient().flushall();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("never lets parallel batches overshoot a HARD tenant limit", async () => {
+    hardLimit("acme", 100);
+
+    const responses = await Promise.all(
+      Array.from({ length: 30 }, () =>
+        ingest(Array.from({ length: 5 }, () => ({ tenant_id: "acme" }))),
+      ),
+    );
+    const statuses = responses.map((response) => response.status);
+
+    expect(statuses.filter((status) => status === 200)).toHaveLength(20);
+    expect(statuses.filter((status) => status === 403)).toHaveLength(10);
+    expect(stored("acme")).toBe(100);
+    expect(await counter("acme")).toBe(100);
+  });
+
+  it("never lets parallel batches overshoot a HARD organization limit", async () => {
+    db.orgQuota = { mode: "HARD", includedEvents: 50 };
+
+    const responses = await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        ingest(
+          Array.from({ length: 3 }, (_, j) => ({ tenant_id: `t${i}-${j}` })),
+        ),
+      ),
+    );
+    const accepted = responses.filter((response) => response.status === 200);
+
+    expect(accepted).toHaveLength(16);
+    expect(stored()).toBe(48);
+    const rejected = responses.find((response) => response.status === 403)!;
+    expect((await rejected.json()).code).toBe("ORGANIZATION_QUOTA_EXCEEDED");
+  });
+
+  it("stores none of a batch and releases its quota when an insert fails", async () => {
+    hardLimit("acme", 3);
+    db.failInsert = (data) => (data.metadata as Row | undefined)?.fail === true;
+
+    const failed = await ingest([
+      { tenant_id: "acme" },
+      { tenant_id: "acme", metadata: { fail: true } },
+      { tenant_id: "acme" },
+    ]);
+    expect(failed.status).toBe(500);
+    expect(stored("acme")).toBe(0);
+    expect(await counter("acme")).toBe(0);
+
+    // The retried batch is stored once, and nothing more fits
+    db.failInsert = () => false;
+    expect(
+      (
+        await ingest([
+          { tenant_id: "acme" },
+          { tenant_id: "acme" },
+          { tenant_id: "acme" },
+        ])
+      ).status,
+    ).toBe(200);
+    expect((await ingest([{ tenant_id: "acme" }])).status).toBe(403);
+    expect(stored("acme")).toBe(3);
+    expect(await counter("acme")).toBe(3);
+  });
+
+  it("creates no tenant when its default quotas cannot be applied", async () => {
+    applyDefaultQuotaTemplate.mockRejectedValueOnce(new Error("failed"));
+
+    expect((await ingest([{ tenant_id: "acme" }])).status).toBe(500);
+    expect(db.tenants).toHaveLength(0);
+    expect(stored()).toBe(0);
+
+    expect((await ingest([{ tenant_id: "acme" }])).status).toBe(200);
+    expect(applyDefaultQuotaTemplate).toHaveBeenLastCalledWith(
+      expect.anything(),
+      "org_1",
+      ["tenant_acme"],
+    );
+    expect(db.tenants).toHaveLength(1);
+  });
+});
@@ -2,7 +2,20 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/server/db/prisma";
 import { validateApiKey, hasPermission } from "@/server/services/apiKeys";
-import { checkQuota, buildQuotaErrorResponse } from "@/server/services/quota";
+import {
+  apiEntitlementDenial,
+  requireEntitlement,
+  requireRetention,
+} from "@/server/services/entitlements";
+import {
+  buildQuotaErrorResponse,
+  reserveEventQuotas,
+  buildOrganizationQuotaErrorResponse,
+  buildOrganizationQuotaHeaders,
+  type EventQuotaReservation,
+} from "@/server/services/quota";
+import { syncLimitKeys } from "@/server/services/quotaLimits";
+import { applyDefaultQuotaTemplate } from "@/server/services/quotaTemplates";
 import {
   checkRateLimit,
   checkIdempotencyKey,
@@ -42,6 +55,7 @@ interface QuotaViolation {
 
 /**
  * Find or create tenants in batch to avoid N+1 queries
+ * Created tenants get the organization's default quota template
  */
 async function findOrCreateTenants(
   organizationId: string,
@@ -66,31 +80,43 @@ async function findOrCreateTenants(
   // Find missing tenants
   const missingIds = uniqueIds.filter((id) => !tenantMap.has(id));
 
-  // Create missing tenants in batch
+  // Create missing tenants in batch. New tenants start with the
+  // organization's default quotas, before their first events are checked,
+  // and are never left without them.
   if (missingIds.length > 0) {
-    const created = await prisma.$transaction(
-      missingIds.map((externalId) =>
-        prisma.tenant.upsert({
-          where: {
-            organizationId_externalId: {
+    const { created, defaults } = await prisma.$transaction(async (tx) => {
+      const created = await Promise.all(
+        missingIds.map((externalId) =>
+          tx.tenant.upsert({
+            where: {
+              organizationId_externalId: {
+                organizationId,
+                externalId,
+              },
+            },
+            create: {
               organizationId,
               externalId,
+              name: externalId,
             },
-          },
-          create: {
-            organizationId,
-            externalId,
-            name: externalId,
-          },
-          update: {},
-          select: { id: true, externalId: true },
-        }),
-      ),
-    );
+            update: {},
+            select: { id: true, externalId: true },
+          }),
+        ),
+      );
+      const defaults = await applyDefaultQuotaTemplate(
+        tx,
+        organizationId,
+        created.map((t: { id: string }) => t.id),
+      );
+      return { created, defaults };
+    });
 
     created.forEach((t: { id: string; externalId: string }) =>
       tenantMap.set(t.externalId, t.id),
     );
+
+    if (defaults) await syncLimitKeys(defaults.written);
   }
 
   return tenantMap;
@@ -153,94 +179,58 @@ async function checkIdempotency(
 }
 
 /**
- * Check quotas for all events grouped by tenant/eventType
+ * Tenant quotas a denied reservation would have exceeded
  */
-async function checkQuotas(
+function quotaViolations(
+  reservation: EventQuotaReservation,
   events: Array<ParsedEvent & { internalTenantId: string }>,
-): Promise<QuotaViolation[]> {
+): QuotaViolation[] {
   const violations: QuotaViolation[] = [];
 
-  // Group events by tenant + eventType to aggregate quantities
-  const grouped = new Map<
-    string,
-    {
-      tenantId: string;
-      eventType: string;
-      quantity: number;
-      externalTenantId: string;
-    }
-  >();
-
-  for (const event of events) {
-    const key = `${event.internalTenantId}:${event.event_type}`;
-    const existing = grouped.get(key);
-    if (existing) {
-      existing.quantity += event.quantity;
-    } else {
-      grouped.set(key, {
-        tenantId: event.internalTenantId,
-        eventType: event.event_type,
-        quantity: event.quantity,
-        externalTenantId: event.tenant_id,
-      });
-    }
+  for (const [group, result] of reservation.tenants) {
+    if (result.allowed) continue;
+    const event = events.find(
+      (e) => `${e.internalTenantId}:${e.event_type}` === group,
+    )!;
+    violations.push({
+      tenant_id: event.tenant_id,
+      event_type: event.event_type,
+      error: buildQuotaErrorResponse(result),
+    });
   }
 
-  // Check quotas in parallel
-  await Promise.all(
-    Array.from(grouped.values()).map(
-      async ({ tenantId, eventType, quantity, externalTenantId }) => {
-        const result = await checkQuota({ tenantId, eventType, quantity });
-        if (!result.allowed) {
-          violations.push({
-            tenant_id: externalTenantId,
-            event_type: eventType,
-            error: buildQuotaErrorResponse(result),
-          });
-        }
-      },
-    ),
-  );
-
   return violations;
 }
 
+// The row stored for a new event
+function usageEventData(
+  event: ParsedEvent,
+  organizationId: string,
+  tenantId: string,
+) {
+  return {
+    tenantId,
+    organizationId,
+    eventType: event.event_type,
+    quantity: event.quantity,
+    metadata: (event.metadata ?? {}) as Record<
+      string,
+      string | number | boolean
+    >,
+    timestamp: event.timestamp ? new Date(event.timestamp) : new Date(),
+    idempotencyKey: event.idempotency_key,
+  };
+}
+
 /**
- * Process a single event
+ * Cache what a stored event needs cached once its transaction has committed
  */
-async function processSingleEvent(
+function recordStoredEvent(
   event: ParsedEvent,
   organizationId: string,
-  tenantMap: Map<string, string>,
-  duplicates: Map<string, string>,
-): Promise<ProcessedEvent> {
-  // Check for duplicate
-  if (event.idempotency_key && duplicates.has(event.idempotency_key)) {
-    return {
-      id: duplicates.get(event.idempotency_key)!,
-      tenant_id: event.tenant_id,
-      event_type: event.event_type,
-      idempotency_key: event.idempotency_key,
-      deduplicated: true,
-    };
-  }
-
-  const tenantId = tenantMap.get(event.tenant_id)!;
-
-  const usageEvent = await prisma.usageEvent.create({
-    data: {
-      tenantId,
-      organizationId,
-      eventType: event.event_type,
-      quantity: event.quantity,
-      metadata: (event.metadata ?? {}) as Record<
-        string,
-        string | number | boolean
-      >,
-      timestamp: event.timestamp ? new Date(event.timestamp) : new Date(),
-      idempotencyKey: event.idempotency_key,
-    },
-  });
+  usageEvent: { id: string; tenantId: string },
+): ProcessedEvent {
+  const { tenantId } = usageEvent;
 
   // Cache idempotency key if provided
   if (event.idempotency_key) {
@@ -316,6 +306,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Ingestion is not gated on apiAccess so billable usage is never dropped
     const organizationId = keyValidation.organizationId;
 
     // Check rate limits
@@ -410,47 +401,108 @@ export async function POST(req: NextRequest) {
         internalTenantId: tenantMap.get(e.tenant_id)!,
       }));
 
-    // Step 4: Check quotas for new events
-    const quotaViolations = await checkQuotas(newEvents);
+    // Step 4: Reserve tenant and organization quota for new events in one
+    // atomic step, so concurrent batches cannot overshoot a limit
+    const reservation = await reserveEventQuotas(
+      organizationId,
+      newEvents.map((e) => ({
+        tenantId: e.internalTenantId,
+        eventType: e.event_type,
+        quantity: e.quantity,
+      })),
+    );
+    const orgQuotaHeaders = buildOrganizationQuotaHeaders(
+      reservation.organization,
+    );
+
+    if (!reservation.allowed) {
+      const violations = quotaViolations(reservation, newEvents);
+      if (violations.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Quota exceeded for one or more events",
+            code: "QUOTA_EXCEEDED",
+            violations,
+          },
+          { status: 403, headers: orgQuotaHeaders },
+        );
+      }
 
-    if (quotaViolations.length > 0) {
       return NextResponse.json(
-        {
-          error: "Quota exceeded for one or more events",
-          code: "QUOTA_EXCEEDED",
-          violations: quotaViolations,
-        },
-        { status: 403 },
+        buildOrganizationQuotaErrorResponse(reservation.organization),
+        { status: 403, headers: orgQuotaHeaders },
       );
     }
 
-    // Step 5: Process all events
-    const processedEvents = await Promise.all(
-      events.map((event) =>
-        processSingleEvent(event, organizationId, tenantMap, duplicates),
-      ),
-    );
+    // Step 5: Store new events in one transaction, so a batch is stored
+    // whole or not at all and can safely be retried. Quota reserved for a
+    // batch that could not be stored is given back.
+    let stored: Array<{ id: string; tenantId: string }>;
+    try {
+      stored = await prisma.$transaction(
+        newEvents.map((e) =>
+          prisma.usageEvent.create({
+            data: usageEventData(e, organizationId, e.internalTenantId),
+            select: { id: true, tenantId: true },
+          }),
+        ),
+      );
+    } catch (error) {
+      await reservation
+        .release(
+          newEvents.map((e) => ({
+            tenantId: e.internalTenantId,
+            eventType: e.event_type,
+            quantity: e.quantity,
+          })),
+        )
+        .catch((releaseError) =>
+          console.error("Error releasing quota:", releaseError),
+        );
+      throw error;
+    }
+
+    // New events come back in order; duplicates return the stored event
+    let next = 0;
+    const processedEvents = events.map((event): ProcessedEvent => {
+      if (event.idempotency_key && duplicates.has(event.idempotency_key)) {
+        return {
+          id: duplicates.get(event.idempotency_key)!,
+          tenant_id: event.tenant_id,
+          event_type: event.event_type,
+          idempotency_key: event.idempotency_key,
+          deduplicated: true,
+        };
+      }
+      return recordStoredEvent(event, organizationId, stored[next++]!);
+    });
 
     // Build response
     const newCount = processedEvents.filter((e) => !e.deduplicated).length;
     const duplicateCount = processedEvents.filter((e) => e.deduplicated).length;
 
     if (isBatch) {
-      return NextResponse.json({
-        success: true,
-        count: processedEvents.length,
-        new_events: newCount,
-        deduplicated: duplicateCount,
-        event_ids: processedEvents.map((e) => e.id),
-        events: processedEvents,
-      });
+      return NextResponse.json(
+        {
+          success: true,
+          count: processedEvents.length,
+          new_events: newCount,
+          deduplicated: duplicateCount,
+          event_ids: processedEvents.map((e) => e.id),
+          events: processedEvents,
+        },
+        { headers: orgQuotaHeaders },
+      );
     } else {
       const result = processedEvents[0];
-      return NextResponse.json({
-        success: true,
-        event_id: result.id,
-        deduplicated: result.deduplicated || false,
-      });
+      return NextResponse.json(
+        {
+          success: true,
+          event_id: result.id,
+          deduplicated: result.deduplicated || false,
+        },
+        { headers: orgQuotaHeaders },
+      );
     }
   } catch (error) {
     console.error("Error processing event:", error);
@@ -497,6 +549,20 @@ export async function GET(req: NextRequest) {
     const endDate = searchParams.get("end_date");
     const limit = Math.min(parseInt(searchParams.get("limit") || "100"), 1000);
 
+    // History further back than the plan's retention is not served
+    const denial = await apiEntitlementDenial(async () => {
+      await requireEntitlement(keyValidation.organizationId, "apiAccess");
+      if (startDate) {
+        await requireRetention(
+          keyValidation.organizationId,
+          new Date(startDate),
+        );
+      }
+    });
+    if (denial) {
+      return NextResponse.json(denial, { status: 403 });
+    }
+
     // Build where clause
     const where: Record<string, unknown> = {
       organizationId: keyValidation.organizationId,
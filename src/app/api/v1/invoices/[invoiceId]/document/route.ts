@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateApiKey, hasPermission } from "@/server/services/apiKeys";
+import {
+  apiEntitlementDenial,
+  requireEntitlement,
+} from "@/server/services/entitlements";
+import {
+  loadInvoiceDocument,
+  renderInvoiceDocument,
+  type InvoiceDocumentFormat,
+} from "@/server/services/invoiceDocuments";
+
+const FORMATS: InvoiceDocumentFormat[] = ["pdf", "ubl", "json"];
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> },
+) {
+  try {
+    // Validate API key
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json(
+        { error: "Missing or invalid Authorization header" },
+        { status: 401 },
+      );
+    }
+
+    const apiKey = authHeader.substring(7);
+    const keyValidation = await validateApiKey(apiKey);
+
+    if (!keyValidation.valid) {
+      return NextResponse.json(
+        { error: keyValidation.reason },
+        { status: 401 },
+      );
+    }
+
+    if (!hasPermission(keyValidation, "invoices:read")) {
+      return NextResponse.json(
+        { error: "Insufficient permissions. Required: invoices:read" },
+        { status: 403 },
+      );
+    }
+
+    const denial = await apiEntitlementDenial(() =>
+      requireEntitlement(keyValidation.organizationId, "apiAccess"),
+    );
+    if (denial) {
+      return NextResponse.json(denial, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format = (searchParams.get("format") ||
+      "pdf") as InvoiceDocumentFormat;
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Expected one of: ${FORMATS.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const { invoiceId } = await params;
+    const document = await loadInvoiceDocument({
+      invoiceId,
+      organizationId: keyValidation.organizationId,
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    const rendered = await renderInvoiceDocument(document, format);
+    const etag = `"${rendered.sha256}"`;
+
+    if (req.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    return new NextResponse(Buffer.from(rendered.content), {
+      headers: {
+        "Content-Type": rendered.contentType,
+        "Content-Disposition": `attachment; filename="${rendered.filename}"`,
+        ETag: etag,
+        "X-Document-SHA256": rendered.sha256,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering invoice document:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/server/db/prisma";
+import { validateApiKey, hasPermission } from "@/server/services/apiKeys";
+import {
+  apiEntitlementDenial,
+  requireEntitlement,
+} from "@/server/services/entitlements";
+import {
+  buildQuotaLimitErrorResponse,
+  deleteQuotaLimit,
+  getQuotaLimit,
+  QuotaLimitError,
+  toApiQuotaLimit,
+  updateQuotaLimit,
+  type QuotaLimitView,
+} from "@/server/services/quotaLimits";
+
+// Omitted fields are left alone; null clears an optional one
+const updateQuotaSchema = z.object({
+  limit_type: z.enum(["MONTHLY", "ROLLING_30D", "CUSTOM"]).optional(),
+  limit_value: z.number().positive().optional(),
+  period_days: z.number().int().min(1).max(366).nullable().optional(),
+  reset_at: z.string().datetime().optional(),
+  soft_limit_value: z.number().positive().nullable().optional(),
+  enforcement_mode: z.enum(["HARD", "SOFT", "DISABLED"]).optional(),
+  overage_allowed: z.number().min(0).nullable().optional(),
+  grace_period_end: z.string().datetime().nullable().optional(),
+});
+
+type RouteContext = { params: Promise<{ quotaId: string }> };
+
+// The organization of a valid key with `permission`, or the error response
+async function authorize(req: NextRequest, permission: string) {
+  const authHeader = req.headers.get("authorization");
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return NextResponse.json(
+      { error: "Missing or invalid Authorization header" },
+      { status: 401 },
+    );
+  }
+
+  const keyValidation = await validateApiKey(authHeader.substring(7));
+
+  if (!keyValidation.valid) {
+    return NextResponse.json({ error: keyValidation.reason }, { status: 401 });
+  }
+
+  if (!hasPermission(keyValidation, permission)) {
+    return NextResponse.json(
+      { error: `Insufficient permissions. Required: ${permission}` },
+      { status: 403 },
+    );
+  }
+
+  const denial = await apiEntitlementDenial(() =>
+    requireEntitlement(keyValidation.organizationId, "apiAccess"),
+  );
+  if (denial) {
+    return NextResponse.json(denial, { status: 403 });
+  }
+
+  return keyValidation.organizationId;
+}
+
+async function respondWithQuota(quotaLimit: QuotaLimitView) {
+  const tenant = await prisma.tenant.findUniqueOrThrow({
+    where: { id: quotaLimit.tenantId },
+    select: { externalId: true },
+  });
+  return NextResponse.json({
+    quota: toApiQuotaLimit(quotaLimit, tenant.externalId),
+  });
+}
+
+function respondWithError(error: unknown, action: string) {
+  if (error instanceof QuotaLimitError) {
+    const { body, status } = buildQuotaLimitErrorResponse(error);
+    return NextResponse.json(body, { status });
+  }
+  console.error(`Error ${action} quota:`, error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const organizationId = await authorize(req, "quotas:read");
+    if (organizationId instanceof NextResponse) return organizationId;
+
+    const { quotaId } = await params;
+    return respondWithQuota(
+      await getQuotaLimit({ organizationId, quotaLimitId: quotaId }),
+    );
+  } catch (error) {
+    return respondWithError(error, "fetching");
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const organizationId = await authorize(req, "quotas:write");
+    if (organizationId instanceof NextResponse) return organizationId;
+
+    const parsed = updateQuotaSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.errors },
+        { status: 400 },
+      );
+    }
+    const body = parsed.data;
+
+    const { quotaId } = await params;
+    return respondWithQuota(
+      await updateQuotaLimit({
+        organizationId,
+        quotaLimitId: quotaId,
+        limitType: body.limit_type,
+        limitValue: body.limit_value,
+        periodDays: body.period_days,
+        resetAt: body.reset_at ? new Date(body.reset_at) : undefined,
+        softLimitValue: body.soft_limit_value,
+        enforcementMode: body.enforcement_mode,
+        overageAllowed: body.overage_allowed,
+        gracePeriodEnd:
+          body.grace_period_end === undefined || body.grace_period_end === null
+            ? body.grace_period_end
+            : new Date(body.grace_period_end),
+      }),
+    );
+  } catch (error) {
+    return respondWithError(error, "updating");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const organizationId = await authorize(req, "quotas:write");
+    if (organizationId instanceof NextResponse) return organizationId;
+
+    const { quotaId } = await params;
+    await deleteQuotaLimit({ organizationId, quotaLimitId: quotaId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return respondWithError(error, "deleting");
+  }
+}
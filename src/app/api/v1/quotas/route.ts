@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/server/db/prisma";
+import { validateApiKey, hasPermission } from "@/server/services/apiKeys";
+import {
+  apiEntitlementDenial,
+  requireEntitlement,
+} from "@/server/services/entitlements";
+import {
+  buildQuotaLimitErrorResponse,
+  createQuotaLimit,
+  listQuotaLimits,
+  QuotaLimitError,
+  toApiQuotaLimit,
+} from "@/server/services/quotaLimits";
+
+const createQuotaSchema = z.object({
+  tenant_id: z.string().min(1).max(100),
+  event_type: z.string().min(1).max(100),
+  limit_type: z.enum(["MONTHLY", "ROLLING_30D", "CUSTOM"]).optional(),
+  limit_value: z.number().positive(),
+  period_days: z.number().int().min(1).max(366).optional(),
+  reset_at: z.string().datetime().optional(),
+  soft_limit_value: z.number().positive().optional(),
+  enforcement_mode: z.enum(["HARD", "SOFT", "DISABLED"]).optional(),
+  overage_allowed: z.number().min(0).optional(),
+  grace_period_end: z.string().datetime().optional(),
+});
+
+// The organization of a valid key with `permission`, or the error response
+async function authorize(req: NextRequest, permission: string) {
+  const authHeader = req.headers.get("authorization");
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return NextResponse.json(
+      { error: "Missing or invalid Authorization header" },
+      { status: 401 },
+    );
+  }
+
+  const keyValidation = await validateApiKey(authHeader.substring(7));
+
+  if (!keyValidation.valid) {
+    return NextResponse.json({ error: keyValidation.reason }, { status: 401 });
+  }
+
+  if (!hasPermission(keyValidation, permission)) {
+    return NextResponse.json(
+      { error: `Insufficient permissions. Required: ${permission}` },
+      { status: 403 },
+    );
+  }
+
+  const denial = await apiEntitlementDenial(() =>
+    requireEntitlement(keyValidation.organizationId, "apiAccess"),
+  );
+  if (denial) {
+    return NextResponse.json(denial, { status: 403 });
+  }
+
+  return keyValidation.organizationId;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const organizationId = await authorize(req, "quotas:read");
+    if (organizationId instanceof NextResponse) return organizationId;
+
+    const { searchParams } = new URL(req.url);
+    const externalId = searchParams.get("tenant_id");
+    const eventType = searchParams.get("event_type") ?? undefined;
+
+    let tenantId: string | undefined;
+    if (externalId) {
+      const tenant = await prisma.tenant.findFirst({
+        where: { organizationId, externalId },
+      });
+      if (!tenant) {
+        return NextResponse.json({ quotas: [] });
+      }
+      tenantId = tenant.id;
+    }
+
+    const quotaLimits = await listQuotaLimits({
+      organizationId,
+      tenantId,
+      eventType,
+    });
+
+    return NextResponse.json({
+      quotas: quotaLimits.map((quotaLimit) =>
+        toApiQuotaLimit(quotaLimit, quotaLimit.tenant.externalId),
+      ),
+    });
+  } catch (error) {
+    console.error("Error listing quotas:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const organizationId = await authorize(req, "quotas:write");
+    if (organizationId instanceof NextResponse) return organizationId;
+
+    const parsed = createQuotaSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.errors },
+        { status: 400 },
+      );
+    }
+    const body = parsed.data;
+
+    const tenant = await prisma.tenant.findFirst({
+      where: { organizationId, externalId: body.tenant_id },
+    });
+    if (!tenant) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+    }
+
+    const quotaLimit = await createQuotaLimit({
+      organizationId,
+      tenantId: tenant.id,
+      eventType: body.event_type,
+      limitType: body.limit_type,
+      limitValue: body.limit_value,
+      periodDays: body.period_days,
+      resetAt: body.reset_at ? new Date(body.reset_at) : undefined,
+      softLimitValue: body.soft_limit_value,
+      enforcementMode: body.enforcement_mode,
+      overageAllowed: body.overage_allowed,
+      gracePeriodEnd: body.grace_period_end
+        ? new Date(body.grace_period_end)
+        : undefined,
+    });
+
+    return NextResponse.json(
+      { quota: toApiQuotaLimit(quotaLimit, tenant.externalId) },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof QuotaLimitError) {
+      const { body, status } = buildQuotaLimitErrorResponse(error);
+      return NextResponse.json(body, { status });
+    }
+    console.error("Error creating quota:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
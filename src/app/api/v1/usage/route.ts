@@ -1,6 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/server/db/prisma";
+import { Decimal } from "@prisma/client/runtime/library";
 import { validateApiKey, hasPermission } from "@/server/services/apiKeys";
+import {
+  apiEntitlementDenial,
+  requireEntitlement,
+  requireRetention,
+} from "@/server/services/entitlements";
+import { money } from "@/server/services/money";
+import { getCreditBalance, getCreditBalances } from "@/server/services/credits";
+
+// Remaining credit of one tenant in its billing currency, in drawdown order
+async function creditSummary(tenantId: string) {
+  const balance = await getCreditBalance(tenantId);
+  return {
+    currency: balance.currency,
+    balance: balance.total.toNumber(),
+    grants: balance.grants.map((grant) => ({
+      id: grant.id,
+      type: grant.type,
+      description: grant.description,
+      remaining: grant.remainingAmount.toNumber(),
+      priority: grant.priority,
+      event_types: grant.eventTypes,
+      expires_at: grant.expiresAt?.toISOString() ?? null,
+    })),
+  };
+}
 
 export async function GET(req: NextRequest) {
   try {
@@ -37,6 +63,20 @@ export async function GET(req: NextRequest) {
     const endDate = searchParams.get("end_date");
     const groupBy = searchParams.get("group_by") || "event_type"; // event_type, tenant, day
 
+    // History further back than the plan's retention is not served
+    const denial = await apiEntitlementDenial(async () => {
+      await requireEntitlement(keyValidation.organizationId, "apiAccess");
+      if (startDate) {
+        await requireRetention(
+          keyValidation.organizationId,
+          new Date(startDate),
+        );
+      }
+    });
+    if (denial) {
+      return NextResponse.json(denial, { status: 403 });
+    }
+
     // Build where clause
     const where: Record<string, unknown> = {
       organizationId: keyValidation.organizationId,
@@ -75,6 +115,12 @@ export async function GET(req: NextRequest) {
       lte: periodEnd,
     };
 
+    // Filtering on a tenant also reports its remaining credit
+    const credits =
+      typeof where.tenantId === "string"
+        ? { credits: await creditSummary(where.tenantId) }
+        : {};
+
     if (groupBy === "event_type") {
       const usage = await prisma.usageEvent.groupBy({
         by: ["eventType"],
@@ -93,6 +139,7 @@ export async function GET(req: NextRequest) {
           start: periodStart.toISOString(),
           end: periodEnd.toISOString(),
         },
+        ...credits,
       });
     } else if (groupBy === "tenant") {
       const usage = await prisma.usageEvent.groupBy({
@@ -102,12 +149,15 @@ export async function GET(req: NextRequest) {
         _count: true,
       });
 
-      // Get tenant external IDs
+      // Get tenant external IDs and credit balances
       const tenantIds = usage.map((u: (typeof usage)[number]) => u.tenantId);
-      const tenants = await prisma.tenant.findMany({
-        where: { id: { in: tenantIds } },
-        select: { id: true, externalId: true },
-      });
+      const [tenants, creditBalances] = await Promise.all([
+        prisma.tenant.findMany({
+          where: { id: { in: tenantIds } },
+          select: { id: true, externalId: true },
+        }),
+        getCreditBalances(tenantIds),
+      ]);
       const tenantMap = new Map(
         tenants.map((t: { id: string; externalId: string }) => [
           t.id,
@@ -120,11 +170,13 @@ export async function GET(req: NextRequest) {
           tenant_id: tenantMap.get(u.tenantId) || u.tenantId,
           total_quantity: Number(u._sum.quantity || 0),
           event_count: u._count,
+          credit_balance: creditBalances.get(u.tenantId)?.toNumber() ?? 0,
         })),
         period: {
           start: periodStart.toISOString(),
           end: periodEnd.toISOString(),
         },
+        ...credits,
       });
     } else if (groupBy === "day") {
       // For daily grouping, we need raw SQL or a different approach
@@ -137,17 +189,20 @@ export async function GET(req: NextRequest) {
         },
       });
 
+      // Sum in Decimal and convert once per day to avoid float drift
       type DailyUsage = Record<
         string,
-        { total_quantity: number; event_count: number }
+        { total_quantity: Decimal; event_count: number }
       >;
       const dailyUsage = events.reduce(
         (acc: DailyUsage, event: (typeof events)[number]) => {
           const day = event.timestamp.toISOString().split("T")[0]!;
           if (!acc[day]) {
-            acc[day] = { total_quantity: 0, event_count: 0 };
+            acc[day] = { total_quantity: money(0), event_count: 0 };
           }
-          acc[day].total_quantity += Number(event.quantity);
+          acc[day].total_quantity = acc[day].total_quantity.plus(
+            event.quantity,
+          );
           acc[day].event_count += 1;
           return acc;
         },
@@ -158,18 +213,20 @@ export async function GET(req: NextRequest) {
         usage: (
           Object.entries(dailyUsage) as [
             string,
-            { total_quantity: number; event_count: number },
+            { total_quantity: Decimal; event_count: number },
           ][]
         )
           .map(([date, data]) => ({
             date,
-            ...data,
+            total_quantity: data.total_quantity.toNumber(),
+            event_count: data.event_count,
           }))
           .sort((a, b) => a.date.localeCompare(b.date)),
         period: {
           start: periodStart.toISOString(),
           end: periodEnd.toISOString(),
         },
+        ...credits,
       });
     }
 
@@ -2,6 +2,62 @@
 
 import { trpc } from "@/lib/trpc/react";
 
+interface InvoiceTaxSummary {
+  name: string | null;
+  rate: number;
+  exempt: boolean;
+  reverseCharge: boolean;
+}
+
+function formatTaxLabel(tax: InvoiceTaxSummary | undefined) {
+  if (!tax?.name) return "Tax";
+  if (tax.reverseCharge) return `${tax.name} (reverse charge)`;
+  if (tax.exempt) return `${tax.name} (exempt)`;
+  return `${tax.name} (${(tax.rate * 100).toFixed(2).replace(/\.?0+$/, "")}%)`;
+}
+
+function formatMoney(
+  amount: number | string | { toString(): string },
+  currency: string,
+  fractionDigits = 2,
+) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(Number(amount));
+}
+
+// Amounts are decimal strings; invoices from before decimal pricing stored
+// plain numbers
+interface TierBreakdownRow {
+  tierLevel: number;
+  quantity: number | string;
+  unitPrice: number | string;
+  subtotal: number | string;
+  label?: string;
+}
+
+interface LineItemSlice {
+  periodStart: string;
+  periodEnd: string;
+  tierBreakdown: TierBreakdownRow[];
+}
+
+// Line items spanning a price change are priced in one slice per tier set.
+// Older line items only carry a flat tier breakdown.
+function lineSlices(metadata: unknown): LineItemSlice[] {
+  const { slices, tierBreakdown } = (metadata ?? {}) as {
+    slices?: LineItemSlice[];
+    tierBreakdown?: TierBreakdownRow[];
+  };
+  if (slices) return slices;
+  return tierBreakdown
+    ? [{ periodStart: "", periodEnd: "", tierBreakdown }]
+    : [];
+}
+
 interface InvoiceDetailProps {
   tenantId: string;
   invoiceId: string;
@@ -11,6 +67,25 @@ export function InvoiceDetail({ tenantId, invoiceId }: InvoiceDetailProps) {
   const { data: invoice, isLoading } = trpc.billing.getInvoice.useQuery({
     invoiceId,
   });
+  const utils = trpc.useUtils();
+
+  const downloadDocument = async (format: "pdf" | "ubl" | "json") => {
+    const document = await utils.billing.getInvoiceDocument.fetch({
+      invoiceId,
+      format,
+    });
+    const bytes = Uint8Array.from(atob(document.base64), (c) =>
+      c.charCodeAt(0),
+    );
+    const url = URL.createObjectURL(
+      new Blob([bytes], { type: document.contentType }),
+    );
+    const link = window.document.createElement("a");
+    link.href = url;
+    link.download = document.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   if (isLoading) {
     return <div className="text-gray-500">Loading invoice...</div>;
@@ -20,6 +95,9 @@ export function InvoiceDetail({ tenantId, invoiceId }: InvoiceDetailProps) {
     return <div className="text-red-500">Invoice not found</div>;
   }
 
+  const taxSummary = (invoice.metadata as { tax?: InvoiceTaxSummary } | null)
+    ?.tax;
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-start">
@@ -45,6 +123,18 @@ export function InvoiceDetail({ tenantId, invoiceId }: InvoiceDetailProps) {
         </div>
       </div>
 
+      <div className="flex gap-2">
+        {(["pdf", "ubl", "json"] as const).map((format) => (
+          <button
+            key={format}
+            onClick={() => downloadDocument(format)}
+            className="px-3 py-1.5 text-sm rounded-md border hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Download {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
       <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
         <h3 className="text-lg font-semibold mb-4">Line Items</h3>
         <div className="space-y-4">
@@ -56,12 +146,30 @@ export function InvoiceDetail({ tenantId, invoiceId }: InvoiceDetailProps) {
               <div>
                 <div className="font-medium">{item.eventType}</div>
                 <div className="text-sm text-gray-500">
-                  {Number(item.quantity).toLocaleString()} units @ $
-                  {Number(item.unitPrice).toFixed(6)} per unit
+                  {Number(item.quantity).toLocaleString()} units @{" "}
+                  {formatMoney(item.unitPrice, invoice.currency, 6)} per unit
                 </div>
+                {lineSlices(item.metadata).map((slice, index, slices) => (
+                  <div key={index} className="mt-1 text-xs text-gray-500">
+                    {slices.length > 1 && (
+                      <div className="font-medium">
+                        {new Date(slice.periodStart).toLocaleDateString()} -{" "}
+                        {new Date(slice.periodEnd).toLocaleDateString()}
+                      </div>
+                    )}
+                    {slice.tierBreakdown.map((row, rowIndex) => (
+                      <div key={rowIndex}>
+                        {row.label ?? `Tier ${row.tierLevel}`}:{" "}
+                        {Number(row.quantity).toLocaleString()} @{" "}
+                        {formatMoney(row.unitPrice, invoice.currency, 6)} ={" "}
+                        {formatMoney(row.subtotal, invoice.currency)}
+                      </div>
+                    ))}
+                  </div>
+                ))}
               </div>
               <div className="text-lg font-bold">
-                ${Number(item.totalPrice).toFixed(2)}
+                {formatMoney(item.totalPrice, invoice.currency)}
               </div>
             </div>
           ))}
@@ -73,18 +181,18 @@ export function InvoiceDetail({ tenantId, invoiceId }: InvoiceDetailProps) {
           <div className="flex justify-between">
             <span className="text-gray-600">Subtotal:</span>
             <span className="font-medium">
-              ${Number(invoice.subtotal).toFixed(2)}
+              {formatMoney(invoice.subtotal, invoice.currency)}
             </span>
           </div>
           <div className="flex justify-between">
-            <span className="text-gray-600">Tax:</span>
+            <span className="text-gray-600">{formatTaxLabel(taxSummary)}:</span>
             <span className="font-medium">
-              ${Number(invoice.tax).toFixed(2)}
+              {formatMoney(invoice.tax, invoice.currency)}
             </span>
           </div>
           <div className="flex justify-between text-xl font-bold border-t pt-2">
             <span>Total:</span>
-            <span>${Number(invoice.total).toFixed(2)}</span>
+            <span>{formatMoney(invoice.total, invoice.currency)}</span>
           </div>
         </div>
       </div>
@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+interface UpgradePromptProps {
+  error: {
+    message: string;
+    data?: {
+      entitlement?: {
+        upgradePlans: { id: string; name: string }[];
+      } | null;
+    } | null;
+  } | null;
+}
+
+// Shows a mutation error, with a link to the plans page when it was denied
+// by the organization's plan
+export function UpgradePrompt({ error }: UpgradePromptProps) {
+  if (!error) return null;
+  const entitlement = error.data?.entitlement;
+
+  return (
+    <div className="rounded-md border border-destructive/50 p-3 text-sm">
+      <p className="text-destructive">{error.message}</p>
+      {entitlement && (
+        <div className="mt-2 flex items-center justify-between gap-2">
+          <p className="text-muted-foreground">
+            {entitlement.upgradePlans.length > 0
+              ? `Available on ${entitlement.upgradePlans
+                  .map((plan) => plan.name)
+                  .join(", ")}.`
+              : "Contact us to raise this limit."}
+          </p>
+          {entitlement.upgradePlans.length > 0 && (
+            <Button asChild size="sm">
+              <Link href="/dashboard/billing/plans">Upgrade</Link>
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -46,6 +46,7 @@ const navigation = [
       { title: "Overview", href: "/dashboard/usage" },
       { title: "Events", href: "/dashboard/usage/events" },
       { title: "Reports", href: "/dashboard/usage/reports" },
+      { title: "Quotas", href: "/dashboard/usage/quotas" },
     ],
   },
   {
@@ -55,6 +56,7 @@ const navigation = [
       { title: "Plans", href: "/dashboard/billing/plans" },
       { title: "Invoices", href: "/dashboard/billing/invoices" },
       { title: "Payment Methods", href: "/dashboard/billing/payment-methods" },
+      { title: "Pricing Simulator", href: "/dashboard/billing/simulator" },
     ],
   },
   {
@@ -0,0 +1,535 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Pencil, Plus, Star, Trash2, Users, X } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/lib/trpc/react";
+
+type LimitType = "MONTHLY" | "ROLLING_30D" | "CUSTOM";
+type EnforcementMode = "HARD" | "SOFT" | "DISABLED";
+
+const windowLabels: Record<LimitType, string> = {
+  MONTHLY: "per month",
+  ROLLING_30D: "per 30 days",
+  CUSTOM: "per period",
+};
+
+type LimitRow = {
+  eventType: string;
+  limitType: LimitType;
+  periodDays: string;
+  limitValue: string;
+  softLimitValue: string;
+  enforcementMode: EnforcementMode;
+  overageAllowed: string;
+};
+
+const emptyRow: LimitRow = {
+  eventType: "",
+  limitType: "MONTHLY",
+  periodDays: "30",
+  limitValue: "",
+  softLimitValue: "",
+  enforcementMode: "HARD",
+  overageAllowed: "",
+};
+
+const selectClassName =
+  "w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+function optionalNumber(value: string) {
+  return value.trim() === "" ? null : Number(value);
+}
+
+// Templates bundle limits per event type; they are copied into tenant quotas
+// when applied, and the default one is applied to auto-created tenants
+export function QuotaTemplates({ organizationId }: { organizationId: string }) {
+  // Id of the template being edited, "new" when creating, null when closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [rows, setRows] = useState<LimitRow[]>([emptyRow]);
+  const [applying, setApplying] = useState<string | null>(null);
+  const [selectedTenants, setSelectedTenants] = useState<string[]>([]);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+
+  const utils = trpc.useUtils();
+
+  const { data: templates, isLoading } = trpc.quotas.listTemplates.useQuery();
+  const { data: customers } = trpc.customers.list.useQuery(
+    { organizationId, status: "ACTIVE", limit: 100 },
+    { enabled: applying !== null },
+  );
+
+  const onSaved = () => {
+    utils.quotas.listTemplates.invalidate();
+    setEditing(null);
+  };
+  const createMutation = trpc.quotas.createTemplate.useMutation({
+    onSuccess: onSaved,
+  });
+  const updateMutation = trpc.quotas.updateTemplate.useMutation({
+    onSuccess: onSaved,
+  });
+  const deleteMutation = trpc.quotas.deleteTemplate.useMutation({
+    onSuccess: () => utils.quotas.listTemplates.invalidate(),
+  });
+  const defaultMutation = trpc.quotas.setDefaultTemplate.useMutation({
+    onSuccess: () => utils.quotas.listTemplates.invalidate(),
+  });
+  const applyMutation = trpc.quotas.applyTemplate.useMutation({
+    onSuccess: () => utils.quotas.list.invalidate(),
+  });
+
+  const saveError = createMutation.error ?? updateMutation.error;
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const updateRow = (index: number, fields: Partial<LimitRow>) =>
+    setRows((current) =>
+      current.map((row, i) => (i === index ? { ...row, ...fields } : row)),
+    );
+
+  const openCreate = () => {
+    createMutation.reset();
+    setName("");
+    setRows([emptyRow]);
+    setEditing("new");
+  };
+
+  const openEdit = (template: NonNullable<typeof templates>[number]) => {
+    updateMutation.reset();
+    setName(template.name);
+    setRows(
+      template.limits.map((limit) => ({
+        eventType: limit.eventType,
+        limitType: limit.limitType,
+        periodDays: String(limit.periodDays ?? 30),
+        limitValue: String(limit.limitValue),
+        softLimitValue: limit.softLimitValue?.toString() ?? "",
+        enforcementMode: limit.enforcementMode,
+        overageAllowed: limit.overageAllowed?.toString() ?? "",
+      })),
+    );
+    setEditing(template.id);
+  };
+
+  const openApply = (templateId: string) => {
+    applyMutation.reset();
+    setSelectedTenants([]);
+    setReplaceExisting(false);
+    setApplying(templateId);
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+
+    const limits = rows.map((row) => ({
+      eventType: row.eventType.trim(),
+      limitType: row.limitType,
+      limitValue: Number(row.limitValue),
+      periodDays:
+        row.limitType === "CUSTOM" ? optionalNumber(row.periodDays) : null,
+      softLimitValue: optionalNumber(row.softLimitValue),
+      enforcementMode: row.enforcementMode,
+      overageAllowed:
+        row.enforcementMode === "SOFT"
+          ? optionalNumber(row.overageAllowed)
+          : null,
+    }));
+
+    if (editing === "new") {
+      createMutation.mutate({ name: name.trim(), limits });
+    } else {
+      updateMutation.mutate({
+        templateId: editing,
+        name: name.trim(),
+        limits,
+      });
+    }
+  };
+
+  const handleDelete = (templateId: string) => {
+    if (!confirm("Delete this template? Existing quotas are kept.")) return;
+    deleteMutation.mutate({ templateId });
+  };
+
+  const toggleTenant = (tenantId: string) =>
+    setSelectedTenants((current) =>
+      current.includes(tenantId)
+        ? current.filter((id) => id !== tenantId)
+        : [...current, tenantId],
+    );
+
+  const canSave =
+    name.trim() &&
+    rows.every((row) => row.eventType.trim() && Number(row.limitValue) > 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Quota Templates</CardTitle>
+          <CardDescription>
+            Bundles of limits to apply to customers. The default template is
+            applied to customers created by incoming events.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Template
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !templates || templates.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">
+            No templates yet. Create one such as &quot;free&quot; or
+            &quot;pro&quot; to give customers a standard set of limits.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Limits</TableHead>
+                <TableHead className="w-[180px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2 font-medium">
+                      {template.name}
+                      {template.isDefault && <Badge>Default</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {template.limits.length === 0
+                      ? "—"
+                      : template.limits.map((limit) => (
+                          <div key={limit.eventType}>
+                            <span className="font-mono">{limit.eventType}</span>
+                            : {limit.limitValue.toLocaleString()}{" "}
+                            {windowLabels[limit.limitType]} (
+                            {limit.enforcementMode.toLowerCase()})
+                          </div>
+                        ))}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={
+                          template.isDefault
+                            ? "Stop using as default"
+                            : "Use as default"
+                        }
+                        onClick={() =>
+                          defaultMutation.mutate({
+                            templateId: template.isDefault ? null : template.id,
+                          })
+                        }
+                        disabled={defaultMutation.isPending}
+                      >
+                        <Star
+                          className={
+                            template.isDefault
+                              ? "h-4 w-4 fill-current"
+                              : "h-4 w-4"
+                          }
+                        />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Apply to customers"
+                        onClick={() => openApply(template.id)}
+                      >
+                        <Users className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEdit(template)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(template.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {editing === "new" ? "New Template" : "Edit Template"}
+            </DialogTitle>
+            <DialogDescription>
+              Changes apply the next time the template is applied; existing
+              quotas are not updated.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Name</Label>
+              <Input
+                id="templateName"
+                placeholder="e.g., free, pro"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            {rows.map((row, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-2 gap-2 rounded-md border p-3 sm:grid-cols-4"
+              >
+                <Input
+                  placeholder="Event type"
+                  value={row.eventType}
+                  onChange={(e) =>
+                    updateRow(index, { eventType: e.target.value })
+                  }
+                />
+                <select
+                  className={selectClassName}
+                  value={row.limitType}
+                  onChange={(e) =>
+                    updateRow(index, {
+                      limitType: e.target.value as LimitType,
+                    })
+                  }
+                >
+                  <option value="MONTHLY">Monthly</option>
+                  <option value="ROLLING_30D">Rolling 30 days</option>
+                  <option value="CUSTOM">Custom period</option>
+                </select>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Limit"
+                  value={row.limitValue}
+                  onChange={(e) =>
+                    updateRow(index, { limitValue: e.target.value })
+                  }
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Soft limit"
+                  value={row.softLimitValue}
+                  onChange={(e) =>
+                    updateRow(index, { softLimitValue: e.target.value })
+                  }
+                />
+                <select
+                  className={selectClassName}
+                  value={row.enforcementMode}
+                  onChange={(e) =>
+                    updateRow(index, {
+                      enforcementMode: e.target.value as EnforcementMode,
+                    })
+                  }
+                >
+                  <option value="HARD">Hard</option>
+                  <option value="SOFT">Soft</option>
+                  <option value="DISABLED">Track only</option>
+                </select>
+                {row.enforcementMode === "SOFT" ? (
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Overage allowed"
+                    value={row.overageAllowed}
+                    onChange={(e) =>
+                      updateRow(index, { overageAllowed: e.target.value })
+                    }
+                  />
+                ) : (
+                  <div />
+                )}
+                {row.limitType === "CUSTOM" ? (
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Period (days)"
+                    value={row.periodDays}
+                    onChange={(e) =>
+                      updateRow(index, { periodDays: e.target.value })
+                    }
+                  />
+                ) : (
+                  <div />
+                )}
+                <div className="flex justify-end">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setRows((current) =>
+                        current.filter((_, i) => i !== index),
+                      )
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRows((current) => [...current, emptyRow])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Limit
+            </Button>
+          </div>
+          {saveError && (
+            <p className="text-sm text-destructive">{saveError.message}</p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Template"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={applying !== null}
+        onOpenChange={(open) => !open && setApplying(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Apply Template</DialogTitle>
+            <DialogDescription>
+              Create the template&apos;s quotas for the selected customers.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="max-h-64 space-y-1 overflow-y-auto rounded-md border p-2">
+              {customers?.customers.map((customer) => (
+                <label
+                  key={customer.id}
+                  className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-muted"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedTenants.includes(customer.id)}
+                    onChange={() => toggleTenant(customer.id)}
+                  />
+                  {customer.name || customer.externalId}
+                  <span className="text-muted-foreground">
+                    {customer.externalId}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={replaceExisting}
+                onChange={(e) => setReplaceExisting(e.target.checked)}
+              />
+              Overwrite existing quotas for the same event types
+            </label>
+            {applyMutation.data && (
+              <p className="text-sm text-muted-foreground">
+                Created {applyMutation.data.created}, updated{" "}
+                {applyMutation.data.updated}, kept {applyMutation.data.skipped}{" "}
+                existing quotas.
+              </p>
+            )}
+            {applyMutation.error && (
+              <p className="text-sm text-destructive">
+                {applyMutation.error.message}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplying(null)}>
+              Close
+            </Button>
+            <Button
+              onClick={() =>
+                applying &&
+                applyMutation.mutate({
+                  templateId: applying,
+                  tenantIds: selectedTenants,
+                  replaceExisting,
+                })
+              }
+              disabled={selectedTenants.length === 0 || applyMutation.isPending}
+            >
+              {applyMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Applying...
+                </>
+              ) : (
+                `Apply to ${selectedTenants.length} customer${selectedTenants.length === 1 ? "" : "s"}`
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -103,6 +103,13 @@ export function getQuotaLimitKey(tenantId: string, eventType: string): string {
   return `quota:tenant:${tenantId}:event:${eventType}:limit`;
 }
 
+export function getOrgQuotaKey(
+  organizationId: string,
+  periodId: string,
+): string {
+  return `quota:org:${organizationId}:period:${periodId}`;
+}
+
 export function getQuotaResetKey(tenantId: string, eventType: string): string {
   return `quota:tenant:${tenantId}:event:${eventType}:reset_at`;
 }
@@ -244,28 +251,22 @@ export async function checkAndIncrementQuota(
   };
 }
 
-// Enhanced quota check with soft limits and grace periods
-export async function checkQuotaEnhanced(
-  tenantId: string,
-  eventType: string,
-  quantity: number,
-  periodId: string,
-  options: {
-    softLimit?: number;
-    hardLimit: number;
-    enforcementMode: "HARD" | "SOFT" | "DISABLED";
-    gracePeriodEnd?: Date;
-    overageAllowed?: number;
-    resetAt?: Date;
-  },
-): Promise<QuotaCheckResult> {
-  const client = getRedisClient();
-
-  const quotaKey = getQuotaKey(tenantId, eventType, periodId);
+export interface QuotaPolicy {
+  softLimit?: number;
+  hardLimit: number;
+  enforcementMode: "HARD" | "SOFT" | "DISABLED";
+  gracePeriodEnd?: Date;
+  overageAllowed?: number;
+  resetAt?: Date;
+}
 
-  // Get current usage without incrementing first
-  const currentUsageStr = await client.get(quotaKey);
-  const currentUsage = currentUsageStr ? parseFloat(currentUsageStr) : 0;
+// Whether `quantity` more fits on top of `currentUsage` under a policy.
+// `current` is the usage after adding it, or unchanged when denied.
+export function evaluateQuota(
+  currentUsage: number,
+  quantity: number,
+  options: QuotaPolicy,
+): QuotaCheckResult {
   const projectedUsage = currentUsage + quantity;
 
   const result: QuotaCheckResult = {
@@ -282,44 +283,222 @@ export async function checkQuotaEnhanced(
   // Check enforcement mode
   if (options.enforcementMode === "DISABLED") {
     // Just track, don't enforce
-    await client.incrbyfloat(quotaKey, quantity);
     result.current = projectedUsage;
     return result;
   }
 
-  // Check grace period
-  const inGracePeriod =
-    options.gracePeriodEnd && new Date() < options.gracePeriodEnd;
-
   // Check soft limit warning
   if (options.softLimit && projectedUsage > options.softLimit) {
     result.warning = true;
   }
 
   // Check hard limit
-  if (options.enforcementMode === "HARD") {
-    if (projectedUsage > options.hardLimit && !inGracePeriod) {
-      result.allowed = false;
-      return result;
-    }
-  } else if (options.enforcementMode === "SOFT") {
-    // Allow up to hardLimit + overageAllowed
-    const maxAllowed = options.hardLimit + (options.overageAllowed || 0);
-    if (projectedUsage > maxAllowed && !inGracePeriod) {
-      result.allowed = false;
-      return result;
-    }
+  if (projectedUsage > quotaCeiling(options)) {
+    result.allowed = false;
+    return result;
   }
 
+  result.current = projectedUsage;
+  return result;
+}
+
+// Most usage a policy accepts: the hard limit, plus the overage in SOFT
+// mode, and unbounded when DISABLED or in a grace period
+export function quotaCeiling(options: QuotaPolicy): number {
+  if (options.enforcementMode === "DISABLED") return Infinity;
+  if (options.gracePeriodEnd && new Date() < options.gracePeriodEnd) {
+    return Infinity;
+  }
+  return options.enforcementMode === "SOFT"
+    ? options.hardLimit + (options.overageAllowed || 0)
+    : options.hardLimit;
+}
+
+// Check a quota counter and increment it if allowed
+export async function checkQuotaAtKey(
+  quotaKey: string,
+  quantity: number,
+  options: QuotaPolicy,
+): Promise<QuotaCheckResult> {
+  const client = getRedisClient();
+
+  // Get current usage without incrementing first
+  const currentUsageStr = await client.get(quotaKey);
+  const currentUsage = currentUsageStr ? parseFloat(currentUsageStr) : 0;
+
+  const result = evaluateQuota(currentUsage, quantity, options);
+
   // Increment if allowed
   if (result.allowed) {
     await client.incrbyfloat(quotaKey, quantity);
-    result.current = projectedUsage;
   }
 
   return result;
 }
 
+// Checks every item before touching any, so a reservation either takes all
+// of its quantities or none of them. An item's usage is the sum of its keys;
+// only the first is incremented. ARGV holds quantity, ceiling, key count and
+// TTL per item. Returns 1 or 0, then each item's usage before the
+// reservation.
+const RESERVE_QUOTA_SCRIPT = `
+local before = {}
+local allowed = 1
+local k = 1
+for i = 1, #ARGV / 4 do
+  local count = tonumber(ARGV[i * 4 - 1])
+  local current = 0
+  for j = k, k + count - 1 do
+    current = current + tonumber(redis.call("GET", KEYS[j]) or "0")
+  end
+  local ceiling = ARGV[i * 4 - 2]
+  if ceiling ~= "inf" and current + tonumber(ARGV[i * 4 - 3]) > tonumber(ceiling) then
+    allowed = 0
+  end
+  before[i] = tostring(current)
+  k = k + count
+end
+if allowed == 1 then
+  k = 1
+  for i = 1, #ARGV / 4 do
+    redis.call("INCRBYFLOAT", KEYS[k], ARGV[i * 4 - 3])
+    if tonumber(ARGV[i * 4]) > 0 then
+      redis.call("EXPIRE", KEYS[k], ARGV[i * 4])
+    end
+    k = k + tonumber(ARGV[i * 4 - 1])
+  end
+end
+return { allowed, unpack(before) }
+`;
+
+export interface QuotaReservationItem {
+  key: string; // Counter incremented by the reservation
+  readKeys?: string[]; // Further counters included in the usage
+  quantity: number;
+  policy: QuotaPolicy;
+  ttlSeconds?: number; // Refreshed on the counter when incremented
+}
+
+/**
+ * Atomically check and increment several quota counters. Either every
+ * item fits its quantity and all are incremented, or none are.
+ */
+export async function reserveQuota(items: QuotaReservationItem[]): Promise<{
+  allowed: boolean;
+  results: QuotaCheckResult[];
+}> {
+  if (items.length === 0) return { allowed: true, results: [] };
+
+  const client = getRedisClient();
+  const keys = items.flatMap((item) => [item.key, ...(item.readKeys ?? [])]);
+  const args = items.flatMap((item) => {
+    const ceiling = quotaCeiling(item.policy);
+    return [
+      item.quantity.toString(),
+      Number.isFinite(ceiling) ? ceiling.toString() : "inf",
+      (1 + (item.readKeys?.length ?? 0)).toString(),
+      (item.ttlSeconds ?? 0).toString(),
+    ];
+  });
+
+  const [allowed, ...before] = (await client.eval(
+    RESERVE_QUOTA_SCRIPT,
+    keys.length,
+    ...keys,
+    ...args,
+  )) as [number, ...string[]];
+
+  return {
+    allowed: allowed === 1,
+    results: items.map((item, i) =>
+      evaluateQuota(parseFloat(before[i]!), item.quantity, item.policy),
+    ),
+  };
+}
+
+// Mirror a QuotaLimit's value, or clear it when the limit is removed
+export async function syncQuotaLimitKey(
+  tenantId: string,
+  eventType: string,
+  limitValue: number | null,
+): Promise<void> {
+  const client = getRedisClient();
+  const key = getQuotaLimitKey(tenantId, eventType);
+  if (limitValue === null) {
+    await client.del(key);
+  } else {
+    await client.set(key, limitValue.toString());
+  }
+}
+
+// Delete counters that are no longer read
+export async function deleteKeys(keys: string[]): Promise<number> {
+  if (keys.length === 0) return 0;
+
+  const client = getRedisClient();
+  return client.del(...keys);
+}
+
+// Sum of several counters, missing ones counting as zero
+export async function sumCounters(keys: string[]): Promise<number> {
+  if (keys.length === 0) return 0;
+
+  const client = getRedisClient();
+  const values = await client.mget(...keys);
+  return values.reduce(
+    (sum, value) => sum + (value ? parseFloat(value) : 0),
+    0,
+  );
+}
+
+// Give back reserved quantities, e.g. for events that were not stored
+export async function releaseQuota(
+  items: { key: string; quantity: number }[],
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const client = getRedisClient();
+  const pipeline = client.pipeline();
+  for (const item of items) {
+    pipeline.incrbyfloat(item.key, -item.quantity);
+  }
+  await pipeline.exec();
+}
+
+// Start a counter at the loaded value unless it already exists
+export async function seedCounter(
+  key: string,
+  load: () => Promise<number>,
+  ttlSeconds: number,
+): Promise<void> {
+  const client = getRedisClient();
+  if (await client.exists(key)) return;
+  const value = await load();
+  await client.set(key, value.toString(), "EX", ttlSeconds, "NX");
+}
+
+// seedCounter for several counters at once. `load` is only asked for the
+// missing keys and returns their values in the same order.
+export async function seedCounters(
+  keys: string[],
+  load: (missing: string[]) => Promise<number[]>,
+  ttlSeconds: number,
+): Promise<void> {
+  const client = getRedisClient();
+  const exists = await client
+    .pipeline(keys.map((key) => ["exists", key]))
+    .exec();
+  const missing = keys.filter((_, i) => !exists?.[i]?.[1]);
+  if (missing.length === 0) return;
+
+  const values = await load(missing);
+  const pipeline = client.pipeline();
+  missing.forEach((key, i) => {
+    pipeline.set(key, values[i]!.toString(), "EX", ttlSeconds, "NX");
+  });
+  await pipeline.exec();
+}
+
 // Rate limiting using sliding window algorithm
 export function getRateLimitKey(
   identifier: string,
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+import { money } from "@/server/services/money";
+import {
+  calculateCommitmentShortfalls,
+  trueUpPeriods,
+} from "@/server/services/contracts";
+
+const db = vi.hoisted(() => ({
+  contracts: [] as Array<Record<string, unknown>>,
+  lineItems: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock("@/server/db/prisma", () => ({
+  prisma: {
+    contract: {
+      findMany: vi.fn(async ({ where }) =>
+        db.contracts.filter((contract) => contract.currency === where.currency),
+      ),
+    },
+    invoiceLineItem: {
+      findMany: vi.fn(async ({ where }) =>
+        where.eventType === "commitment_shortfall" ? [] : db.lineItems,
+      ),
+    },
+  },
+}));
+
+describe("trueUpPeriods", () => {
+  it("steps through month ends for a contract starting on the 31st", () => {
+    const periods = trueUpPeriods({
+      committedAmount: money(1200),
+      startDate: new Date("2026-01-31T00:00:00Z"),
+      endDate: new Date("2026-05-30T23:59:59.999Z"),
+      trueUpFrequency: "MONTHLY",
+    });
+
+    expect(periods.map((period) => period.start.toISOString())).toEqual([
+      "2026-01-31T00:00:00.000Z",
+      "2026-02-28T00:00:00.000Z",
+      "2026-03-31T00:00:00.000Z",
+      "2026-04-30T00:00:00.000Z",
+    ]);
+    expect(periods[0].end.toISOString()).toBe("2026-02-27T23:59:59.999Z");
+  });
+
+  it("shares the commitment so the periods add up exactly", () => {
+    const periods = trueUpPeriods({
+      committedAmount: money(1000),
+      startDate: new Date("2026-01-01T00:00:00Z"),
+      endDate: new Date("2026-12-31T23:59:59.999Z"),
+      trueUpFrequency: "QUARTERLY",
+    });
+
+    expect(periods.map((period) => period.committed.toFixed(2))).toEqual([
+      "250.00",
+      "250.00",
+      "250.00",
+      "250.00",
+    ]);
+  });
+});
+
+describe("calculateCommitmentShortfalls", () => {
+  const contract = {
+    id: "contract_1",
+    name: "Annual minimum",
+    committedAmount: money(1000),
+    currency: "USD",
+    startDate: new Date("2026-01-01T00:00:00Z"),
+    endDate: new Date("2026-01-31T23:59:59.999Z"),
+    trueUpFrequency: "END_OF_TERM",
+    cancelledAt: null,
+  };
+  const charge = (currency: string, amount: number) => ({
+    totalPrice: money(amount),
+    invoice: {
+      periodStart: new Date("2026-01-01T00:00:00Z"),
+      periodEnd: new Date("2026-01-15T23:59:59.999Z"),
+      currency,
+    },
+  });
+
+  it("only counts spend on invoices in the contract's currency", async () => {
+    db.contracts = [contract];
+    db.lineItems = [charge("USD", 300), charge("EUR", 500)];
+
+    const shortfalls = await calculateCommitmentShortfalls({
+      tenantId: "tenant_1",
+      periodStart: new Date("2026-01-16T00:00:00Z"),
+      periodEnd: new Date("2026-01-31T23:59:59.999Z"),
+      currency: "USD",
+      usageTotal: money(200),
+    });
+
+    expect(shortfalls).toHaveLength(1);
+    expect(shortfalls[0].spend.toFixed(2)).toBe("500.00");
+    expect(shortfalls[0].shortfall.toFixed(2)).toBe("500.00");
+  });
+
+  it("does not true up contracts in another currency", async () => {
+    db.contracts = [contract];
+    db.lineItems = [];
+
+    const shortfalls = await calculateCommitmentShortfalls({
+      tenantId: "tenant_1",
+      periodStart: new Date("2026-01-16T00:00:00Z"),
+      periodEnd: new Date("2026-01-31T23:59:59.999Z"),
+      currency: "EUR",
+      usageTotal: money(0),
+    });
+
+    expect(shortfalls).toEqual([]);
+  });
+
+  it("only counts the part of a straddling invoice within the true-up", async () => {
+    db.contracts = [
+      {
+        ...contract,
+        committedAmount: money(3000),
+        endDate: new Date("2026-03-31T23:59:59.999Z"),
+        trueUpFrequency: "MONTHLY",
+      },
+    ];
+    db.lineItems = [charge("USD", 300)];
+
+    // 16 of the invoice's 31 days fall in January
+    const shortfalls = await calculateCommitmentShortfalls({
+      tenantId: "tenant_1",
+      periodStart: new Date("2026-01-16T00:00:00Z"),
+      periodEnd: new Date("2026-02-15T23:59:59.999Z"),
+      currency: "USD",
+      usageTotal: money(620),
+    });
+
+    expect(shortfalls).toHaveLength(1);
+    expect(shortfalls[0].periodEnd.toISOString()).toBe(
+      "2026-01-31T23:59:59.999Z",
+    );
+    expect(shortfalls[0].spend.toFixed(2)).toBe("620.00");
+    expect(shortfalls[0].shortfall.toFixed(2)).toBe("380.00");
+  });
+});
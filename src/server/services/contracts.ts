@@ -0,0 +1,399 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { type TrueUpFrequency } from "@prisma/client";
+import { prisma } from "@/server/db/prisma";
+import { money, roundMoney, sumMoney } from "@/server/services/money";
+import { CREDIT_EVENT_TYPE } from "@/server/services/credits";
+
+// Event type of the line items that bill a shortfall. Neither these nor
+// credit lines count as spend towards a commitment.
+export const SHORTFALL_EVENT_TYPE = "commitment_shortfall";
+
+const TRUE_UP_MONTHS: Record<
+  Exclude<TrueUpFrequency, "END_OF_TERM">,
+  number
+> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+};
+
+type ContractTerms = {
+  committedAmount: Decimal;
+  startDate: Date;
+  endDate: Date;
+  trueUpFrequency: TrueUpFrequency;
+};
+
+export type TrueUpPeriod = {
+  start: Date;
+  end: Date;
+  committed: Decimal;
+};
+
+// Stored on shortfall line items to tie them back to the true-up they settle
+export type ShortfallLineMetadata = {
+  reason: string;
+  commitment: {
+    contractId: string;
+    periodStart: string;
+    periodEnd: string;
+    committed: string;
+    spend: string;
+  };
+};
+
+export type CommitmentShortfall = {
+  contractId: string;
+  contractName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  committed: Decimal;
+  spend: Decimal;
+  shortfall: Decimal;
+};
+
+type UsageCharge = {
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  amount: Decimal;
+};
+
+// Same day of the month, clamped to the target month's last day so a
+// contract starting on the 31st steps through month ends
+function addMonths(date: Date, months: number) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(date.getUTCDate(), lastDay),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds(),
+    ),
+  );
+}
+
+/**
+ * Split a contract term into its true-up periods
+ *
+ * Periods run from the start date in steps of the true-up frequency, the
+ * last one clipped to the end date. The commitment is shared evenly, with
+ * the rounding remainder on the last period so the shares add up exactly.
+ */
+export function trueUpPeriods(contract: ContractTerms): TrueUpPeriod[] {
+  const bounds: Array<{ start: Date; end: Date }> = [];
+
+  if (contract.trueUpFrequency === "END_OF_TERM") {
+    bounds.push({ start: contract.startDate, end: contract.endDate });
+  } else {
+    const months = TRUE_UP_MONTHS[contract.trueUpFrequency];
+    let start = contract.startDate;
+    for (let index = 1; start <= contract.endDate; index++) {
+      const next = addMonths(contract.startDate, index * months);
+      bounds.push({
+        start,
+        end: new Date(Math.min(next.getTime() - 1, contract.endDate.getTime())),
+      });
+      start = next;
+    }
+  }
+
+  const committed = money(contract.committedAmount);
+  const share = committed
+    .dividedBy(bounds.length)
+    .toDecimalPlaces(2, Decimal.ROUND_DOWN);
+
+  return bounds.map((period, index) => ({
+    ...period,
+    committed:
+      index === bounds.length - 1
+        ? committed.minus(share.times(bounds.length - 1))
+        : share,
+  }));
+}
+
+// Usage charges billed to a tenant on live invoices overlapping a date range
+async function loadUsageCharges(
+  tenantId: string,
+  start: Date,
+  end: Date,
+): Promise<UsageCharge[]> {
+  const lineItems = await prisma.invoiceLineItem.findMany({
+    where: {
+      eventType: { notIn: [CREDIT_EVENT_TYPE, SHORTFALL_EVENT_TYPE] },
+      invoice: {
+        tenantId,
+        type: "INVOICE",
+        status: { not: "CANCELLED" },
+        periodStart: { lte: end },
+        periodEnd: { gte: start },
+      },
+    },
+    select: {
+      totalPrice: true,
+      invoice: {
+        select: { periodStart: true, periodEnd: true, currency: true },
+      },
+    },
+  });
+
+  return lineItems.map((item) => ({
+    periodStart: item.invoice.periodStart,
+    periodEnd: item.invoice.periodEnd,
+    currency: item.invoice.currency,
+    amount: money(item.totalPrice),
+  }));
+}
+
+// Share of a charge's invoice period, ends inclusive, that falls within a
+// range
+function overlapShare(charge: UsageCharge, start: Date, end: Date) {
+  const overlap =
+    Math.min(charge.periodEnd.getTime(), end.getTime()) -
+    Math.max(charge.periodStart.getTime(), start.getTime()) +
+    1;
+  const length = charge.periodEnd.getTime() - charge.periodStart.getTime() + 1;
+  return Math.min(Math.max(overlap / length, 0), 1);
+}
+
+// Spend counts towards a commitment only on invoices in its currency, and
+// only for the part of their period within the range: an invoice straddling
+// a boundary counts in proportion to its time on each side
+function spendWithin(
+  charges: UsageCharge[],
+  currency: string,
+  start: Date,
+  end: Date,
+) {
+  return roundMoney(
+    sumMoney(
+      charges
+        .filter((charge) => charge.currency === currency)
+        .map((charge) => {
+          const share = overlapShare(charge, start, end);
+          return share === 1 ? charge.amount : charge.amount.times(share);
+        }),
+    ),
+    "HALF_UP",
+  );
+}
+
+// Shortfalls already billed on live invoices, keyed by contract and period end
+async function loadBilledShortfalls(tenantId: string) {
+  const lineItems = await prisma.invoiceLineItem.findMany({
+    where: {
+      eventType: SHORTFALL_EVENT_TYPE,
+      invoice: { tenantId, status: { not: "CANCELLED" } },
+    },
+    select: { totalPrice: true, metadata: true },
+  });
+
+  const billed = new Map<string, Decimal>();
+  for (const item of lineItems) {
+    const metadata = item.metadata as ShortfallLineMetadata | null;
+    if (!metadata?.commitment) continue;
+    const key = `${metadata.commitment.contractId}:${metadata.commitment.periodEnd}`;
+    billed.set(key, (billed.get(key) ?? money(0)).plus(item.totalPrice));
+  }
+  return billed;
+}
+
+/**
+ * Work out the commitment shortfalls due on an invoice
+ *
+ * A true-up is due on the invoice whose period contains the end of a
+ * true-up period. Spend is the usage charged within the true-up period on
+ * the tenant's other live invoices and in `usageTotal`, the usage on the
+ * invoice being generated; invoices straddling the period's bounds count in
+ * part. A true-up already billed on a live invoice is not billed again, so
+ * regenerating after a void is safe.
+ *
+ * Only contracts in the invoice's `currency` are trued up on it.
+ */
+export async function calculateCommitmentShortfalls(options: {
+  tenantId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  usageTotal: Decimal.Value;
+}): Promise<CommitmentShortfall[]> {
+  const contracts = await prisma.contract.findMany({
+    where: {
+      tenantId: options.tenantId,
+      currency: options.currency,
+      startDate: { lte: options.periodEnd },
+      endDate: { gte: options.periodStart },
+    },
+    orderBy: { startDate: "asc" },
+  });
+  if (contracts.length === 0) return [];
+
+  const [otherCharges, billed] = await Promise.all([
+    loadUsageCharges(
+      options.tenantId,
+      contracts[0].startDate,
+      options.periodEnd,
+    ),
+    loadBilledShortfalls(options.tenantId),
+  ]);
+  const charges = [
+    ...otherCharges,
+    {
+      periodStart: options.periodStart,
+      periodEnd: options.periodEnd,
+      currency: options.currency,
+      amount: money(options.usageTotal),
+    },
+  ];
+
+  const shortfalls: CommitmentShortfall[] = [];
+
+  for (const contract of contracts) {
+    for (const period of trueUpPeriods(contract)) {
+      if (period.end < options.periodStart || period.end > options.periodEnd) {
+        continue;
+      }
+      // A cancelled contract is not trued up for periods it did not finish
+      if (contract.cancelledAt && contract.cancelledAt < period.end) continue;
+      if (billed.has(`${contract.id}:${period.end.toISOString()}`)) continue;
+
+      const spend = spendWithin(
+        charges,
+        contract.currency,
+        period.start,
+        period.end,
+      );
+      const shortfall = period.committed.minus(spend);
+
+      if (shortfall.gt(0)) {
+        shortfalls.push({
+          contractId: contract.id,
+          contractName: contract.name,
+          periodStart: period.start,
+          periodEnd: period.end,
+          committed: period.committed,
+          spend,
+          shortfall,
+        });
+      }
+    }
+  }
+
+  return shortfalls;
+}
+
+/**
+ * Burn-down of each contract against its commitment
+ *
+ * Spend counts usage charges on live invoices in the contract's currency
+ * within the term; shortfalls billed are reported separately. The
+ * projection extrapolates spend so far linearly over the elapsed share of
+ * the term.
+ */
+export async function getCommitmentBurnDown(options: {
+  organizationId: string;
+  tenantId?: string;
+  includeCancelled?: boolean;
+  at?: Date;
+}) {
+  const at = options.at ?? new Date();
+
+  const contracts = await prisma.contract.findMany({
+    where: {
+      organizationId: options.organizationId,
+      ...(options.tenantId ? { tenantId: options.tenantId } : {}),
+      ...(options.includeCancelled ? {} : { cancelledAt: null }),
+    },
+    include: { tenant: { select: { externalId: true, name: true } } },
+    orderBy: [{ tenantId: "asc" }, { startDate: "asc" }],
+  });
+
+  const chargesByTenant = new Map<string, UsageCharge[]>();
+  const billedByTenant = new Map<string, Map<string, Decimal>>();
+  for (const tenantId of new Set(contracts.map((c) => c.tenantId))) {
+    const tenantContracts = contracts.filter((c) => c.tenantId === tenantId);
+    const [charges, billed] = await Promise.all([
+      loadUsageCharges(
+        tenantId,
+        new Date(
+          Math.min(...tenantContracts.map((c) => c.startDate.getTime())),
+        ),
+        new Date(Math.max(...tenantContracts.map((c) => c.endDate.getTime()))),
+      ),
+      loadBilledShortfalls(tenantId),
+    ]);
+    chargesByTenant.set(tenantId, charges);
+    billedByTenant.set(tenantId, billed);
+  }
+
+  return contracts.map((contract) => {
+    const charges = chargesByTenant.get(contract.tenantId)!;
+    const billed = billedByTenant.get(contract.tenantId)!;
+    const committed = money(contract.committedAmount);
+    const spend = spendWithin(
+      charges,
+      contract.currency,
+      contract.startDate,
+      contract.endDate,
+    );
+
+    const termMs = contract.endDate.getTime() - contract.startDate.getTime();
+    const elapsedMs = Math.min(
+      Math.max(at.getTime() - contract.startDate.getTime(), 0),
+      termMs,
+    );
+    const elapsed = termMs > 0 ? elapsedMs / termMs : 1;
+
+    const periods = trueUpPeriods(contract).map((period) => {
+      const periodSpend = spendWithin(
+        charges,
+        contract.currency,
+        period.start,
+        period.end,
+      );
+      return {
+        start: period.start,
+        end: period.end,
+        committed: period.committed.toNumber(),
+        spend: periodSpend.toNumber(),
+        shortfallBilled: (
+          billed.get(`${contract.id}:${period.end.toISOString()}`) ?? money(0)
+        ).toNumber(),
+        status:
+          period.end < at ? "CLOSED" : period.start <= at ? "OPEN" : "UPCOMING",
+      };
+    });
+
+    return {
+      contractId: contract.id,
+      name: contract.name,
+      tenantId: contract.tenantId,
+      tenantExternalId: contract.tenant.externalId,
+      tenantName: contract.tenant.name,
+      startDate: contract.startDate,
+      endDate: contract.endDate,
+      trueUpFrequency: contract.trueUpFrequency,
+      cancelledAt: contract.cancelledAt,
+      currency: contract.currency,
+      committed: committed.toNumber(),
+      spend: spend.toNumber(),
+      remaining: Decimal.max(committed.minus(spend), 0).toNumber(),
+      consumedPercent: committed.gt(0)
+        ? spend.dividedBy(committed).times(100).toDecimalPlaces(2).toNumber()
+        : null,
+      elapsedPercent: Math.round(elapsed * 10000) / 100,
+      projectedSpend:
+        elapsed > 0
+          ? spend.dividedBy(elapsed).toDecimalPlaces(2).toNumber()
+          : null,
+      shortfallBilled: sumMoney(
+        periods.map((period) => period.shortfallBilled),
+      ).toNumber(),
+      periods,
+    };
+  });
+}
@@ -0,0 +1,282 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { type CreditGrantType } from "@prisma/client";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import { resolveTenantCurrency } from "@/server/services/currency";
+import { money, sumMoney } from "@/server/services/money";
+
+// Event type of the negative line items that draw credit down
+export const CREDIT_EVENT_TYPE = "credit";
+
+export type DrawableCreditGrant = {
+  id: string;
+  type: CreditGrantType;
+  currency: string;
+  description: string | null;
+  remainingAmount: Decimal;
+  priority: number;
+  eventTypes: string[];
+  expiresAt: Date | null;
+  createdAt: Date;
+};
+
+// Credit taken from one grant to cover one invoice line
+export type CreditApplication = {
+  grantId: string;
+  eventType: string;
+  amount: Decimal;
+};
+
+/**
+ * Grants a tenant can draw on at a point in time: started, not expired, not
+ * voided and with credit left. Credit is only drawn in its own currency, so
+ * grants made before a tenant changed currency wait until it changes back.
+ */
+function drawableGrantsWhere(at: Date, currency?: string) {
+  return {
+    ...(currency ? { currency } : {}),
+    voidedAt: null,
+    effectiveFrom: { lte: at },
+    remainingAmount: { gt: 0 },
+    OR: [{ expiresAt: null }, { expiresAt: { gt: at } }],
+  };
+}
+
+// Highest priority first, then the grant that expires soonest, then oldest
+function compareGrants(a: DrawableCreditGrant, b: DrawableCreditGrant) {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  if (a.expiresAt?.getTime() !== b.expiresAt?.getTime()) {
+    if (!a.expiresAt) return 1;
+    if (!b.expiresAt) return -1;
+    return a.expiresAt.getTime() - b.expiresAt.getTime();
+  }
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+/**
+ * Decide how much of each grant covers each invoice line
+ *
+ * Lines are covered in order by the grants that apply to their event type,
+ * in grant order (see compareGrants), until either runs out. Amounts are in
+ * currency precision already, so the applications are too.
+ */
+export function planCreditDrawdown(
+  grants: DrawableCreditGrant[],
+  lines: Array<{ eventType: string; amount: Decimal.Value }>,
+): CreditApplication[] {
+  const ordered = [...grants].sort(compareGrants);
+  const remaining = new Map(
+    ordered.map((grant) => [grant.id, money(grant.remainingAmount)]),
+  );
+  const applications: CreditApplication[] = [];
+
+  for (const line of lines) {
+    let uncovered = money(line.amount);
+
+    for (const grant of ordered) {
+      if (uncovered.lte(0)) break;
+      if (
+        grant.eventTypes.length > 0 &&
+        !grant.eventTypes.includes(line.eventType)
+      ) {
+        continue;
+      }
+
+      const available = remaining.get(grant.id)!;
+      const amount = Decimal.min(available, uncovered);
+      if (amount.lte(0)) continue;
+
+      remaining.set(grant.id, available.minus(amount));
+      uncovered = uncovered.minus(amount);
+      applications.push({
+        grantId: grant.id,
+        eventType: line.eventType,
+        amount: money(amount),
+      });
+    }
+  }
+
+  return applications;
+}
+
+/**
+ * Lock and load the grants a tenant can draw on for an invoice in `currency`
+ *
+ * Must be called inside the transaction that records the drawdown: the row
+ * locks make concurrent invoice runs for the same tenant queue instead of
+ * spending the same credit twice.
+ */
+export async function lockDrawableGrants(
+  tx: TransactionClient,
+  tenantId: string,
+  currency: string,
+  at: Date = new Date(),
+): Promise<DrawableCreditGrant[]> {
+  await tx.$queryRaw`
+    SELECT id FROM credit_grants
+    WHERE "tenantId" = ${tenantId} AND "voidedAt" IS NULL
+    FOR UPDATE
+  `;
+
+  return tx.creditGrant.findMany({
+    where: { tenantId, ...drawableGrantsWhere(at, currency) },
+    orderBy: [
+      { priority: "desc" },
+      { expiresAt: { sort: "asc", nulls: "last" } },
+      { createdAt: "asc" },
+    ],
+    select: {
+      id: true,
+      type: true,
+      currency: true,
+      description: true,
+      remainingAmount: true,
+      priority: true,
+      eventTypes: true,
+      expiresAt: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Write planned credit applications to the ledger against an invoice
+ */
+export async function recordCreditDrawdown(
+  tx: TransactionClient,
+  options: {
+    organizationId: string;
+    tenantId: string;
+    invoiceId: string;
+    applications: CreditApplication[];
+  },
+) {
+  const byGrant = new Map<string, Decimal>();
+  for (const application of options.applications) {
+    byGrant.set(
+      application.grantId,
+      (byGrant.get(application.grantId) ?? money(0)).plus(application.amount),
+    );
+  }
+
+  for (const [grantId, amount] of byGrant) {
+    await tx.creditGrant.update({
+      where: { id: grantId },
+      data: { remainingAmount: { decrement: amount } },
+    });
+    await tx.creditLedgerEntry.create({
+      data: {
+        organizationId: options.organizationId,
+        tenantId: options.tenantId,
+        grantId,
+        invoiceId: options.invoiceId,
+        type: "DRAWDOWN",
+        amount: amount.negated(),
+      },
+    });
+  }
+}
+
+/**
+ * Return the credit an invoice drew down to its grants
+ *
+ * Used when an invoice is voided. Credit is returned even if the grant has
+ * since expired; it simply can no longer be drawn.
+ */
+export async function reverseCreditDrawdown(
+  tx: TransactionClient,
+  invoiceId: string,
+) {
+  const entries = await tx.creditLedgerEntry.findMany({
+    where: { invoiceId, type: { in: ["DRAWDOWN", "REVERSAL"] } },
+  });
+
+  // Net per grant, so voiding twice never returns credit twice
+  const netByGrant = new Map<string, Decimal>();
+  for (const entry of entries) {
+    netByGrant.set(
+      entry.grantId,
+      (netByGrant.get(entry.grantId) ?? money(0)).plus(entry.amount),
+    );
+  }
+
+  let reversed = money(0);
+  for (const [grantId, net] of netByGrant) {
+    if (net.gte(0)) continue;
+    const amount = net.negated();
+
+    await tx.creditGrant.update({
+      where: { id: grantId },
+      data: { remainingAmount: { increment: amount } },
+    });
+    await tx.creditLedgerEntry.create({
+      data: {
+        organizationId: entries[0].organizationId,
+        tenantId: entries[0].tenantId,
+        grantId,
+        invoiceId,
+        type: "REVERSAL",
+        amount,
+      },
+    });
+    reversed = reversed.plus(amount);
+  }
+
+  return reversed;
+}
+
+/**
+ * A tenant's drawable credit in its billing currency, in total and per grant
+ * in drawdown order
+ */
+export async function getCreditBalance(tenantId: string, at = new Date()) {
+  const currency = await resolveTenantCurrency(tenantId);
+  const grants = await prisma.creditGrant.findMany({
+    where: { tenantId, ...drawableGrantsWhere(at, currency) },
+  });
+
+  return {
+    currency,
+    total: sumMoney(grants.map((grant) => grant.remainingAmount)),
+    grants: grants.sort(compareGrants),
+  };
+}
+
+/**
+ * Drawable credit for several tenants at once, each in its billing currency,
+ * keyed by tenant id
+ */
+export async function getCreditBalances(tenantIds: string[], at = new Date()) {
+  const [tenants, balances] = await Promise.all([
+    prisma.tenant.findMany({
+      where: { id: { in: tenantIds } },
+      select: {
+        id: true,
+        currency: true,
+        organization: { select: { currency: true } },
+      },
+    }),
+    prisma.creditGrant.groupBy({
+      by: ["tenantId", "currency"],
+      where: { tenantId: { in: tenantIds }, ...drawableGrantsWhere(at) },
+      _sum: { remainingAmount: true },
+    }),
+  ]);
+
+  const currencies = new Map(
+    tenants.map((tenant) => [
+      tenant.id,
+      tenant.currency ?? tenant.organization.currency,
+    ]),
+  );
+
+  return new Map(
+    balances
+      .filter(
+        (balance) => balance.currency === currencies.get(balance.tenantId),
+      )
+      .map((balance) => [
+        balance.tenantId,
+        money(balance._sum.remainingAmount),
+      ]),
+  );
+}
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import { money } from "@/server/services/money";
+
+export const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be an ISO 4217 code")
+  .transform((value) => value.toUpperCase());
+
+export class ExchangeRateNotFoundError extends Error {
+  constructor(
+    public readonly fromCurrency: string,
+    public readonly toCurrency: string,
+    public readonly at: Date,
+  ) {
+    super(
+      `No exchange rate from ${fromCurrency} to ${toCurrency} in force on ${at.toISOString().slice(0, 10)}`,
+    );
+    this.name = "ExchangeRateNotFoundError";
+  }
+}
+
+/**
+ * The currency a tenant is invoiced in: its own, else its organization's
+ */
+export async function resolveTenantCurrency(
+  tenantId: string,
+  db: TransactionClient = prisma,
+): Promise<string> {
+  const tenant = await db.tenant.findUniqueOrThrow({
+    where: { id: tenantId },
+    select: { currency: true, organization: { select: { currency: true } } },
+  });
+  return tenant.currency ?? tenant.organization.currency;
+}
+
+/**
+ * Resolve the rate converting one currency into another at a point in time
+ *
+ * Uses the latest rate for the pair that took effect on or before `at`, or
+ * the inverse of the latest rate for the reverse pair when only that one is
+ * configured. Between the two, the more recent rate wins.
+ */
+export async function resolveExchangeRate(
+  options: {
+    organizationId: string;
+    fromCurrency: string;
+    toCurrency: string;
+    at: Date;
+  },
+  db: TransactionClient = prisma,
+): Promise<Decimal> {
+  const { organizationId, fromCurrency, toCurrency, at } = options;
+  if (fromCurrency === toCurrency) return money(1);
+
+  const [direct, inverse] = await Promise.all(
+    [
+      [fromCurrency, toCurrency],
+      [toCurrency, fromCurrency],
+    ].map(([from, to]) =>
+      db.exchangeRate.findFirst({
+        where: {
+          organizationId,
+          fromCurrency: from,
+          toCurrency: to,
+          effectiveFrom: { lte: at },
+        },
+        orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+      }),
+    ),
+  );
+
+  if (direct && (!inverse || direct.effectiveFrom >= inverse.effectiveFrom)) {
+    return money(direct.rate);
+  }
+  if (inverse) {
+    return money(1).dividedBy(inverse.rate);
+  }
+
+  throw new ExchangeRateNotFoundError(fromCurrency, toCurrency, at);
+}
+
+/**
+ * Convert an invoice amount into the organization's currency at the rate
+ * stored on the invoice. The result is exact; round sums, not terms.
+ */
+export function toBaseCurrency(
+  amount: Decimal.Value,
+  exchangeRate: Decimal.Value,
+): Decimal {
+  return money(amount).times(exchangeRate);
+}
@@ -0,0 +1,222 @@
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import {
+  InvoiceLifecycleError,
+  transitionInvoice,
+} from "@/server/services/invoiceLifecycle";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const dunningStepsSchema = z
+  .array(
+    z.object({
+      afterDays: z.number().int().min(0).max(365),
+      action: z.enum(["REMINDER", "SUSPEND_TENANT"]),
+    }),
+  )
+  .max(10);
+
+export type DunningStep = z.infer<typeof dunningStepsSchema>[number];
+
+// Used for organizations without a DunningPolicy row
+export const DEFAULT_DUNNING_STEPS: DunningStep[] = [
+  { afterDays: 3, action: "REMINDER" },
+  { afterDays: 7, action: "REMINDER" },
+  { afterDays: 14, action: "SUSPEND_TENANT" },
+];
+
+/**
+ * Resolve the dunning steps for an organization's stored policy
+ */
+export function resolveDunningSteps(
+  policy: { enabled: boolean; steps: Prisma.JsonValue } | null,
+): DunningStep[] {
+  if (!policy) return DEFAULT_DUNNING_STEPS;
+  if (!policy.enabled) return [];
+
+  const parsed = dunningStepsSchema.safeParse(policy.steps);
+  if (!parsed.success) {
+    console.error("Invalid dunning policy steps, using defaults");
+    return DEFAULT_DUNNING_STEPS;
+  }
+  return [...parsed.data].sort((a, b) => a.afterDays - b.afterDays);
+}
+
+/**
+ * Move PENDING invoices past their due date to OVERDUE
+ *
+ * Safe to re-run: invoices already moved are no longer PENDING, and a
+ * concurrent run losing the conditional update is counted as skipped.
+ */
+export async function markOverdueInvoices(options: {
+  now: Date;
+  organizationId?: string;
+}) {
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      status: "PENDING",
+      type: "INVOICE",
+      dueDate: { lt: options.now },
+      ...(options.organizationId
+        ? { organizationId: options.organizationId }
+        : {}),
+    },
+    select: { id: true, organizationId: true },
+  });
+
+  let marked = 0;
+  let skipped = 0;
+
+  for (const invoice of invoices) {
+    try {
+      await transitionInvoice({
+        invoiceId: invoice.id,
+        organizationId: invoice.organizationId,
+        to: "OVERDUE",
+        action: "INVOICE_OVERDUE",
+        changes: { detectedAt: options.now.toISOString() },
+      });
+      marked++;
+    } catch (error) {
+      if (!(error instanceof InvoiceLifecycleError)) throw error;
+      skipped++;
+    }
+  }
+
+  return { found: invoices.length, marked, skipped };
+}
+
+/**
+ * Execute one dunning step for an invoice, at most once
+ *
+ * Returns false when the step was already executed or the invoice is no
+ * longer overdue. Reminders are recorded in the audit log for the
+ * notification integration to deliver.
+ */
+async function executeDunningStep(
+  invoice: { id: string; tenantId: string; organizationId: string },
+  step: DunningStep,
+  daysOverdue: number,
+): Promise<boolean> {
+  try {
+    return await prisma.$transaction(async (tx: TransactionClient) => {
+      const current = await tx.invoice.findUnique({
+        where: { id: invoice.id },
+        select: { status: true, invoiceNumber: true },
+      });
+
+      if (current?.status !== "OVERDUE") return false;
+
+      await tx.invoiceDunningStep.create({
+        data: {
+          invoiceId: invoice.id,
+          afterDays: step.afterDays,
+          action: step.action,
+        },
+      });
+
+      if (step.action === "SUSPEND_TENANT") {
+        await tx.tenant.updateMany({
+          where: { id: invoice.tenantId, status: "ACTIVE" },
+          data: { status: "SUSPENDED" },
+        });
+      }
+
+      await tx.auditLog.create({
+        data: {
+          organizationId: invoice.organizationId,
+          tenantId: invoice.tenantId,
+          action:
+            step.action === "REMINDER"
+              ? "INVOICE_DUNNING_REMINDER"
+              : "TENANT_SUSPENDED_FOR_NONPAYMENT",
+          resourceType: "invoice",
+          resourceId: invoice.id,
+          changes: {
+            invoiceNumber: current.invoiceNumber,
+            afterDays: step.afterDays,
+            daysOverdue,
+          },
+        },
+      });
+
+      return true;
+    });
+  } catch (error) {
+    // Unique violation: another run already executed this step
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run due dunning steps for all OVERDUE invoices
+ */
+export async function runDunning(options: {
+  now: Date;
+  organizationId?: string;
+}) {
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      status: "OVERDUE",
+      type: "INVOICE",
+      ...(options.organizationId
+        ? { organizationId: options.organizationId }
+        : {}),
+    },
+    select: {
+      id: true,
+      tenantId: true,
+      organizationId: true,
+      dueDate: true,
+      dunningSteps: { select: { afterDays: true, action: true } },
+      organization: {
+        select: { dunningPolicy: { select: { enabled: true, steps: true } } },
+      },
+    },
+  });
+
+  let reminders = 0;
+  let suspensions = 0;
+  const errors: { invoiceId: string; error: string }[] = [];
+
+  for (const invoice of invoices) {
+    const steps = resolveDunningSteps(invoice.organization.dunningPolicy);
+    const daysOverdue = Math.floor(
+      (options.now.getTime() - invoice.dueDate.getTime()) / DAY_MS,
+    );
+
+    const dueSteps = steps.filter(
+      (step) =>
+        step.afterDays <= daysOverdue &&
+        !invoice.dunningSteps.some(
+          (done) =>
+            done.afterDays === step.afterDays && done.action === step.action,
+        ),
+    );
+
+    for (const step of dueSteps) {
+      try {
+        const executed = await executeDunningStep(invoice, step, daysOverdue);
+        if (!executed) continue;
+        if (step.action === "REMINDER") reminders++;
+        else suspensions++;
+      } catch (error) {
+        console.error(`Dunning step failed for invoice ${invoice.id}:`, error);
+        errors.push({
+          invoiceId: invoice.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        break;
+      }
+    }
+  }
+
+  return { overdueInvoices: invoices.length, reminders, suspensions, errors };
+}
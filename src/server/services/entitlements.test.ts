@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  EntitlementError,
+  invalidateEntitlements,
+  requireEntitlement,
+  requireWithinLimit,
+} from "@/server/services/entitlements";
+
+const db = vi.hoisted(() => ({
+  plan: null as Record<string, unknown> | null,
+  overrides: [] as Array<Record<string, unknown>>,
+}));
+
+const getEffectivePlan = vi.hoisted(() => vi.fn(async () => db.plan));
+
+vi.mock("@/server/services/planChanges", () => ({ getEffectivePlan }));
+
+vi.mock("@/server/db/prisma", () => ({
+  prisma: {
+    entitlementOverride: { findMany: vi.fn(async () => db.overrides) },
+    subscriptionPlan: { findMany: vi.fn(async () => []) },
+  },
+}));
+
+describe("requireEntitlement", () => {
+  beforeEach(() => {
+    db.plan = null;
+    db.overrides = [];
+    getEffectivePlan.mockClear();
+    vi.useRealTimers();
+  });
+
+  it("allows API access to an organization without a subscription", async () => {
+    await expect(
+      requireEntitlement("org_none", "apiAccess"),
+    ).resolves.toMatchObject({
+      plan: null,
+      features: { apiAccess: { value: true, source: "DEFAULT" } },
+    });
+  });
+
+  it("denies API access when the plan turns it off", async () => {
+    db.plan = { id: "plan_1", name: "Free", features: { apiAccess: false } };
+
+    await expect(
+      requireEntitlement("org_free", "apiAccess"),
+    ).rejects.toBeInstanceOf(EntitlementError);
+  });
+
+  it("resolves an organization's entitlements once per minute", async () => {
+    vi.useFakeTimers();
+
+    await requireEntitlement("org_cached", "apiAccess");
+    await requireEntitlement("org_cached", "apiAccess");
+    expect(getEffectivePlan).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(61 * 1000);
+    await requireEntitlement("org_cached", "apiAccess");
+    expect(getEffectivePlan).toHaveBeenCalledTimes(2);
+  });
+
+  it("resolves again after the organization's entry is invalidated", async () => {
+    await requireEntitlement("org_changed", "apiAccess");
+    db.overrides = [{ feature: "apiAccess", value: false }];
+    invalidateEntitlements("org_changed");
+
+    await expect(
+      requireEntitlement("org_changed", "apiAccess"),
+    ).rejects.toBeInstanceOf(EntitlementError);
+  });
+
+  it("leaves limits a plan does not set unrestricted", async () => {
+    db.plan = { id: "plan_old", name: "Growth", features: { apiAccess: true } };
+
+    await expect(
+      requireWithinLimit("org_old_plan", "maxApiKeys", 50),
+    ).resolves.toMatchObject({
+      features: { maxApiKeys: { value: -1, source: "DEFAULT" } },
+    });
+    await expect(
+      requireWithinLimit("org_old_plan", "teamMembers", 10),
+    ).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,404 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/server/db/prisma";
+import { getEffectivePlan } from "@/server/services/planChanges";
+
+type FeatureDefinition =
+  | { type: "boolean"; description: string; default: boolean }
+  // -1 means unlimited, as in plan features
+  | { type: "limit"; description: string; default: number }
+  | {
+      type: "tier";
+      description: string;
+      tiers: readonly string[]; // Lowest first
+      default: string;
+    };
+
+// Checks resolve entitlements at most this often per organization
+const ENTITLEMENT_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Every feature a plan can grant. Keys match SubscriptionPlan.features;
+ * keys a plan sets that are not listed here are ignored, and features a plan
+ * does not set fall back to the default. Limits default to unlimited, so
+ * plans created before a limit existed, and organizations without a plan,
+ * are not restricted by it.
+ */
+export const FEATURE_CATALOGUE = {
+  // Event ingestion is not gated, so usage is always recorded for billing
+  apiAccess: {
+    type: "boolean",
+    description: "Read and manage data through the /api/v1 endpoints",
+    default: true,
+  },
+  maxApiKeys: {
+    type: "limit",
+    description: "Active API keys",
+    default: -1,
+  },
+  teamMembers: {
+    type: "limit",
+    description: "Team members, including pending invitations",
+    default: -1,
+  },
+  dataRetentionDays: {
+    type: "limit",
+    description: "Days of usage history that can be queried",
+    default: -1,
+  },
+  analytics: {
+    type: "tier",
+    description: "Analytics level",
+    tiers: ["basic", "advanced", "enterprise"],
+    default: "basic",
+  },
+  support: {
+    type: "tier",
+    description: "Support level",
+    tiers: ["email", "priority", "dedicated"],
+    default: "email",
+  },
+  customEventTypes: {
+    type: "boolean",
+    description: "Define custom event types",
+    default: false,
+  },
+  webhookIntegrations: {
+    type: "boolean",
+    description: "Webhook integrations",
+    default: false,
+  },
+  slaGuarantee: {
+    type: "boolean",
+    description: "Uptime SLA",
+    default: false,
+  },
+  customContracts: {
+    type: "boolean",
+    description: "Negotiated contracts",
+    default: false,
+  },
+} as const satisfies Record<string, FeatureDefinition>;
+
+export type Feature = keyof typeof FEATURE_CATALOGUE;
+
+export type LimitFeature = {
+  [K in Feature]: (typeof FEATURE_CATALOGUE)[K]["type"] extends "limit"
+    ? K
+    : never;
+}[Feature];
+
+export type EntitlementSource = "DEFAULT" | "PLAN" | "OVERRIDE";
+
+export type Entitlement = {
+  feature: Feature;
+  type: FeatureDefinition["type"];
+  value: boolean | number | string;
+  source: EntitlementSource;
+};
+
+export type Entitlements = {
+  plan: { id: string; name: string } | null;
+  features: Record<Feature, Entitlement>;
+};
+
+export function isFeature(feature: string): feature is Feature {
+  return Object.prototype.hasOwnProperty.call(FEATURE_CATALOGUE, feature);
+}
+
+/**
+ * The value a plan or override sets for a feature, or undefined when it is
+ * not valid for the feature's type
+ */
+export function parseFeatureValue(
+  feature: Feature,
+  value: unknown,
+): boolean | number | string | undefined {
+  const definition: FeatureDefinition = FEATURE_CATALOGUE[feature];
+
+  switch (definition.type) {
+    case "boolean":
+      return typeof value === "boolean" ? value : undefined;
+    case "limit":
+      return typeof value === "number" && Number.isInteger(value) && value >= -1
+        ? value
+        : undefined;
+    case "tier":
+      return typeof value === "string" && definition.tiers.includes(value)
+        ? value
+        : undefined;
+  }
+}
+
+// Features a plan grants, keyed by feature; invalid values are dropped
+export function planGrants(features: Prisma.JsonValue) {
+  const grants = new Map<Feature, boolean | number | string>();
+  if (!features || typeof features !== "object" || Array.isArray(features)) {
+    return grants;
+  }
+
+  for (const [feature, raw] of Object.entries(features)) {
+    if (!isFeature(feature)) continue;
+    const value = parseFeatureValue(feature, raw);
+    if (value !== undefined) grants.set(feature, value);
+  }
+  return grants;
+}
+
+/**
+ * Resolve every catalogue feature for an organization at `at`
+ *
+ * Unexpired overrides win over the effective plan's grants, which win over
+ * catalogue defaults. Organizations without a live subscription get the
+ * defaults.
+ */
+export async function getEntitlements(
+  organizationId: string,
+  at = new Date(),
+): Promise<Entitlements> {
+  const [plan, overrides] = await Promise.all([
+    getEffectivePlan(organizationId, at),
+    prisma.entitlementOverride.findMany({
+      where: {
+        organizationId,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: at } }],
+      },
+    }),
+  ]);
+
+  const grants = planGrants(plan?.features ?? null);
+  const overridden = new Map<Feature, boolean | number | string>();
+  for (const override of overrides) {
+    if (!isFeature(override.feature)) continue;
+    const value = parseFeatureValue(override.feature, override.value);
+    if (value !== undefined) overridden.set(override.feature, value);
+  }
+
+  const features = {} as Record<Feature, Entitlement>;
+  for (const feature of Object.keys(FEATURE_CATALOGUE) as Feature[]) {
+    const definition: FeatureDefinition = FEATURE_CATALOGUE[feature];
+    const [value, source]: [boolean | number | string, EntitlementSource] =
+      overridden.has(feature)
+        ? [overridden.get(feature)!, "OVERRIDE"]
+        : grants.has(feature)
+          ? [grants.get(feature)!, "PLAN"]
+          : [definition.default, "DEFAULT"];
+
+    features[feature] = { feature, type: definition.type, value, source };
+  }
+
+  return {
+    plan: plan ? { id: plan.id, name: plan.name } : null,
+    features,
+  };
+}
+
+const entitlementCache = new Map<
+  string,
+  { entitlements: Entitlements; expiresAt: number }
+>();
+
+/**
+ * getEntitlements for checks on hot paths, reused for up to
+ * ENTITLEMENT_CACHE_TTL_MS so a change can take that long to apply on other
+ * instances
+ */
+export async function getCachedEntitlements(organizationId: string) {
+  const now = Date.now();
+  const cached = entitlementCache.get(organizationId);
+  if (cached && cached.expiresAt > now) return cached.entitlements;
+
+  const entitlements = await getEntitlements(organizationId);
+  entitlementCache.set(organizationId, {
+    entitlements,
+    expiresAt: now + ENTITLEMENT_CACHE_TTL_MS,
+  });
+  return entitlements;
+}
+
+// Drop this instance's cached entitlements after a plan or override change
+export function invalidateEntitlements(organizationId: string) {
+  entitlementCache.delete(organizationId);
+}
+
+/**
+ * A denied entitlement check, with what the dashboard needs to prompt an
+ * upgrade: the current value and the cheapest plans that would allow it
+ */
+export class EntitlementError extends Error {
+  constructor(
+    message: string,
+    public readonly details: {
+      code: "FEATURE_NOT_ENTITLED" | "LIMIT_REACHED";
+      feature: Feature;
+      value: boolean | number | string;
+      required: boolean | number | string;
+      usage?: number;
+      currentPlan: { id: string; name: string } | null;
+      upgradePlans: { id: string; name: string; basePrice: number }[];
+    },
+  ) {
+    super(message);
+    this.name = "EntitlementError";
+  }
+}
+
+function allows(
+  feature: Feature,
+  value: boolean | number | string,
+  required: boolean | number | string,
+) {
+  const definition: FeatureDefinition = FEATURE_CATALOGUE[feature];
+
+  switch (definition.type) {
+    case "boolean":
+      return value === true || required === false;
+    case "limit":
+      return value === -1 || (value as number) >= (required as number);
+    case "tier":
+      return (
+        definition.tiers.indexOf(value as string) >=
+        definition.tiers.indexOf(required as string)
+      );
+  }
+}
+
+// Active plans whose grant allows `required`, cheapest first
+async function upgradePlansFor(
+  feature: Feature,
+  required: boolean | number | string,
+  currentPlanId: string | undefined,
+) {
+  const plans = await prisma.subscriptionPlan.findMany({
+    where: { isActive: true },
+    orderBy: { basePrice: "asc" },
+  });
+
+  return plans
+    .filter((plan) => plan.id !== currentPlanId)
+    .filter((plan) => {
+      const granted = planGrants(plan.features).get(feature);
+      return granted !== undefined && allows(feature, granted, required);
+    })
+    .map((plan) => ({
+      id: plan.id,
+      name: plan.name,
+      basePrice: plan.basePrice,
+    }));
+}
+
+async function deny(
+  entitlements: Entitlements,
+  details: Omit<EntitlementError["details"], "currentPlan" | "upgradePlans">,
+  message: string,
+): Promise<never> {
+  throw new EntitlementError(message, {
+    ...details,
+    currentPlan: entitlements.plan,
+    upgradePlans: await upgradePlansFor(
+      details.feature,
+      details.required,
+      entitlements.plan?.id,
+    ),
+  });
+}
+
+/**
+ * Throw an EntitlementError unless the organization has a feature, or for
+ * tier features at least `minimumTier`
+ */
+export async function requireEntitlement(
+  organizationId: string,
+  feature: Exclude<Feature, LimitFeature>,
+  minimumTier?: string,
+) {
+  const entitlements = await getCachedEntitlements(organizationId);
+  const { value } = entitlements.features[feature];
+  const required = minimumTier ?? true;
+
+  if (!allows(feature, value, required)) {
+    await deny(
+      entitlements,
+      { code: "FEATURE_NOT_ENTITLED", feature, value, required },
+      minimumTier
+        ? `${FEATURE_CATALOGUE[feature].description} requires the ${minimumTier} tier`
+        : `${FEATURE_CATALOGUE[feature].description} is not included in your plan`,
+    );
+  }
+
+  return entitlements;
+}
+
+/**
+ * Throw an EntitlementError unless `usage` plus `increment` stays within a
+ * limit feature. Pass the count before the resource is created.
+ */
+export async function requireWithinLimit(
+  organizationId: string,
+  feature: LimitFeature,
+  usage: number,
+  increment = 1,
+) {
+  const entitlements = await getCachedEntitlements(organizationId);
+  const value = entitlements.features[feature].value as number;
+  const required = usage + increment;
+
+  if (!allows(feature, value, required)) {
+    await deny(
+      entitlements,
+      { code: "LIMIT_REACHED", feature, value, required, usage },
+      `${FEATURE_CATALOGUE[feature].description} limit of ${value} reached`,
+    );
+  }
+
+  return entitlements;
+}
+
+/**
+ * Throw an EntitlementError when `since` is further back than the
+ * organization's data retention allows
+ */
+export async function requireRetention(
+  organizationId: string,
+  since: Date,
+  now = new Date(),
+) {
+  if (Number.isNaN(since.getTime())) {
+    return getCachedEntitlements(organizationId);
+  }
+  const days = Math.ceil(
+    (now.getTime() - since.getTime()) / (24 * 60 * 60 * 1000),
+  );
+  return requireWithinLimit(organizationId, "dataRetentionDays", days, 0);
+}
+
+/**
+ * Build the /api/v1 error body for a denied entitlement
+ */
+export function buildEntitlementErrorResponse(error: EntitlementError) {
+  const { details } = error;
+  return {
+    error: error.message,
+    code: details.code,
+    details: {
+      feature: details.feature,
+      value: details.value,
+      required: details.required,
+      usage: details.usage,
+      currentPlan: details.currentPlan?.name ?? null,
+      upgradePlans: details.upgradePlans.map((plan) => plan.name),
+    },
+  };
+}
+
+// Run checks for an API route; the error body when one denies, else null
+export async function apiEntitlementDenial(check: () => Promise<unknown>) {
+  try {
+    await check();
+    return null;
+  } catch (error) {
+    if (error instanceof EntitlementError) {
+      return buildEntitlementErrorResponse(error);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,505 @@
+import type Stripe from "stripe";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as stripeWebhook } from "@/app/api/webhooks/stripe/route";
+import { subscriptionRouter } from "@/server/trpc/routers/subscription";
+import {
+  createFakePaymentProvider,
+  type FakePaymentProvider,
+} from "@/server/services/fakePaymentProvider";
+import { setPaymentProvider } from "@/server/services/payments";
+import { reconcileStripe } from "@/server/services/stripeReconciliation";
+
+const WEBHOOK_SECRET = "whsec_test";
+
+type Row = Record<string, unknown>;
+
+// An in-memory stand-in for the tables these flows touch, with enough of
+// Prisma's filter and update semantics for the queries they run
+const db = vi.hoisted(() => {
+  let sequence = 0;
+
+  function matches(row: Row, where: Row = {}): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (key === "OR") {
+        return (condition as Row[]).some((branch) => matches(row, branch));
+      }
+      const value = row[key] as never;
+      if (
+        condition &&
+        typeof condition === "object" &&
+        !(condition instanceof Date)
+      ) {
+        const c = condition as Record<string, never>;
+        return (
+          (!("in" in c) || (c.in as unknown[]).includes(value)) &&
+          (!("not" in c) || value !== c.not) &&
+          (!("lte" in c) || (value !== null && value <= c.lte)) &&
+          (!("gte" in c) || (value !== null && value >= c.gte))
+        );
+      }
+      return condition instanceof Date
+        ? (value as Date | null)?.getTime() === condition.getTime()
+        : value === condition;
+    });
+  }
+
+  function apply(row: Row, data: Row) {
+    for (const [key, value] of Object.entries(data)) {
+      row[key] =
+        value && typeof value === "object" && "increment" in value
+          ? (row[key] as number) + (value.increment as number)
+          : value;
+    }
+    row.updatedAt = new Date();
+    return row;
+  }
+
+  function table(defaults: Row = {}) {
+    const rows: Row[] = [];
+    const filter = (where?: Row) => rows.filter((row) => matches(row, where));
+
+    return {
+      rows,
+      findMany: async (args?: { where?: Row }) => filter(args?.where),
+      findFirst: async (args?: { where?: Row; orderBy?: Row }) => {
+        const found = filter(args?.where);
+        const [key, direction] = Object.entries(args?.orderBy ?? {})[0] ?? [];
+        if (key) {
+          found.sort(
+            (a, b) =>
+              ((a[key] as number) - (b[key] as number)) *
+              (direction === "desc" ? -1 : 1),
+          );
+        }
+        return found[0] ?? null;
+      },
+      findUnique: async (args: { where: Row }) => filter(args.where)[0] ?? null,
+      findUniqueOrThrow: async (args: { where: Row }) => {
+        const row = filter(args.where)[0];
+        if (!row) throw new Error("Record not found");
+        return row;
+      },
+      create: async (args: { data: Row }) => {
+        const now = new Date();
+        const row = {
+          id: `row_${++sequence}`,
+          createdAt: now,
+          updatedAt: now,
+          ...defaults,
+          ...args.data,
+        };
+        rows.push(row);
+        return row;
+      },
+      createMany: async (args: { data: Row; skipDuplicates?: boolean }) => {
+        if (rows.some((row) => row.id === args.data.id)) {
+          if (args.skipDuplicates) return { count: 0 };
+          throw new Error("Unique constraint failed");
+        }
+        rows.push({ ...defaults, receivedAt: new Date(), ...args.data });
+        return { count: 1 };
+      },
+      update: async (args: { where: Row; data: Row }) => {
+        const row = filter(args.where)[0];
+        if (!row) throw new Error("Record to update not found");
+        return apply(row, args.data);
+      },
+      updateMany: async (args: { where: Row; data: Row }) => {
+        const found = filter(args.where);
+        found.forEach((row) => apply(row, args.data));
+        return { count: found.length };
+      },
+    };
+  }
+
+  return {
+    plans: table({ isActive: true }),
+    subscriptions: table({
+      cancelAtPeriodEnd: false,
+      canceledAt: null,
+      trialEnd: null,
+      stripeStateAt: null,
+    }),
+    planChanges: table(),
+    webhookEvents: table({ status: "PENDING", attempts: 0 }),
+    auditLogs: table(),
+  };
+});
+
+vi.mock("@/server/db/prisma", () => {
+  const { plans, subscriptions, planChanges, webhookEvents, auditLogs } = db;
+
+  // Resolve the relations the subscription queries include
+  async function withRelations(row: Row | null, include?: Row) {
+    if (!row || !include) return row;
+    const result: Row = { ...row };
+    if (include.plan) {
+      result.plan = await plans.findUnique({ where: { id: row.planId } });
+    }
+    if (include.planChanges) {
+      const relation = include.planChanges as { where?: Row };
+      const changes = await planChanges.findMany({
+        where: { ...relation.where, subscriptionId: row.id },
+      });
+      result.planChanges = await Promise.all(
+        changes.map(async (change) => ({
+          ...change,
+          toPlan: await plans.findUnique({ where: { id: change.toPlanId } }),
+        })),
+      );
+    }
+    return result;
+  }
+
+  const client = {
+    $queryRaw: async (_sql: TemplateStringsArray, id: string) => {
+      const event = await webhookEvents.findUnique({ where: { id } });
+      return event && event.status !== "PROCESSED" ? [{ id }] : [];
+    },
+    subscriptionPlan: plans,
+    subscription: {
+      ...subscriptions,
+      findFirst: async (args: { where?: Row; orderBy?: Row; include?: Row }) =>
+        withRelations(await subscriptions.findFirst(args), args.include),
+    },
+    subscriptionPlanChange: planChanges,
+    stripeWebhookEvent: webhookEvents,
+    auditLog: auditLogs,
+  };
+
+  return {
+    prisma: {
+      ...client,
+      $transaction: async (fn: (tx: typeof client) => unknown) => fn(client),
+    },
+  };
+});
+
+function deliver(provider: FakePaymentProvider, event: Stripe.Event) {
+  const { payload, signature } = provider.signWebhook(event, WEBHOOK_SECRET);
+  return stripeWebhook(
+    new NextRequest("http://localhost/api/webhooks/stripe", {
+      method: "POST",
+      body: payload,
+      headers: { "stripe-signature": signature },
+    }),
+  );
+}
+
+// Deliver every event the fake has recorded since the last call
+async function deliverPending(provider: FakePaymentProvider) {
+  const delivered = provider.events.splice(0);
+  for (const event of delivered) {
+    const response = await deliver(provider, event);
+    expect(response.status).toBe(200);
+  }
+  return delivered;
+}
+
+async function seedPlans() {
+  const basic = await db.plans.create({
+    data: {
+      name: "Basic",
+      stripePriceId: "price_basic",
+      basePrice: 1000,
+      currency: "USD",
+      features: { apiAccess: true },
+    },
+  });
+  const pro = await db.plans.create({
+    data: {
+      name: "Pro",
+      stripePriceId: "price_pro",
+      basePrice: 5000,
+      currency: "USD",
+      features: { apiAccess: true, sso: true },
+    },
+  });
+  return { basic, pro };
+}
+
+describe("billing flows against the fake payment provider", () => {
+  let provider: FakePaymentProvider;
+  let plans: Awaited<ReturnType<typeof seedPlans>>;
+  const caller = subscriptionRouter.createCaller({ userId: "user_1" });
+
+  // Subscribe org_1 to Basic through checkout and its webhooks
+  async function subscribe() {
+    const { sessionUrl } = await caller.createCheckoutSession({
+      organizationId: "org_1",
+      planId: plans.basic.id as string,
+      email: "billing@example.com",
+      organizationName: "Example",
+    });
+    const sessionId = sessionUrl!.split("/").pop()!;
+    const subscription = provider.completeCheckout(sessionId);
+    await deliverPending(provider);
+    return subscription;
+  }
+
+  beforeEach(async () => {
+    for (const store of Object.values(db)) store.rows.length = 0;
+    provider = createFakePaymentProvider();
+    setPaymentProvider(provider);
+    vi.stubEnv("STRIPE_WEBHOOK_SECRET", WEBHOOK_SECRET);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    plans = await seedPlans();
+  });
+
+  afterEach(() => {
+    setPaymentProvider(undefined);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe("subscription router", () => {
+    it("creates the subscription from checkout through its webhooks", async () => {
+      const stripeSubscription = await subscribe();
+
+      const current = await caller.getCurrentSubscription({
+        organizationId: "org_1",
+      });
+      expect(current).toMatchObject({
+        status: "ACTIVE",
+        plan: { id: plans.basic.id, name: "Basic" },
+        cancelAtPeriodEnd: false,
+        scheduledChange: null,
+      });
+      expect(db.subscriptions.rows[0]).toMatchObject({
+        organizationId: "org_1",
+        stripeSubscriptionId: stripeSubscription.id,
+        stripeCustomerId: stripeSubscription.customer,
+      });
+    });
+
+    it("switches plan at once on an upgrade", async () => {
+      const stripeSubscription = await subscribe();
+
+      await caller.changePlan({
+        organizationId: "org_1",
+        planId: plans.pro.id as string,
+      });
+
+      expect(
+        provider.subscriptions.get(stripeSubscription.id)!.items.data[0].price
+          .id,
+      ).toBe("price_pro");
+      expect(db.subscriptions.rows[0].planId).toBe(plans.pro.id);
+      expect(db.planChanges.rows[0]).toMatchObject({
+        status: "APPLIED",
+        isUpgrade: true,
+      });
+
+      // Stripe's update webhook agrees with what was written
+      await deliverPending(provider);
+      expect(db.subscriptions.rows[0].planId).toBe(plans.pro.id);
+    });
+
+    it("applies a downgrade when Stripe renews on the new price", async () => {
+      const stripeSubscription = await subscribe();
+      await caller.changePlan({
+        organizationId: "org_1",
+        planId: plans.pro.id as string,
+      });
+      await deliverPending(provider);
+
+      await caller.changePlan({
+        organizationId: "org_1",
+        planId: plans.basic.id as string,
+      });
+      expect(provider.schedules.size).toBe(1);
+      expect(
+        await caller.getCurrentSubscription({ organizationId: "org_1" }),
+      ).toMatchObject({
+        plan: { id: plans.pro.id },
+        scheduledChange: { planId: plans.basic.id },
+      });
+
+      provider.renewSubscription(stripeSubscription.id);
+      await deliverPending(provider);
+
+      expect(db.subscriptions.rows[0].planId).toBe(plans.basic.id);
+      expect(db.planChanges.rows[1]).toMatchObject({
+        status: "APPLIED",
+        isUpgrade: false,
+      });
+    });
+
+    it("cancels a scheduled change and releases the Stripe schedule", async () => {
+      await subscribe();
+      await caller.changePlan({
+        organizationId: "org_1",
+        planId: plans.pro.id as string,
+        timing: "PERIOD_END",
+      });
+      await caller.cancelScheduledPlanChange({ organizationId: "org_1" });
+
+      expect(provider.schedules.size).toBe(0);
+      expect(db.planChanges.rows[0].status).toBe("CANCELED");
+      expect(db.subscriptions.rows[0].planId).toBe(plans.basic.id);
+    });
+  });
+
+  describe("Stripe webhook route", () => {
+    it("rejects a payload whose signature does not match", async () => {
+      const stripeSubscription = await subscribe();
+      provider.deleteSubscription(stripeSubscription.id);
+      const [event] = provider.events;
+      const { payload, signature } = provider.signWebhook(event, "whsec_other");
+
+      const response = await stripeWebhook(
+        new NextRequest("http://localhost/api/webhooks/stripe", {
+          method: "POST",
+          body: payload,
+          headers: { "stripe-signature": signature },
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(db.webhookEvents.rows.map((row) => row.id)).not.toContain(
+        event.id,
+      );
+      expect(db.subscriptions.rows[0].status).toBe("ACTIVE");
+    });
+
+    it("handles a redelivered event once", async () => {
+      await subscribe();
+      const id = db.subscriptions.rows[0].stripeSubscriptionId as string;
+      provider.deleteSubscription(id);
+      const [event] = provider.events;
+
+      await deliverPending(provider);
+      const response = await deliver(provider, event);
+
+      expect(await response.json()).toEqual({
+        received: true,
+        duplicate: true,
+      });
+      expect(db.subscriptions.rows[0].status).toBe("CANCELED");
+      expect(
+        db.webhookEvents.rows.find((row) => row.id === event.id),
+      ).toMatchObject({
+        status: "PROCESSED",
+        attempts: 1,
+      });
+    });
+
+    it("tracks failed and successful invoice payments", async () => {
+      const stripeSubscription = await subscribe();
+      const invoice = provider.createInvoice({
+        customerId: stripeSubscription.customer as string,
+        subscriptionId: stripeSubscription.id,
+        amountDue: 1000,
+      });
+      provider.finalizeInvoice(invoice.id!);
+      provider.failInvoicePayment(invoice.id!);
+      await deliverPending(provider);
+
+      expect(db.subscriptions.rows[0].status).toBe("PAST_DUE");
+      expect(db.auditLogs.rows.map((row) => row.action)).toContain(
+        "STRIPE_INVOICE_FINALIZED",
+      );
+
+      provider.payInvoice(invoice.id!);
+      await deliverPending(provider);
+
+      expect(db.subscriptions.rows[0].status).toBe("ACTIVE");
+    });
+
+    it("audits refunds and disputes on the customer's subscription", async () => {
+      const stripeSubscription = await subscribe();
+      const invoice = provider.createInvoice({
+        customerId: stripeSubscription.customer as string,
+        subscriptionId: stripeSubscription.id,
+        amountDue: 1000,
+      });
+      provider.finalizeInvoice(invoice.id!);
+      const charge = provider.payInvoice(invoice.id!);
+      provider.refundCharge(charge.id, 400);
+      provider.disputeCharge(charge.id);
+      await deliverPending(provider);
+
+      const audits = db.auditLogs.rows.filter(
+        (row) => row.resourceId === db.subscriptions.rows[0].id,
+      );
+      expect(audits.map((row) => row.action)).toEqual(
+        expect.arrayContaining([
+          "STRIPE_CHARGE_REFUNDED",
+          "STRIPE_DISPUTE_CREATED",
+        ]),
+      );
+    });
+  });
+
+  describe("reconcileStripe", () => {
+    it("reports drift without writing on a dry run", async () => {
+      const stripeSubscription = await subscribe();
+      provider.updateSubscription(stripeSubscription.id, {
+        status: "past_due",
+      });
+
+      const report = await reconcileStripe({ apply: false });
+
+      expect(report.drift).toEqual([
+        expect.objectContaining({
+          kind: "SUBSCRIPTION_MISMATCH",
+          changes: { status: { local: "ACTIVE", stripe: "PAST_DUE" } },
+          fixable: true,
+        }),
+      ]);
+      expect(db.subscriptions.rows[0].status).toBe("ACTIVE");
+    });
+
+    it("writes missed webhooks from Stripe and audits each fix", async () => {
+      const stripeSubscription = await subscribe();
+      provider.updateSubscription(stripeSubscription.id, {
+        cancelAtPeriodEnd: true,
+      });
+      db.subscriptions.rows.push({
+        ...db.subscriptions.rows[0],
+        id: "row_gone",
+        stripeSubscriptionId: "sub_gone",
+      });
+
+      const report = await reconcileStripe({ apply: true });
+
+      expect(report.drift.map((drift) => drift.kind).sort()).toEqual([
+        "SUBSCRIPTION_MISMATCH",
+        "SUBSCRIPTION_NOT_IN_STRIPE",
+      ]);
+      expect(report.corrected).toBe(2);
+      expect(db.subscriptions.rows[0].cancelAtPeriodEnd).toBe(true);
+      expect(db.subscriptions.rows[1].status).toBe("CANCELED");
+      expect(
+        db.auditLogs.rows.filter(
+          (row) => row.action === "STRIPE_DRIFT_CORRECTED",
+        ),
+      ).toHaveLength(2);
+
+      // The webhook that was missed is now older than the state applied
+      await deliverPending(provider);
+      expect(db.subscriptions.rows[0].cancelAtPeriodEnd).toBe(true);
+      expect((await reconcileStripe({ apply: false })).drift).toEqual([]);
+    });
+
+    it("recreates a subscription Stripe has but the table lacks", async () => {
+      const stripeSubscription = await subscribe();
+      db.subscriptions.rows.length = 0;
+
+      const report = await reconcileStripe({ apply: true });
+
+      expect(report.drift[0]).toMatchObject({
+        kind: "SUBSCRIPTION_MISSING",
+        applied: true,
+      });
+      expect(db.subscriptions.rows[0]).toMatchObject({
+        organizationId: "org_1",
+        stripeSubscriptionId: stripeSubscription.id,
+        planId: plans.basic.id,
+        status: "ACTIVE",
+      });
+    });
+  });
+});
@@ -0,0 +1,643 @@
+import Stripe from "stripe";
+import type { PaymentProvider } from "@/server/services/payments";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const PERIOD_SECONDS = 30 * DAY_SECONDS;
+
+type MeterEvent = {
+  identifier: string;
+  eventName: string;
+  customerId: string;
+  value: number;
+  timestamp: number;
+};
+
+/**
+ * In-memory payment provider for exercising billing and webhook flows
+ * without network access
+ *
+ * Besides the PaymentProvider methods it exposes the state it holds and
+ * controls for what would happen on Stripe's side (a customer completing
+ * checkout, an invoice being paid, a charge disputed, ...). Each of those
+ * records the Stripe event it would send in `events`; `signWebhook` turns
+ * one into a body and stripe-signature header the webhook route accepts.
+ */
+export type FakePaymentProvider = PaymentProvider & {
+  customers: Map<string, Stripe.Customer>;
+  checkoutSessions: Map<string, Stripe.Checkout.Session>;
+  subscriptions: Map<string, Stripe.Subscription>;
+  invoices: Map<string, Stripe.Invoice>;
+  charges: Map<string, Stripe.Charge>;
+  meters: Map<string, Stripe.Billing.Meter>;
+  meterEvents: MeterEvent[];
+  schedules: Map<string, { subscriptionId: string; priceId: string }>;
+  events: Stripe.Event[];
+
+  completeCheckout(
+    sessionId: string,
+    options?: { trialDays?: number },
+  ): Stripe.Subscription;
+  updateSubscription(
+    subscriptionId: string,
+    changes: {
+      status?: Stripe.Subscription.Status;
+      priceId?: string;
+      cancelAtPeriodEnd?: boolean;
+    },
+  ): Stripe.Subscription;
+  deleteSubscription(subscriptionId: string): Stripe.Subscription;
+  // Start the next billing period, switching to a scheduled price if any
+  renewSubscription(subscriptionId: string): Stripe.Subscription;
+  endTrialSoon(subscriptionId: string): Stripe.Event;
+  updateCustomer(
+    customerId: string,
+    changes: { email?: string; name?: string },
+  ): Stripe.Customer;
+  createInvoice(params: {
+    customerId: string;
+    subscriptionId?: string;
+    amountDue: number;
+    currency?: string;
+  }): Stripe.Invoice;
+  finalizeInvoice(invoiceId: string): Stripe.Invoice;
+  payInvoice(invoiceId: string): Stripe.Charge;
+  failInvoicePayment(invoiceId: string): Stripe.Invoice;
+  refundCharge(chargeId: string, amount?: number): Stripe.Charge;
+  disputeCharge(chargeId: string, reason?: string): Stripe.Dispute;
+  createMeter(params: {
+    eventName: string;
+    customerPayloadKey?: string;
+    valuePayloadKey?: string;
+  }): Stripe.Billing.Meter;
+  signWebhook(
+    event: Stripe.Event,
+    webhookSecret: string,
+  ): { payload: string; signature: string };
+};
+
+export function createFakePaymentProvider(options?: {
+  now?: () => Date;
+}): FakePaymentProvider {
+  const clock = options?.now ?? (() => new Date());
+  const nowSeconds = () => Math.floor(clock().getTime() / 1000);
+
+  let sequence = 0;
+  const nextId = (prefix: string) =>
+    `${prefix}_fake${String(++sequence).padStart(6, "0")}`;
+
+  const customers = new Map<string, Stripe.Customer>();
+  const checkoutSessions = new Map<string, Stripe.Checkout.Session>();
+  const subscriptions = new Map<string, Stripe.Subscription>();
+  const invoices = new Map<string, Stripe.Invoice>();
+  const charges = new Map<string, Stripe.Charge>();
+  const meters = new Map<string, Stripe.Billing.Meter>();
+  const meterEvents: MeterEvent[] = [];
+  const schedules = new Map<
+    string,
+    { subscriptionId: string; priceId: string }
+  >();
+  const events: Stripe.Event[] = [];
+
+  function find<T>(map: Map<string, T>, id: string, kind: string): T {
+    const value = map.get(id);
+    if (!value) {
+      throw new Error(`No such ${kind}: '${id}'`);
+    }
+    return value;
+  }
+
+  // Snapshot the object as it is now, like a Stripe event payload
+  function emit(
+    type: string,
+    object: object,
+    previousAttributes?: Record<string, unknown>,
+  ) {
+    const event = {
+      id: nextId("evt"),
+      object: "event",
+      api_version: Stripe.API_VERSION,
+      created: nowSeconds(),
+      livemode: false,
+      pending_webhooks: 1,
+      request: { id: null, idempotency_key: null },
+      type,
+      data: {
+        object: structuredClone(object),
+        ...(previousAttributes
+          ? { previous_attributes: structuredClone(previousAttributes) }
+          : {}),
+      },
+    } as unknown as Stripe.Event;
+    events.push(event);
+    return event;
+  }
+
+  function buildSubscription(
+    session: Stripe.Checkout.Session,
+    trialDays: number | undefined,
+  ) {
+    const start = nowSeconds();
+    const trialEnd = trialDays ? start + trialDays * DAY_SECONDS : null;
+    const id = nextId("sub");
+    const priceId = session.metadata?.priceId ?? "";
+
+    return {
+      id,
+      object: "subscription",
+      customer: session.customer as string,
+      status: trialEnd ? "trialing" : "active",
+      metadata: { organizationId: session.metadata?.organizationId ?? "" },
+      cancel_at_period_end: false,
+      canceled_at: null,
+      ended_at: null,
+      trial_end: trialEnd,
+      created: start,
+      items: {
+        object: "list",
+        data: [
+          {
+            id: nextId("si"),
+            object: "subscription_item",
+            subscription: id,
+            quantity: 1,
+            price: { id: priceId, object: "price" },
+            current_period_start: start,
+            current_period_end: start + PERIOD_SECONDS,
+          },
+        ],
+        has_more: false,
+        url: `/v1/subscription_items?subscription=${id}`,
+      },
+    } as unknown as Stripe.Subscription;
+  }
+
+  const provider: FakePaymentProvider = {
+    customers,
+    checkoutSessions,
+    subscriptions,
+    invoices,
+    charges,
+    meters,
+    meterEvents,
+    schedules,
+    events,
+
+    async createCustomer(params) {
+      const customer = {
+        id: nextId("cus"),
+        object: "customer",
+        email: params.email,
+        name: params.name,
+        metadata: { organizationId: params.organizationId },
+        created: nowSeconds(),
+      } as unknown as Stripe.Customer;
+      customers.set(customer.id, customer);
+      emit("customer.created", customer);
+      return structuredClone(customer);
+    },
+
+    async createCheckoutSession(params) {
+      find(customers, params.customerId, "customer");
+      const id = nextId("cs");
+      const session = {
+        id,
+        object: "checkout.session",
+        customer: params.customerId,
+        mode: "subscription",
+        status: "open",
+        subscription: null,
+        url: `https://checkout.fake.test/${id}`,
+        success_url: params.successUrl,
+        cancel_url: params.cancelUrl,
+        // Stripe keeps the price on the line items; the fake has none
+        metadata: {
+          organizationId: params.organizationId,
+          priceId: params.priceId,
+        },
+      } as unknown as Stripe.Checkout.Session;
+      checkoutSessions.set(id, session);
+      return structuredClone(session);
+    },
+
+    async createBillingPortalSession(params) {
+      find(customers, params.customerId, "customer");
+      const id = nextId("bps");
+      return {
+        id,
+        object: "billing_portal.session",
+        customer: params.customerId,
+        return_url: params.returnUrl,
+        url: `https://billing.fake.test/${id}`,
+      } as unknown as Stripe.BillingPortal.Session;
+    },
+
+    async getSubscription(subscriptionId) {
+      return structuredClone(
+        find(subscriptions, subscriptionId, "subscription"),
+      );
+    },
+
+    async *listSubscriptions(params) {
+      for (const subscription of subscriptions.values()) {
+        const matches =
+          params.status === "all" ||
+          (params.status === "ended"
+            ? subscription.ended_at !== null
+            : subscription.status === params.status);
+        if (matches) yield structuredClone(subscription);
+      }
+    },
+
+    async *listCustomers() {
+      for (const customer of customers.values()) {
+        yield structuredClone(customer);
+      }
+    },
+
+    async *listAllInvoices() {
+      for (const invoice of invoices.values()) {
+        yield structuredClone(invoice);
+      }
+    },
+
+    async cancelSubscription(subscriptionId) {
+      return provider.updateSubscription(subscriptionId, {
+        cancelAtPeriodEnd: true,
+      });
+    },
+
+    async resumeSubscription(subscriptionId) {
+      return provider.updateSubscription(subscriptionId, {
+        cancelAtPeriodEnd: false,
+      });
+    },
+
+    async changeSubscriptionPrice(params) {
+      return provider.updateSubscription(params.subscriptionId, {
+        priceId: params.priceId,
+      });
+    },
+
+    async scheduleSubscriptionPrice(params) {
+      find(subscriptions, params.subscriptionId, "subscription");
+      const scheduleId = nextId("sub_sched");
+      schedules.set(scheduleId, params);
+      return { scheduleId };
+    },
+
+    async releaseSubscriptionSchedule(scheduleId) {
+      find(schedules, scheduleId, "subscription schedule");
+      schedules.delete(scheduleId);
+    },
+
+    async getInvoices(customerId, limit = 10) {
+      return [...invoices.values()]
+        .filter((invoice) => invoice.customer === customerId)
+        .sort((a, b) => b.created - a.created)
+        .slice(0, limit);
+    },
+
+    async getUpcomingInvoice(customerId) {
+      const subscription = [...subscriptions.values()].find(
+        (candidate) =>
+          candidate.customer === customerId && candidate.ended_at === null,
+      );
+      if (!subscription) return null;
+
+      const item = subscription.items.data[0];
+      return {
+        object: "invoice",
+        customer: customerId,
+        amount_due: 0,
+        period_start: item.current_period_end,
+        period_end: item.current_period_end + PERIOD_SECONDS,
+        lines: { object: "list", data: [], has_more: false },
+      } as unknown as Stripe.Invoice;
+    },
+
+    async getCharge(chargeId) {
+      return structuredClone(find(charges, chargeId, "charge"));
+    },
+
+    async getEvent(eventId) {
+      const event = events.find((candidate) => candidate.id === eventId);
+      if (!event) {
+        throw new Error(`No such event: '${eventId}'`);
+      }
+      return event;
+    },
+
+    // Same signature scheme as Stripe
+    constructWebhookEvent(payload, signature, webhookSecret) {
+      return Stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+    },
+
+    async listActiveMeters() {
+      return [...meters.values()].filter((meter) => meter.status === "active");
+    },
+
+    async reportUsage(params) {
+      const { meter } = params;
+      if (meterEvents.some((event) => event.identifier === params.identifier)) {
+        return;
+      }
+      meterEvents.push({
+        identifier: params.identifier,
+        eventName: meter.event_name,
+        customerId: params.stripeCustomerId,
+        value: Number(params.value.toString()),
+        timestamp: Math.floor((params.timestamp ?? clock()).getTime() / 1000),
+      });
+    },
+
+    async *listMeterEventSummaries(params) {
+      const meter = find(meters, params.meterId, "meter");
+      const start = Math.floor(params.start.getTime() / 1000);
+      const end = Math.ceil(params.end.getTime() / 1000);
+
+      const aggregated = meterEvents
+        .filter(
+          (event) =>
+            event.eventName === meter.event_name &&
+            event.customerId === params.customerId &&
+            event.timestamp >= start &&
+            event.timestamp < end,
+        )
+        .reduce((sum, event) => sum + event.value, 0);
+
+      yield {
+        id: nextId("mtrusg"),
+        object: "billing.meter_event_summary",
+        aggregated_value: aggregated,
+        start_time: start,
+        end_time: end,
+        livemode: false,
+        meter: meter.id,
+      };
+    },
+
+    completeCheckout(sessionId, completeOptions) {
+      const session = find(checkoutSessions, sessionId, "checkout session");
+      if (session.status !== "open") {
+        throw new Error(`Checkout session ${sessionId} is not open`);
+      }
+
+      const subscription = buildSubscription(
+        session,
+        completeOptions?.trialDays,
+      );
+      subscriptions.set(subscription.id, subscription);
+      session.status = "complete";
+      session.subscription = subscription.id;
+
+      emit("checkout.session.completed", session);
+      emit("customer.subscription.created", subscription);
+      return structuredClone(subscription);
+    },
+
+    updateSubscription(subscriptionId, changes) {
+      const subscription = find(subscriptions, subscriptionId, "subscription");
+      const item = subscription.items.data[0];
+      const previous: Record<string, unknown> = {};
+
+      if (changes.status && changes.status !== subscription.status) {
+        previous.status = subscription.status;
+        subscription.status = changes.status;
+      }
+      if (
+        changes.cancelAtPeriodEnd !== undefined &&
+        changes.cancelAtPeriodEnd !== subscription.cancel_at_period_end
+      ) {
+        previous.cancel_at_period_end = subscription.cancel_at_period_end;
+        subscription.cancel_at_period_end = changes.cancelAtPeriodEnd;
+        subscription.canceled_at = changes.cancelAtPeriodEnd
+          ? nowSeconds()
+          : null;
+      }
+      if (changes.priceId && changes.priceId !== item.price.id) {
+        previous.items = structuredClone(subscription.items);
+        item.price = {
+          ...item.price,
+          id: changes.priceId,
+        } as Stripe.Price;
+      }
+
+      emit("customer.subscription.updated", subscription, previous);
+      return structuredClone(subscription);
+    },
+
+    deleteSubscription(subscriptionId) {
+      const subscription = find(subscriptions, subscriptionId, "subscription");
+      subscription.status = "canceled";
+      subscription.canceled_at ??= nowSeconds();
+      subscription.ended_at = nowSeconds();
+
+      emit("customer.subscription.deleted", subscription);
+      return structuredClone(subscription);
+    },
+
+    renewSubscription(subscriptionId) {
+      const subscription = find(subscriptions, subscriptionId, "subscription");
+      const item = subscription.items.data[0];
+      const previous: Record<string, unknown> = {
+        items: structuredClone(subscription.items),
+      };
+
+      item.current_period_start = item.current_period_end;
+      item.current_period_end += PERIOD_SECONDS;
+
+      for (const [scheduleId, schedule] of schedules) {
+        if (schedule.subscriptionId !== subscriptionId) continue;
+        item.price = { ...item.price, id: schedule.priceId } as Stripe.Price;
+        schedules.delete(scheduleId);
+      }
+
+      emit("customer.subscription.updated", subscription, previous);
+      return structuredClone(subscription);
+    },
+
+    endTrialSoon(subscriptionId) {
+      const subscription = find(subscriptions, subscriptionId, "subscription");
+      if (!subscription.trial_end) {
+        throw new Error(`Subscription ${subscriptionId} has no trial`);
+      }
+      return emit("customer.subscription.trial_will_end", subscription);
+    },
+
+    updateCustomer(customerId, changes) {
+      const customer = find(customers, customerId, "customer");
+      const previous: Record<string, unknown> = {};
+
+      for (const key of ["email", "name"] as const) {
+        const value = changes[key];
+        if (value !== undefined && value !== customer[key]) {
+          previous[key] = customer[key];
+          customer[key] = value;
+        }
+      }
+
+      emit("customer.updated", customer, previous);
+      return structuredClone(customer);
+    },
+
+    createInvoice(params) {
+      find(customers, params.customerId, "customer");
+      const created = nowSeconds();
+      const invoice = {
+        id: nextId("in"),
+        object: "invoice",
+        customer: params.customerId,
+        status: "draft",
+        number: null,
+        amount_due: params.amountDue,
+        amount_paid: 0,
+        currency: (params.currency ?? "usd").toLowerCase(),
+        created,
+        due_date: null,
+        period_start: created,
+        period_end: created,
+        hosted_invoice_url: null,
+        invoice_pdf: null,
+        parent: params.subscriptionId
+          ? {
+              type: "subscription_details",
+              quote_details: null,
+              subscription_details: {
+                metadata: null,
+                subscription: params.subscriptionId,
+              },
+            }
+          : null,
+        lines: { object: "list", data: [], has_more: false },
+      } as unknown as Stripe.Invoice;
+      invoices.set(invoice.id!, invoice);
+      return structuredClone(invoice);
+    },
+
+    finalizeInvoice(invoiceId) {
+      const invoice = find(invoices, invoiceId, "invoice");
+      if (invoice.status !== "draft") {
+        throw new Error(`Invoice ${invoiceId} is not a draft`);
+      }
+      invoice.status = "open";
+      invoice.number = `FAKE-${String(invoices.size).padStart(4, "0")}`;
+      invoice.due_date = nowSeconds() + PERIOD_SECONDS;
+      invoice.hosted_invoice_url = `https://invoice.fake.test/${invoiceId}`;
+      invoice.invoice_pdf = `https://invoice.fake.test/${invoiceId}/pdf`;
+
+      emit("invoice.finalized", invoice);
+      return structuredClone(invoice);
+    },
+
+    payInvoice(invoiceId) {
+      const invoice = find(invoices, invoiceId, "invoice");
+      if (invoice.status !== "open") {
+        throw new Error(`Invoice ${invoiceId} is not open`);
+      }
+
+      const charge = {
+        id: nextId("ch"),
+        object: "charge",
+        customer: invoice.customer,
+        amount: invoice.amount_due,
+        amount_refunded: 0,
+        currency: invoice.currency,
+        paid: true,
+        refunded: false,
+        disputed: false,
+        status: "succeeded",
+        created: nowSeconds(),
+      } as unknown as Stripe.Charge;
+      charges.set(charge.id, charge);
+
+      invoice.status = "paid";
+      invoice.amount_paid = invoice.amount_due;
+      emit("charge.succeeded", charge);
+      emit("invoice.paid", invoice);
+      return structuredClone(charge);
+    },
+
+    failInvoicePayment(invoiceId) {
+      const invoice = find(invoices, invoiceId, "invoice");
+      if (invoice.status !== "open") {
+        throw new Error(`Invoice ${invoiceId} is not open`);
+      }
+      emit("invoice.payment_failed", invoice);
+      return structuredClone(invoice);
+    },
+
+    refundCharge(chargeId, amount) {
+      const charge = find(charges, chargeId, "charge");
+      const refund = amount ?? charge.amount - charge.amount_refunded;
+      if (refund <= 0 || charge.amount_refunded + refund > charge.amount) {
+        throw new Error(`Cannot refund ${refund} of charge ${chargeId}`);
+      }
+
+      const previous = { amount_refunded: charge.amount_refunded };
+      charge.amount_refunded += refund;
+      charge.refunded = charge.amount_refunded === charge.amount;
+
+      emit("charge.refunded", charge, previous);
+      return structuredClone(charge);
+    },
+
+    disputeCharge(chargeId, reason = "fraudulent") {
+      const charge = find(charges, chargeId, "charge");
+      charge.disputed = true;
+
+      const dispute = {
+        id: nextId("dp"),
+        object: "dispute",
+        charge: chargeId,
+        amount: charge.amount - charge.amount_refunded,
+        currency: charge.currency,
+        reason,
+        status: "needs_response",
+        created: nowSeconds(),
+        evidence_details: {
+          due_by: nowSeconds() + 7 * DAY_SECONDS,
+          has_evidence: false,
+          past_due: false,
+          submission_count: 0,
+        },
+      } as unknown as Stripe.Dispute;
+
+      emit("charge.dispute.created", dispute);
+      return structuredClone(dispute);
+    },
+
+    createMeter(params) {
+      const meter = {
+        id: nextId("mtr"),
+        object: "billing.meter",
+        event_name: params.eventName,
+        display_name: params.eventName,
+        status: "active",
+        customer_mapping: {
+          type: "by_id",
+          event_payload_key: params.customerPayloadKey ?? "stripe_customer_id",
+        },
+        value_settings: {
+          event_payload_key: params.valuePayloadKey ?? "value",
+        },
+        default_aggregation: { formula: "sum" },
+        created: nowSeconds(),
+      } as unknown as Stripe.Billing.Meter;
+      meters.set(meter.id, meter);
+      return structuredClone(meter);
+    },
+
+    signWebhook(event, webhookSecret) {
+      const payload = JSON.stringify(event);
+      return {
+        payload,
+        signature: Stripe.webhooks.generateTestHeaderString({
+          payload,
+          secret: webhookSecret,
+        }),
+      };
+    },
+  };
+
+  return provider;
+}
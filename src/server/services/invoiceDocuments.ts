@@ -0,0 +1,623 @@
+import { createHash } from "crypto";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  PDFDocument,
+  type PDFFont,
+  type PDFPage,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+import { prisma } from "@/server/db/prisma";
+import {
+  type PricingSlice,
+  type TierBreakdownItem,
+} from "@/server/services/pricing";
+
+/**
+ * Invoice documents (PDF, UBL 2.1, JSON)
+ *
+ * Rendering is a pure function of the stored invoice: no current time, no
+ * random identifiers and a stable line order, so the same invoice always
+ * produces byte-identical output and therefore the same SHA-256 hash.
+ */
+
+export type InvoiceDocumentFormat = "pdf" | "ubl" | "json";
+
+type LineItemMetadata = {
+  tierBreakdown?: TierBreakdownItem[];
+  slices?: PricingSlice[];
+  tax?: {
+    name: string | null;
+    rate: number;
+    taxAmount: number;
+    exempt: boolean;
+    reverseCharge: boolean;
+  };
+  reason?: string;
+};
+
+type InvoiceTaxMetadata = {
+  name: string | null;
+  rate: number;
+  exempt: boolean;
+  reverseCharge: boolean;
+};
+
+export interface InvoiceDocument {
+  invoiceNumber: string;
+  type: "INVOICE" | "CREDIT_NOTE";
+  status: string;
+  issueDate: string;
+  dueDate: string;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  creditedInvoiceNumber: string | null;
+  seller: {
+    name: string;
+    address: string | null;
+    email: string | null;
+    taxId: string | null;
+    brandColor: string | null;
+  };
+  buyer: {
+    name: string;
+    externalId: string;
+    country: string | null;
+    taxId: string | null;
+  };
+  lines: Array<{
+    description: string;
+    quantity: string;
+    unitPrice: string;
+    totalPrice: string;
+    tiers: Array<{
+      tierLevel: number;
+      label: string;
+      periodStart: string;
+      periodEnd: string;
+      quantity: string;
+      unitPrice: string;
+      subtotal: string;
+    }>;
+    taxRate: string;
+    taxCategory: "S" | "E" | "AE" | "O";
+  }>;
+  tax: {
+    name: string | null;
+    rate: string;
+    category: "S" | "E" | "AE" | "O";
+    exempt: boolean;
+    reverseCharge: boolean;
+  };
+  subtotal: string;
+  taxTotal: string;
+  total: string;
+}
+
+export interface RenderedInvoiceDocument {
+  content: Uint8Array;
+  contentType: string;
+  filename: string;
+  sha256: string;
+}
+
+function toDateString(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatAmount(value: Decimal.Value) {
+  return new Decimal(value).toFixed(2);
+}
+
+function formatQuantity(value: Decimal.Value) {
+  // Trim trailing zeros so 1500.000000 prints as 1500
+  return new Decimal(value).toFixed(6).replace(/\.?0+$/, "");
+}
+
+function formatRate(rate: number) {
+  return new Decimal(rate)
+    .times(100)
+    .toFixed(2)
+    .replace(/\.?0+$/, "");
+}
+
+function taxCategory(tax: InvoiceTaxMetadata | undefined) {
+  if (!tax?.name) return "O" as const;
+  if (tax.reverseCharge) return "AE" as const;
+  if (tax.exempt) return "E" as const;
+  return "S" as const;
+}
+
+/**
+ * Load an invoice into the normalized document model shared by all formats
+ */
+export async function loadInvoiceDocument(where: {
+  invoiceId: string;
+  organizationId?: string;
+  tenantId?: string;
+}): Promise<InvoiceDocument | null> {
+  const invoice = await prisma.invoice.findFirst({
+    where: {
+      id: where.invoiceId,
+      ...(where.organizationId ? { organizationId: where.organizationId } : {}),
+      ...(where.tenantId ? { tenantId: where.tenantId } : {}),
+    },
+    include: {
+      lineItems: { orderBy: [{ eventType: "asc" }, { id: "asc" }] },
+      tenant: true,
+      organization: true,
+      creditedInvoice: { select: { invoiceNumber: true } },
+    },
+  });
+
+  if (!invoice) return null;
+
+  const invoiceTax = (invoice.metadata as { tax?: InvoiceTaxMetadata } | null)
+    ?.tax;
+  const isCreditNote = invoice.type === "CREDIT_NOTE";
+  // Credit notes are stored negated; documents show positive amounts
+  const sign = (value: Decimal) => (isCreditNote ? value.negated() : value);
+
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    type: invoice.type,
+    status: invoice.status,
+    issueDate: toDateString(invoice.finalizedAt ?? invoice.createdAt),
+    dueDate: toDateString(invoice.dueDate),
+    periodStart: toDateString(invoice.periodStart),
+    periodEnd: toDateString(invoice.periodEnd),
+    currency: invoice.currency,
+    creditedInvoiceNumber: invoice.creditedInvoice?.invoiceNumber ?? null,
+    seller: {
+      name: invoice.organization.billingName ?? invoice.organization.name,
+      address: invoice.organization.billingAddress,
+      email: invoice.organization.billingEmail,
+      taxId: invoice.organization.taxId,
+      brandColor: invoice.organization.brandColor,
+    },
+    buyer: {
+      name: invoice.tenant.name,
+      externalId: invoice.tenant.externalId,
+      country: invoice.tenant.country,
+      taxId: invoice.tenant.taxId,
+    },
+    lines: invoice.lineItems.map((item) => {
+      const metadata = (item.metadata ?? {}) as LineItemMetadata;
+      const lineTax = metadata.tax ?? invoiceTax;
+      return {
+        description: metadata.reason
+          ? `${item.eventType} (${metadata.reason})`
+          : item.eventType,
+        quantity: formatQuantity(item.quantity),
+        unitPrice: sign(item.unitPrice).toFixed(6),
+        totalPrice: formatAmount(sign(item.totalPrice)),
+        // Lines priced before time slicing only carry a flat tier breakdown
+        tiers: (
+          metadata.slices ?? [
+            {
+              periodStart: invoice.periodStart.toISOString(),
+              periodEnd: invoice.periodEnd.toISOString(),
+              tierBreakdown: metadata.tierBreakdown ?? [],
+            },
+          ]
+        ).flatMap((slice) =>
+          slice.tierBreakdown.map((tier) => ({
+            tierLevel: tier.tierLevel,
+            label: tier.label ?? `Tier ${tier.tierLevel}`,
+            periodStart: toDateString(new Date(slice.periodStart)),
+            periodEnd: toDateString(new Date(slice.periodEnd)),
+            quantity: formatQuantity(tier.quantity),
+            unitPrice: new Decimal(tier.unitPrice).toFixed(6),
+            subtotal: formatAmount(tier.subtotal),
+          })),
+        ),
+        taxRate: formatRate(lineTax?.rate ?? 0),
+        taxCategory: taxCategory(lineTax),
+      };
+    }),
+    tax: {
+      name: invoiceTax?.name ?? null,
+      rate: formatRate(invoiceTax?.rate ?? 0),
+      category: taxCategory(invoiceTax),
+      exempt: invoiceTax?.exempt ?? false,
+      reverseCharge: invoiceTax?.reverseCharge ?? false,
+    },
+    subtotal: formatAmount(sign(invoice.subtotal)),
+    taxTotal: formatAmount(sign(invoice.tax)),
+    total: formatAmount(sign(invoice.total)),
+  };
+}
+
+// JSON
+
+// Stable key order so the serialized output never depends on object
+// construction order
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [
+          key,
+          canonicalize((value as Record<string, unknown>)[key]),
+        ]),
+    );
+  }
+  return value;
+}
+
+export function renderInvoiceJson(document: InvoiceDocument): string {
+  return `${JSON.stringify(canonicalize(document), null, 2)}\n`;
+}
+
+// UBL 2.1
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function ublParty(party: {
+  name: string;
+  taxId: string | null;
+  country?: string | null;
+}) {
+  return [
+    "<cac:Party>",
+    `<cac:PartyName><cbc:Name>${escapeXml(party.name)}</cbc:Name></cac:PartyName>`,
+    party.country
+      ? `<cac:PostalAddress><cac:Country><cbc:IdentificationCode>${escapeXml(party.country)}</cbc:IdentificationCode></cac:Country></cac:PostalAddress>`
+      : "",
+    party.taxId
+      ? `<cac:PartyTaxScheme><cbc:CompanyID>${escapeXml(party.taxId)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : "",
+    "</cac:Party>",
+  ].join("");
+}
+
+export function renderInvoiceUbl(document: InvoiceDocument): string {
+  const isCreditNote = document.type === "CREDIT_NOTE";
+  const root = isCreditNote ? "CreditNote" : "Invoice";
+  const lineElement = isCreditNote ? "CreditNoteLine" : "InvoiceLine";
+  const quantityElement = isCreditNote
+    ? "CreditedQuantity"
+    : "InvoicedQuantity";
+  const currency = `currencyID="${document.currency}"`;
+
+  const lines = document.lines.map((line, index) =>
+    [
+      `<cac:${lineElement}>`,
+      `<cbc:ID>${index + 1}</cbc:ID>`,
+      `<cbc:${quantityElement} unitCode="C62">${line.quantity}</cbc:${quantityElement}>`,
+      `<cbc:LineExtensionAmount ${currency}>${line.totalPrice}</cbc:LineExtensionAmount>`,
+      "<cac:Item>",
+      `<cbc:Name>${escapeXml(line.description)}</cbc:Name>`,
+      "<cac:ClassifiedTaxCategory>",
+      `<cbc:ID>${line.taxCategory}</cbc:ID>`,
+      `<cbc:Percent>${line.taxRate}</cbc:Percent>`,
+      "<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>",
+      "</cac:ClassifiedTaxCategory>",
+      "</cac:Item>",
+      `<cac:Price><cbc:PriceAmount ${currency}>${line.unitPrice}</cbc:PriceAmount></cac:Price>`,
+      `</cac:${lineElement}>`,
+    ].join(""),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">`,
+    "<cbc:UBLVersionID>2.1</cbc:UBLVersionID>",
+    `<cbc:ID>${escapeXml(document.invoiceNumber)}</cbc:ID>`,
+    `<cbc:IssueDate>${document.issueDate}</cbc:IssueDate>`,
+    isCreditNote ? "" : `<cbc:DueDate>${document.dueDate}</cbc:DueDate>`,
+    isCreditNote
+      ? "<cbc:CreditNoteTypeCode>381</cbc:CreditNoteTypeCode>"
+      : "<cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>",
+    `<cbc:DocumentCurrencyCode>${document.currency}</cbc:DocumentCurrencyCode>`,
+    `<cac:InvoicePeriod><cbc:StartDate>${document.periodStart}</cbc:StartDate><cbc:EndDate>${document.periodEnd}</cbc:EndDate></cac:InvoicePeriod>`,
+    document.creditedInvoiceNumber
+      ? `<cac:BillingReference><cac:InvoiceDocumentReference><cbc:ID>${escapeXml(document.creditedInvoiceNumber)}</cbc:ID></cac:InvoiceDocumentReference></cac:BillingReference>`
+      : "",
+    `<cac:AccountingSupplierParty>${ublParty(document.seller)}</cac:AccountingSupplierParty>`,
+    `<cac:AccountingCustomerParty>${ublParty(document.buyer)}</cac:AccountingCustomerParty>`,
+    "<cac:TaxTotal>",
+    `<cbc:TaxAmount ${currency}>${document.taxTotal}</cbc:TaxAmount>`,
+    "<cac:TaxSubtotal>",
+    `<cbc:TaxableAmount ${currency}>${document.subtotal}</cbc:TaxableAmount>`,
+    `<cbc:TaxAmount ${currency}>${document.taxTotal}</cbc:TaxAmount>`,
+    "<cac:TaxCategory>",
+    `<cbc:ID>${document.tax.category}</cbc:ID>`,
+    `<cbc:Percent>${document.tax.rate}</cbc:Percent>`,
+    document.tax.reverseCharge
+      ? "<cbc:TaxExemptionReason>Reverse charge</cbc:TaxExemptionReason>"
+      : "",
+    "<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>",
+    "</cac:TaxCategory>",
+    "</cac:TaxSubtotal>",
+    "</cac:TaxTotal>",
+    "<cac:LegalMonetaryTotal>",
+    `<cbc:LineExtensionAmount ${currency}>${document.subtotal}</cbc:LineExtensionAmount>`,
+    `<cbc:TaxExclusiveAmount ${currency}>${document.subtotal}</cbc:TaxExclusiveAmount>`,
+    `<cbc:TaxInclusiveAmount ${currency}>${document.total}</cbc:TaxInclusiveAmount>`,
+    `<cbc:PayableAmount ${currency}>${document.total}</cbc:PayableAmount>`,
+    "</cac:LegalMonetaryTotal>",
+    ...lines,
+    `</${root}>`,
+    "",
+  ]
+    .filter((part) => part !== "")
+    .join("\n");
+}
+
+// PDF
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+
+// Standard PDF fonts only cover WinAnsi; replace anything outside it
+function toWinAnsi(text: string) {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+function parseHexColor(hex: string | null) {
+  const match = hex?.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return rgb(0.31, 0.27, 0.9);
+  return rgb(
+    parseInt(match[1], 16) / 255,
+    parseInt(match[2], 16) / 255,
+    parseInt(match[3], 16) / 255,
+  );
+}
+
+class PdfWriter {
+  private page: PDFPage;
+  y: number;
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly fonts: { regular: PDFFont; bold: PDFFont },
+  ) {
+    this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  get currentPage() {
+    return this.page;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(
+    value: string,
+    x: number,
+    options: { size?: number; bold?: boolean; align?: "left" | "right" } = {},
+  ) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.fonts.bold : this.fonts.regular;
+    const text = toWinAnsi(value);
+    const drawX =
+      options.align === "right" ? x - font.widthOfTextAtSize(text, size) : x;
+    this.page.drawText(text, {
+      x: drawX,
+      y: this.y,
+      size,
+      font,
+      color: rgb(0.1, 0.1, 0.1),
+    });
+  }
+
+  line(thickness = 0.5) {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness,
+      color: rgb(0.8, 0.8, 0.8),
+    });
+  }
+}
+
+export async function renderInvoicePdf(
+  document: InvoiceDocument,
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create({ updateMetadata: false });
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  // Metadata is derived from the invoice, never from the render time
+  const issued = new Date(`${document.issueDate}T00:00:00.000Z`);
+  pdf.setTitle(`${document.invoiceNumber}`);
+  pdf.setAuthor(toWinAnsi(document.seller.name));
+  pdf.setProducer("Usameter");
+  pdf.setCreator("Usameter");
+  pdf.setCreationDate(issued);
+  pdf.setModificationDate(issued);
+
+  const writer = new PdfWriter(pdf, fonts);
+  const right = PAGE_WIDTH - MARGIN;
+  const title = document.type === "CREDIT_NOTE" ? "CREDIT NOTE" : "INVOICE";
+
+  // Brand header
+  writer.currentPage.drawRectangle({
+    x: 0,
+    y: PAGE_HEIGHT - 8,
+    width: PAGE_WIDTH,
+    height: 8,
+    color: parseHexColor(document.seller.brandColor),
+  });
+
+  writer.text(document.seller.name, MARGIN, { size: 16, bold: true });
+  writer.text(title, right, { size: 16, bold: true, align: "right" });
+  writer.y -= 18;
+  writer.text(document.invoiceNumber, right, { align: "right" });
+
+  const sellerLines = [
+    ...(document.seller.address?.split("\n") ?? []),
+    document.seller.email,
+    document.seller.taxId ? `Tax ID: ${document.seller.taxId}` : null,
+  ].filter((line): line is string => !!line);
+  const headerFacts = [
+    `Issue date: ${document.issueDate}`,
+    ...(document.type === "INVOICE" ? [`Due date: ${document.dueDate}`] : []),
+    `Period: ${document.periodStart} - ${document.periodEnd}`,
+    ...(document.creditedInvoiceNumber
+      ? [`Credits: ${document.creditedInvoiceNumber}`]
+      : []),
+    ...(document.status === "DRAFT" ? ["DRAFT - not a valid invoice"] : []),
+  ];
+
+  for (let i = 0; i < Math.max(sellerLines.length, headerFacts.length); i++) {
+    writer.y -= 14;
+    if (sellerLines[i]) writer.text(sellerLines[i], MARGIN, { size: 9 });
+    if (headerFacts[i])
+      writer.text(headerFacts[i], right, { size: 9, align: "right" });
+  }
+
+  // Bill to
+  writer.y -= 30;
+  writer.text("Bill to", MARGIN, { size: 9, bold: true });
+  for (const line of [
+    document.buyer.name,
+    `Customer ID: ${document.buyer.externalId}`,
+    document.buyer.country ? `Country: ${document.buyer.country}` : null,
+    document.buyer.taxId ? `Tax ID: ${document.buyer.taxId}` : null,
+  ]) {
+    if (!line) continue;
+    writer.y -= 13;
+    writer.text(line, MARGIN, { size: 9 });
+  }
+
+  // Line items
+  const columns = { quantity: 330, unitPrice: 430, total: right };
+  writer.y -= 30;
+  writer.text("Description", MARGIN, { size: 9, bold: true });
+  writer.text("Quantity", columns.quantity, {
+    size: 9,
+    bold: true,
+    align: "right",
+  });
+  writer.text("Unit price", columns.unitPrice, {
+    size: 9,
+    bold: true,
+    align: "right",
+  });
+  writer.text("Amount", columns.total, { size: 9, bold: true, align: "right" });
+  writer.y -= 6;
+  writer.line();
+
+  for (const line of document.lines) {
+    writer.ensureSpace(18 + line.tiers.length * 12);
+    writer.y -= 16;
+    writer.text(line.description, MARGIN, { size: 10 });
+    writer.text(line.quantity, columns.quantity, { align: "right" });
+    writer.text(line.unitPrice, columns.unitPrice, { align: "right" });
+    writer.text(line.totalPrice, columns.total, { align: "right" });
+
+    // Show the price period only when the line spans a price change
+    const isSliced =
+      new Set(line.tiers.map((tier) => tier.periodStart)).size > 1;
+
+    for (const tier of line.tiers) {
+      writer.y -= 12;
+      writer.text(
+        isSliced
+          ? `${tier.label} (${tier.periodStart} - ${tier.periodEnd})`
+          : tier.label,
+        MARGIN + 12,
+        { size: 8 },
+      );
+      writer.text(tier.quantity, columns.quantity, {
+        size: 8,
+        align: "right",
+      });
+      writer.text(tier.unitPrice, columns.unitPrice, {
+        size: 8,
+        align: "right",
+      });
+      writer.text(tier.subtotal, columns.total, { size: 8, align: "right" });
+    }
+
+    writer.y -= 6;
+    writer.line();
+  }
+
+  // Totals
+  const taxLabel = document.tax.name
+    ? document.tax.reverseCharge
+      ? `${document.tax.name} (reverse charge)`
+      : document.tax.exempt
+        ? `${document.tax.name} (exempt)`
+        : `${document.tax.name} (${document.tax.rate}%)`
+    : "Tax";
+
+  writer.ensureSpace(80);
+  for (const [label, value, bold] of [
+    ["Subtotal", document.subtotal, false],
+    [taxLabel, document.taxTotal, false],
+    [`Total (${document.currency})`, document.total, true],
+  ] as const) {
+    writer.y -= 16;
+    writer.text(label, columns.unitPrice, { align: "right", bold });
+    writer.text(value, columns.total, { align: "right", bold });
+  }
+
+  if (document.tax.reverseCharge) {
+    writer.ensureSpace(30);
+    writer.y -= 30;
+    writer.text(
+      "Reverse charge: VAT to be accounted for by the recipient.",
+      MARGIN,
+      { size: 9 },
+    );
+  }
+
+  return pdf.save({ useObjectStreams: false });
+}
+
+/**
+ * Render an invoice document in the requested format with its content hash
+ */
+export async function renderInvoiceDocument(
+  document: InvoiceDocument,
+  format: InvoiceDocumentFormat,
+): Promise<RenderedInvoiceDocument> {
+  let content: Uint8Array;
+  let contentType: string;
+
+  switch (format) {
+    case "pdf":
+      content = await renderInvoicePdf(document);
+      contentType = "application/pdf";
+      break;
+    case "ubl":
+      content = new TextEncoder().encode(renderInvoiceUbl(document));
+      contentType = "application/xml";
+      break;
+    case "json":
+      content = new TextEncoder().encode(renderInvoiceJson(document));
+      contentType = "application/json";
+      break;
+  }
+
+  const extension = format === "ubl" ? "xml" : format;
+
+  return {
+    content,
+    contentType,
+    filename: `${document.invoiceNumber}.${extension}`,
+    sha256: createHash("sha256").update(content).digest("hex"),
+  };
+}
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  issueCreditNote,
+  markInvoicePaid,
+  voidInvoice,
+} from "@/server/services/invoiceLifecycle";
+import { money } from "@/server/services/money";
+
+type Row = Record<string, unknown>;
+
+const db = vi.hoisted(() => ({
+  invoices: new Map<string, Row>(),
+  // Status of each invoice when its line items were written
+  lineItemWrites: [] as string[],
+}));
+
+vi.mock("@/server/db/prisma", () => {
+  const tx = {
+    invoice: {
+      findFirst: vi.fn(
+        async ({ where }: { where: { id: string; type?: string } }) => {
+          const invoice = db.invoices.get(where.id);
+          if (!invoice || (where.type && invoice.type !== where.type)) {
+            return null;
+          }
+          return { ...invoice, lineItems: [], creditNotes: [] };
+        },
+      ),
+      updateMany: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: { id: string; status: string };
+          data: Row;
+        }) => {
+          const invoice = db.invoices.get(where.id);
+          if (invoice?.status !== where.status) return { count: 0 };
+          Object.assign(invoice, data);
+          return { count: 1 };
+        },
+      ),
+      create: vi.fn(
+        async ({ data }: { data: Row & { lineItems: { create: Row[] } } }) => {
+          const { lineItems, ...invoice } = data;
+          db.lineItemWrites.push(
+            ...lineItems.create.map(() => invoice.status as string),
+          );
+          db.invoices.set("note_1", { ...invoice, id: "note_1" });
+          return db.invoices.get("note_1")!;
+        },
+      ),
+      update: vi.fn(
+        async ({ where, data }: { where: { id: string }; data: Row }) =>
+          Object.assign(db.invoices.get(where.id)!, data),
+      ),
+      findUniqueOrThrow: vi.fn(
+        async ({ where }: { where: { id: string } }) =>
+          db.invoices.get(where.id)!,
+      ),
+    },
+    usageEvent: { updateMany: vi.fn(async () => ({ count: 0 })) },
+    auditLog: { create: vi.fn(async () => ({})) },
+  };
+  return {
+    prisma: {
+      $transaction: vi.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock("@/server/services/invoiceNumbering", () => ({
+  allocateInvoiceNumber: vi.fn(async () => "INV-2026-0002"),
+}));
+
+vi.mock("@/server/services/credits", () => ({
+  reverseCreditDrawdown: vi.fn(async () => money(0)),
+}));
+
+function invoice(id: string, type: string, status: string) {
+  db.invoices.set(id, {
+    id,
+    organizationId: "org_1",
+    tenantId: "tenant_1",
+    invoiceNumber: `INV-${id}`,
+    type,
+    status,
+    subtotal: money(100),
+    tax: money(19),
+    finalizedAt: new Date("2026-02-01T00:00:00Z"),
+    organization: { roundingMode: "HALF_UP" },
+  });
+}
+
+describe("credit note lifecycle", () => {
+  beforeEach(() => {
+    db.invoices.clear();
+    db.lineItemWrites = [];
+  });
+
+  it("refuses to mark a credit note paid", async () => {
+    invoice("note_1", "CREDIT_NOTE", "PENDING");
+
+    await expect(
+      markInvoicePaid({ invoiceId: "note_1", organizationId: "org_1" }),
+    ).rejects.toMatchObject({ code: "INVALID_TRANSITION" });
+    expect(db.invoices.get("note_1")!.status).toBe("PENDING");
+  });
+
+  it("voids a credit note issued in error", async () => {
+    invoice("note_1", "CREDIT_NOTE", "PENDING");
+
+    await voidInvoice({ invoiceId: "note_1", organizationId: "org_1" });
+
+    expect(db.invoices.get("note_1")!.status).toBe("CANCELLED");
+  });
+
+  it("writes a credit note's line items before issuing it", async () => {
+    invoice("inv_1", "INVOICE", "PENDING");
+
+    const note = await issueCreditNote({
+      invoiceId: "inv_1",
+      organizationId: "org_1",
+      amount: 40,
+      reason: "Goodwill",
+    });
+
+    expect(db.lineItemWrites).toEqual(["DRAFT"]);
+    expect(note.status).toBe("PENDING");
+  });
+});
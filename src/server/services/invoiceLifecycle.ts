@@ -0,0 +1,362 @@
+import {
+  type InvoiceStatus,
+  type InvoiceType,
+  type Prisma,
+} from "@prisma/client";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import { allocateInvoiceNumber } from "@/server/services/invoiceNumbering";
+import { reverseCreditDrawdown } from "@/server/services/credits";
+import { money, roundMoney, sumMoney } from "@/server/services/money";
+
+/**
+ * Allowed invoice status transitions
+ *
+ * PAID and CANCELLED are terminal: a paid invoice is corrected by issuing a
+ * credit note against it, never by changing its status.
+ */
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  DRAFT: ["PENDING", "CANCELLED"],
+  PENDING: ["PAID", "OVERDUE", "CANCELLED"],
+  OVERDUE: ["PAID", "CANCELLED"],
+  PAID: [],
+  CANCELLED: [],
+};
+
+/**
+ * Allowed credit note status transitions
+ *
+ * A credit note is issued PENDING and settled against the invoice it credits,
+ * so it is never paid or overdue. One issued in error is voided, which returns
+ * its amount to the invoice's creditable balance.
+ */
+export const CREDIT_NOTE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  DRAFT: [],
+  PENDING: ["CANCELLED"],
+  PAID: [],
+  OVERDUE: [],
+  CANCELLED: [],
+};
+
+export class InvoiceLifecycleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NOT_FOUND" | "INVALID_TRANSITION" | "CONFLICT",
+  ) {
+    super(message);
+    this.name = "InvoiceLifecycleError";
+  }
+}
+
+export function canTransition(
+  from: InvoiceStatus,
+  to: InvoiceStatus,
+  type: InvoiceType = "INVOICE",
+) {
+  const transitions =
+    type === "CREDIT_NOTE" ? CREDIT_NOTE_TRANSITIONS : INVOICE_TRANSITIONS;
+  return transitions[from].includes(to);
+}
+
+interface TransitionOptions {
+  invoiceId: string;
+  organizationId: string;
+  to: InvoiceStatus;
+  action: string;
+  userId?: string;
+  data?: Prisma.InvoiceUpdateManyMutationInput;
+  changes?: Record<string, Prisma.InputJsonValue>;
+  // Runs inside the transition transaction after the status has changed
+  afterTransition?: (
+    tx: TransactionClient,
+    invoice: { id: string; tenantId: string },
+  ) => Promise<Record<string, Prisma.InputJsonValue> | void>;
+}
+
+/**
+ * Move an invoice to a new status and record the transition in the audit log
+ *
+ * The status update is conditional on the status read at the start, so two
+ * concurrent transitions on the same invoice cannot both succeed.
+ */
+export async function transitionInvoice(options: TransitionOptions) {
+  const { invoiceId, organizationId, to } = options;
+
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const invoice = await tx.invoice.findFirst({
+      where: { id: invoiceId, organizationId },
+    });
+
+    if (!invoice) {
+      throw new InvoiceLifecycleError("Invoice not found", "NOT_FOUND");
+    }
+
+    if (!canTransition(invoice.status, to, invoice.type)) {
+      const document =
+        invoice.type === "CREDIT_NOTE" ? "credit note" : "invoice";
+      throw new InvoiceLifecycleError(
+        `Cannot move ${document} ${invoice.invoiceNumber} from ${invoice.status} to ${to}`,
+        "INVALID_TRANSITION",
+      );
+    }
+
+    const updated = await tx.invoice.updateMany({
+      where: { id: invoice.id, status: invoice.status },
+      data: { ...options.data, status: to },
+    });
+
+    if (updated.count === 0) {
+      throw new InvoiceLifecycleError(
+        `Invoice ${invoice.invoiceNumber} was modified concurrently`,
+        "CONFLICT",
+      );
+    }
+
+    const extraChanges = await options.afterTransition?.(tx, invoice);
+
+    await tx.auditLog.create({
+      data: {
+        organizationId,
+        tenantId: invoice.tenantId,
+        userId: options.userId,
+        action: options.action,
+        resourceType: "invoice",
+        resourceId: invoice.id,
+        changes: {
+          from: invoice.status,
+          to,
+          ...options.changes,
+          ...extraChanges,
+        },
+      },
+    });
+
+    return tx.invoice.findUniqueOrThrow({
+      where: { id: invoice.id },
+      include: { lineItems: true },
+    });
+  });
+}
+
+/**
+ * DRAFT -> PENDING. Line items are locked from this point on: the database
+ * rejects line item writes on invoices that are not DRAFT.
+ */
+export async function finalizeInvoice(options: {
+  invoiceId: string;
+  organizationId: string;
+  userId?: string;
+}) {
+  const finalizedAt = new Date();
+  return transitionInvoice({
+    ...options,
+    to: "PENDING",
+    action: "INVOICE_FINALIZED",
+    data: { finalizedAt },
+    changes: { finalizedAt: finalizedAt.toISOString() },
+  });
+}
+
+/**
+ * PENDING/OVERDUE -> PAID
+ */
+export async function markInvoicePaid(options: {
+  invoiceId: string;
+  organizationId: string;
+  userId?: string;
+  paidAt?: Date;
+  reference?: string;
+}) {
+  const paidAt = options.paidAt ?? new Date();
+  return transitionInvoice({
+    ...options,
+    to: "PAID",
+    action: "INVOICE_PAID",
+    data: { paidAt },
+    changes: {
+      paidAt: paidAt.toISOString(),
+      ...(options.reference ? { reference: options.reference } : {}),
+    },
+  });
+}
+
+/**
+ * DRAFT/PENDING/OVERDUE -> CANCELLED
+ *
+ * Releases the usage events linked to the invoice so the period can be
+ * billed again, and returns any credit it drew down to its grants.
+ */
+export async function voidInvoice(options: {
+  invoiceId: string;
+  organizationId: string;
+  userId?: string;
+  reason?: string;
+}) {
+  const voidedAt = new Date();
+  return transitionInvoice({
+    ...options,
+    to: "CANCELLED",
+    action: "INVOICE_VOIDED",
+    data: { voidedAt },
+    changes: {
+      voidedAt: voidedAt.toISOString(),
+      ...(options.reason ? { reason: options.reason } : {}),
+    },
+    afterTransition: async (tx, invoice) => {
+      const released = await tx.usageEvent.updateMany({
+        where: { invoiceId: invoice.id },
+        data: { invoiceId: null, billedAt: null },
+      });
+      const returnedCredit = await reverseCreditDrawdown(tx, invoice.id);
+      return {
+        releasedEvents: released.count,
+        returnedCredit: returnedCredit.toFixed(2),
+      };
+    },
+  });
+}
+
+/**
+ * Issue a credit note against a finalized invoice
+ *
+ * Without an amount the whole remaining balance is credited by mirroring the
+ * invoice's line items. A partial credit is a single line for the given net
+ * amount, taxed at the invoice's effective tax rate.
+ */
+export async function issueCreditNote(options: {
+  invoiceId: string;
+  organizationId: string;
+  userId?: string;
+  amount?: number;
+  reason: string;
+}) {
+  const { invoiceId, organizationId } = options;
+
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const invoice = await tx.invoice.findFirst({
+      where: { id: invoiceId, organizationId, type: "INVOICE" },
+      include: {
+        lineItems: true,
+        creditNotes: true,
+        organization: { select: { roundingMode: true } },
+      },
+    });
+
+    if (!invoice) {
+      throw new InvoiceLifecycleError("Invoice not found", "NOT_FOUND");
+    }
+
+    if (!invoice.finalizedAt || invoice.status === "CANCELLED") {
+      throw new InvoiceLifecycleError(
+        `Credit notes can only be issued for finalized invoices (${invoice.invoiceNumber} is ${invoice.status})`,
+        "INVALID_TRANSITION",
+      );
+    }
+
+    const subtotal = money(invoice.subtotal);
+    const alreadyCredited = sumMoney(
+      invoice.creditNotes
+        .filter((note) => note.status !== "CANCELLED")
+        .map((note) => money(note.subtotal).negated()),
+    );
+    const creditable = subtotal.minus(alreadyCredited);
+    // The remaining balance is credited as is; explicit amounts are cents
+    const amount =
+      options.amount === undefined
+        ? creditable
+        : roundMoney(options.amount, invoice.organization.roundingMode);
+
+    if (amount.lte(0) || amount.gt(creditable)) {
+      throw new InvoiceLifecycleError(
+        `Credit amount must be between 0 and the remaining creditable ${creditable.toFixed(2)}`,
+        "INVALID_TRANSITION",
+      );
+    }
+
+    const isFullCredit = options.amount === undefined && alreadyCredited.eq(0);
+
+    const lineItems = isFullCredit
+      ? invoice.lineItems.map((item) => ({
+          eventType: item.eventType,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice.negated(),
+          totalPrice: item.totalPrice.negated(),
+          metadata: {
+            creditedLineItemId: item.id,
+            reason: options.reason,
+          },
+        }))
+      : [
+          {
+            eventType: "credit",
+            quantity: 1,
+            unitPrice: amount.negated(),
+            totalPrice: amount.negated(),
+            metadata: { reason: options.reason },
+          },
+        ];
+
+    const invoiceNumber = await allocateInvoiceNumber(tx, organizationId);
+    const now = new Date();
+    // A partial credit is taxed at the invoice's effective rate
+    const tax = (
+      isFullCredit
+        ? money(invoice.tax)
+        : subtotal.gt(0)
+          ? roundMoney(
+              amount.times(invoice.tax).dividedBy(subtotal),
+              invoice.organization.roundingMode,
+            )
+          : money(0)
+    ).negated();
+
+    const draft = await tx.invoice.create({
+      data: {
+        tenantId: invoice.tenantId,
+        organizationId,
+        invoiceNumber,
+        type: "CREDIT_NOTE",
+        creditedInvoiceId: invoice.id,
+        periodStart: invoice.periodStart,
+        periodEnd: invoice.periodEnd,
+        // Line items can only be written while DRAFT; issued below
+        status: "DRAFT",
+        subtotal: amount.negated(),
+        tax,
+        total: amount.negated().plus(tax),
+        currency: invoice.currency,
+        exchangeRate: invoice.exchangeRate,
+        dueDate: now,
+        finalizedAt: now,
+        metadata: {
+          reason: options.reason,
+          creditedInvoiceNumber: invoice.invoiceNumber,
+        },
+        lineItems: { create: lineItems },
+      },
+    });
+    const creditNote = await tx.invoice.update({
+      where: { id: draft.id },
+      data: { status: "PENDING" },
+      include: { lineItems: true },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        organizationId,
+        tenantId: invoice.tenantId,
+        userId: options.userId,
+        action: "INVOICE_CREDIT_NOTE_ISSUED",
+        resourceType: "invoice",
+        resourceId: invoice.id,
+        changes: {
+          creditNoteId: creditNote.id,
+          creditNoteNumber: creditNote.invoiceNumber,
+          amount: amount.toFixed(2),
+          reason: options.reason,
+        },
+      },
+    });
+
+    return creditNote;
+  });
+}
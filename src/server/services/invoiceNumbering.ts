@@ -0,0 +1,102 @@
+import { type TransactionClient } from "@/server/db/prisma";
+
+export interface InvoiceNumberFormat {
+  prefix: string | null;
+  padding: number;
+  resetYearly: boolean;
+}
+
+/**
+ * Render an invoice number, e.g. INV-ACME-000042 or INV-ACME-2026-000042
+ */
+export function formatInvoiceNumber(
+  format: InvoiceNumberFormat,
+  orgSlug: string,
+  year: number,
+  sequenceNumber: number,
+): string {
+  const prefix = format.prefix ?? `INV-${orgSlug.toUpperCase()}`;
+  const number = String(sequenceNumber).padStart(format.padding, "0");
+  return format.resetYearly
+    ? `${prefix}-${year}-${number}`
+    : `${prefix}-${number}`;
+}
+
+/**
+ * Highest sequence number an organization has issued, read from the numeric
+ * suffix of its invoice numbers
+ *
+ * Seeds a sequence created after invoices already exist, or one switched
+ * off yearly resets, and covers every year's numbers. Unlike a count, it
+ * stays correct once invoices have been deleted.
+ */
+export async function highestIssuedInvoiceNumber(
+  tx: TransactionClient,
+  organizationId: string,
+): Promise<number> {
+  const [row] = await tx.$queryRaw<Array<{ highest: bigint | null }>>`
+    SELECT MAX(SUBSTRING("invoiceNumber" FROM '([0-9]+)$')::BIGINT) AS "highest"
+    FROM "invoices"
+    WHERE "organizationId" = ${organizationId}
+  `;
+  return Number(row?.highest ?? 0);
+}
+
+/**
+ * Allocate the next invoice number for an organization
+ *
+ * Must be called inside the transaction that creates the invoice: the UPDATE
+ * takes a row lock on the organization's sequence, so concurrent generators
+ * queue behind each other instead of colliding, and a rolled-back invoice
+ * also rolls back its number (no gaps).
+ */
+export async function allocateInvoiceNumber(
+  tx: TransactionClient,
+  organizationId: string,
+  issuedAt: Date = new Date(),
+): Promise<string> {
+  const year = issuedAt.getUTCFullYear();
+
+  const organization = await tx.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { slug: true, invoiceSequence: { select: { id: true } } },
+  });
+
+  if (!organization.invoiceSequence) {
+    // First invoice under sequencing - continue after any existing invoices
+    const lastNumber = await highestIssuedInvoiceNumber(tx, organizationId);
+
+    await tx.invoiceSequence.upsert({
+      where: { organizationId },
+      create: { organizationId, year, lastNumber },
+      update: {},
+    });
+  }
+
+  const [sequence] = await tx.$queryRaw<
+    Array<InvoiceNumberFormat & { year: number; lastNumber: number }>
+  >`
+    UPDATE "invoice_sequences"
+    SET "lastNumber" = CASE
+          WHEN "resetYearly" AND "year" <> ${year} THEN 1
+          ELSE "lastNumber" + 1
+        END,
+        "year" = ${year},
+        "updatedAt" = NOW()
+    WHERE "organizationId" = ${organizationId}
+    RETURNING "prefix", "padding", "resetYearly", "year", "lastNumber"
+  `;
+
+  if (!sequence) {
+    throw new Error(
+      `Invoice sequence missing for organization ${organizationId}`,
+    );
+  }
+
+  return formatInvoiceNumber(
+    sequence,
+    organization.slug,
+    sequence.year,
+    sequence.lastNumber,
+  );
+}
@@ -0,0 +1,235 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import fc from "fast-check";
+import type { Decimal } from "@prisma/client/runtime/library";
+import {
+  DuplicateInvoiceError,
+  generateInvoiceForTenant,
+} from "@/server/services/invoicing";
+import { money, roundMoney, sumMoney } from "@/server/services/money";
+
+const db = vi.hoisted(() => ({
+  organization: {} as Record<string, unknown>,
+  snapshots: [] as Array<Record<string, unknown>>,
+  tiers: [] as Array<Record<string, unknown>>,
+  taxRate: null as string | null,
+  // An invoice already covering the period
+  existing: null as { invoiceNumber: string } | null,
+  created: null as null | {
+    subtotal: Decimal;
+    tax: Decimal;
+    total: Decimal;
+    lineItems: {
+      create: Array<{
+        totalPrice: Decimal;
+        metadata: { tax: { taxAmount: string } };
+      }>;
+    };
+  },
+}));
+
+vi.mock("@/server/db/prisma", () => {
+  const tx = {
+    invoice: {
+      findFirst: vi.fn(async () => db.existing),
+      create: vi.fn(async ({ data }) => {
+        db.created = data;
+        return { id: "inv_1", ...data };
+      }),
+    },
+    usageEvent: { updateMany: vi.fn(async () => ({ count: 0 })) },
+  };
+  return {
+    prisma: {
+      tenant: {
+        findUniqueOrThrow: vi.fn(async () => ({
+          country: "DE",
+          currency: null,
+        })),
+      },
+      organization: {
+        findUniqueOrThrow: vi.fn(async () => db.organization),
+      },
+      usageSnapshot: { findMany: vi.fn(async () => db.snapshots) },
+      pricingTier: { findMany: vi.fn(async () => db.tiers) },
+      eventPricing: { findMany: vi.fn(async () => []) },
+      $transaction: vi.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock("@/server/services/tax", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/server/services/tax")>()),
+  resolveTaxRule: vi.fn(async () =>
+    db.taxRate === null
+      ? null
+      : {
+          id: "tax_1",
+          name: "VAT",
+          country: "DE",
+          jurisdiction: null,
+          rate: money(db.taxRate),
+          exempt: false,
+          reverseCharge: false,
+        },
+  ),
+}));
+
+vi.mock("@/server/services/currency", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/server/services/currency")>()),
+  resolveExchangeRate: vi.fn(async () => money(1)),
+}));
+
+vi.mock("@/server/services/credits", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/server/services/credits")>()),
+  lockDrawableGrants: vi.fn(async () => []),
+  recordCreditDrawdown: vi.fn(async () => undefined),
+}));
+
+vi.mock("@/server/services/contracts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/server/services/contracts")>()),
+  calculateCommitmentShortfalls: vi.fn(async () => []),
+}));
+
+vi.mock("@/server/services/invoiceNumbering", () => ({
+  allocateInvoiceNumber: vi.fn(async () => "INV-TEST-000001"),
+}));
+
+const periodStart = new Date("2026-01-01T00:00:00Z");
+const periodEnd = new Date("2026-01-31T23:59:59Z");
+
+const decimal = (max: number) =>
+  fc
+    .bigInt({ min: BigInt(0), max: BigInt(max) })
+    .map((micros) => money(micros.toString()).div(1e6));
+
+// One single-tier event type per entry, each with a day of usage
+const eventTypesArb = fc.uniqueArray(
+  fc.record({
+    eventType: fc.stringMatching(/^[a-z]{1,8}$/),
+    quantity: decimal(1e13),
+    unitPrice: decimal(1e7),
+  }),
+  { minLength: 1, maxLength: 12, selector: (entry) => entry.eventType },
+);
+
+const taxRateArb = fc.option(
+  fc.integer({ min: 0, max: 2500 }).map((basisPoints) => basisPoints / 10000),
+  { nil: null },
+);
+
+beforeEach(() => {
+  db.created = null;
+  db.existing = null;
+});
+
+describe.each([
+  ["HALF_UP", "PER_LINE"],
+  ["HALF_UP", "PER_INVOICE"],
+  ["HALF_EVEN", "PER_LINE"],
+  ["HALF_EVEN", "PER_INVOICE"],
+] as const)("generateInvoiceForTenant (%s, %s)", (mode, scope) => {
+  it("line items sum exactly to the subtotal, and taxes to the tax", async () => {
+    await fc.assert(
+      fc.asyncProperty(eventTypesArb, taxRateArb, async (entries, taxRate) => {
+        db.organization = {
+          roundingMode: mode,
+          roundingScope: scope,
+          currency: "USD",
+        };
+        db.taxRate = taxRate === null ? null : String(taxRate);
+        db.snapshots = entries.map((entry) => ({
+          eventType: entry.eventType,
+          snapshotDate: periodStart,
+          totalQuantity: entry.quantity,
+        }));
+        db.tiers = entries.map((entry, index) => ({
+          id: `tier_${index}`,
+          organizationId: "org_1",
+          eventType: entry.eventType,
+          tierLevel: 1,
+          minQuantity: money(0),
+          maxQuantity: null,
+          unitPrice: entry.unitPrice,
+          currency: "USD",
+          effectiveFrom: periodStart,
+          effectiveTo: null,
+        }));
+
+        await generateInvoiceForTenant({
+          tenantId: "tenant_1",
+          organizationId: "org_1",
+          periodStart,
+          periodEnd,
+        });
+
+        const invoice = db.created!;
+        const lines = invoice.lineItems.create;
+        const exact = entries
+          .map((entry) => entry.quantity.times(entry.unitPrice))
+          .filter(
+            (price, index) => price.gt(0) || entries[index].quantity.gt(0),
+          );
+
+        expect(lines).toHaveLength(exact.length);
+        for (const line of lines) {
+          expect(line.totalPrice.decimalPlaces()).toBeLessThanOrEqual(2);
+        }
+        expect(
+          sumMoney(lines.map((line) => line.totalPrice)).eq(invoice.subtotal),
+        ).toBe(true);
+        expect(
+          sumMoney(lines.map((line) => line.metadata.tax.taxAmount)).eq(
+            invoice.tax,
+          ),
+        ).toBe(true);
+        expect(invoice.subtotal.plus(invoice.tax).eq(invoice.total)).toBe(true);
+
+        const expectedSubtotal =
+          scope === "PER_INVOICE"
+            ? roundMoney(sumMoney(exact), mode)
+            : sumMoney(exact.map((price) => roundMoney(price, mode)));
+        expect(invoice.subtotal.eq(expectedSubtotal)).toBe(true);
+      }),
+      { numRuns: 50 },
+    );
+  });
+});
+
+describe("generateInvoiceForTenant", () => {
+  const options = {
+    tenantId: "tenant_1",
+    organizationId: "org_1",
+    periodStart,
+    periodEnd,
+  };
+
+  beforeEach(() => {
+    db.organization = {
+      roundingMode: "HALF_UP",
+      roundingScope: "PER_LINE",
+      currency: "USD",
+    };
+    db.taxRate = null;
+    db.snapshots = [];
+    db.tiers = [];
+  });
+
+  it("refuses a period the tenant is already invoiced for", async () => {
+    db.existing = { invoiceNumber: "INV-TEST-000001" };
+
+    await expect(generateInvoiceForTenant(options)).rejects.toBeInstanceOf(
+      DuplicateInvoiceError,
+    );
+    expect(db.created).toBeNull();
+  });
+
+  it("skips a tenant with nothing to charge when asked to", async () => {
+    await expect(
+      generateInvoiceForTenant({ ...options, skipEmpty: true }),
+    ).resolves.toBeNull();
+    expect(db.created).toBeNull();
+
+    await generateInvoiceForTenant(options);
+    expect(db.created).not.toBeNull();
+  });
+});
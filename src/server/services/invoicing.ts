@@ -0,0 +1,468 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import { calculateLineTax, resolveTaxRule } from "@/server/services/tax";
+import { allocateInvoiceNumber } from "@/server/services/invoiceNumbering";
+import { resolveExchangeRate } from "@/server/services/currency";
+import {
+  CREDIT_EVENT_TYPE,
+  lockDrawableGrants,
+  planCreditDrawdown,
+  recordCreditDrawdown,
+} from "@/server/services/credits";
+import {
+  calculateCommitmentShortfalls,
+  SHORTFALL_EVENT_TYPE,
+  type ShortfallLineMetadata,
+} from "@/server/services/contracts";
+import {
+  priceEventUsage,
+  toPricingModelConfig,
+  type PricingSlice,
+  type PricingTier,
+  type TierBreakdownItem,
+} from "@/server/services/pricing";
+import {
+  allocateRounded,
+  money,
+  QUANTITY_SCALE,
+  roundMoney,
+  sumMoney,
+  type RoundingPolicy,
+} from "@/server/services/money";
+
+type UsageSnapshot = {
+  id: string;
+  tenantId: string;
+  organizationId: string;
+  snapshotDate: Date;
+  eventType: string;
+  totalQuantity: Decimal;
+  metadata: unknown;
+  createdAt: Date;
+};
+
+// Amounts are exact; generateInvoiceForTenant rounds them to currency
+// precision under the organization's rounding policy
+export interface CalculatedLineItem {
+  eventType: string;
+  quantity: Decimal;
+  unitPrice: Decimal;
+  totalPrice: Decimal;
+  tierBreakdown: TierBreakdownItem[];
+  slices: PricingSlice[];
+}
+
+// Concurrent generators queue on the organization's sequence row, so allow
+// transactions to wait for a connection and the lock longer than the defaults
+const INVOICE_TRANSACTION_OPTIONS = { maxWait: 10000, timeout: 30000 };
+
+export interface GenerateInvoiceOptions {
+  tenantId: string;
+  organizationId: string;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export class DuplicateInvoiceError extends Error {
+  constructor(
+    public readonly tenantId: string,
+    public readonly invoiceNumber: string,
+  ) {
+    super(
+      `Tenant ${tenantId} is already invoiced for this period (${invoiceNumber})`,
+    );
+    this.name = "DuplicateInvoiceError";
+  }
+}
+
+export interface CalculateLineItemsOptions extends GenerateInvoiceOptions {
+  currency: string; // Currency to price in
+  baseCurrency: string; // The organization's currency
+}
+
+/**
+ * Build priced line items for a tenant's usage snapshots in a billing period
+ *
+ * Each event type is priced under its configured pricing model (graduated
+ * when unset). Event types with a flat fee get a line even without usage.
+ *
+ * Event types with tiers in the invoice currency use those. Otherwise the
+ * tiers in the organization's currency are converted at the rate in force
+ * at the end of the period, as are flat fees, which are always set in the
+ * organization's currency.
+ */
+export async function calculateLineItems(
+  options: CalculateLineItemsOptions,
+): Promise<CalculatedLineItem[]> {
+  const [snapshots, pricingTiers, eventPricing] = await Promise.all([
+    prisma.usageSnapshot.findMany({
+      where: {
+        tenantId: options.tenantId,
+        snapshotDate: {
+          gte: options.periodStart,
+          lte: options.periodEnd,
+        },
+      },
+    }),
+    prisma.pricingTier.findMany({
+      where: {
+        organizationId: options.organizationId,
+        effectiveFrom: {
+          lte: options.periodEnd,
+        },
+        OR: [
+          { effectiveTo: null },
+          { effectiveTo: { gte: options.periodStart } },
+        ],
+      },
+      orderBy: {
+        tierLevel: "asc",
+      },
+    }),
+    prisma.eventPricing.findMany({
+      where: { organizationId: options.organizationId },
+    }),
+  ]);
+
+  // Group snapshots by event type
+  const usageByEventType = snapshots.reduce(
+    (
+      acc: Record<string, Array<{ date: Date; quantity: Decimal }>>,
+      snapshot: UsageSnapshot,
+    ) => {
+      (acc[snapshot.eventType] ??= []).push({
+        date: snapshot.snapshotDate,
+        quantity: snapshot.totalQuantity,
+      });
+      return acc;
+    },
+    {} as Record<string, Array<{ date: Date; quantity: Decimal }>>,
+  );
+
+  for (const pricing of eventPricing) {
+    if (pricing.model === "FLAT_PLUS_UNIT" && pricing.flatFee?.gt(0)) {
+      usageByEventType[pricing.eventType] ??= [];
+    }
+  }
+
+  // Only looked up when something actually needs converting
+  let rateFromBase: Decimal | undefined;
+  const convertFromBase = async (amount: Decimal) =>
+    amount.times(
+      (rateFromBase ??= await resolveExchangeRate({
+        organizationId: options.organizationId,
+        fromCurrency: options.baseCurrency,
+        toCurrency: options.currency,
+        at: options.periodEnd,
+      })),
+    );
+
+  const lineItems: CalculatedLineItem[] = [];
+
+  for (const [eventType, usage] of Object.entries(usageByEventType)) {
+    const eventTiers = pricingTiers.filter(
+      (tier: PricingTier) => tier.eventType === eventType,
+    );
+    let tiers = eventTiers.filter((tier) => tier.currency === options.currency);
+    if (tiers.length === 0 && options.currency !== options.baseCurrency) {
+      tiers = await Promise.all(
+        eventTiers
+          .filter((tier) => tier.currency === options.baseCurrency)
+          .map(async (tier) => ({
+            ...tier,
+            unitPrice: await convertFromBase(money(tier.unitPrice)),
+          })),
+      );
+    }
+
+    const pricingModel = toPricingModelConfig(
+      eventPricing.find((pricing) => pricing.eventType === eventType) ?? null,
+    );
+    const config =
+      pricingModel.flatFee && options.currency !== options.baseCurrency
+        ? {
+            ...pricingModel,
+            flatFee: await convertFromBase(pricingModel.flatFee),
+          }
+        : pricingModel;
+
+    const priced = priceEventUsage({
+      periodStart: options.periodStart,
+      periodEnd: options.periodEnd,
+      usage,
+      tiers,
+      config,
+    });
+
+    if (priced.quantity.lte(0) && priced.totalPrice.lte(0)) continue;
+
+    lineItems.push({
+      eventType,
+      quantity: priced.quantity,
+      unitPrice: priced.quantity.gt(0)
+        ? priced.totalPrice.dividedBy(priced.quantity)
+        : money(0),
+      totalPrice: priced.totalPrice,
+      tierBreakdown: priced.tierBreakdown,
+      slices: priced.slices,
+    });
+  }
+
+  return lineItems;
+}
+
+/**
+ * Generate an invoice for a tenant's billing period
+ *
+ * Prices usage snapshots against the organization's tiers, adds any
+ * commitment shortfalls that fall due and draws down the tenant's credit
+ * (contracts and grants in the invoice currency only), applies the tax rule
+ * in force for the tenant, creates line items with tier and tax breakdowns,
+ * and links unbilled usage events to the invoice for the audit trail. Used
+ * by both single and bulk invoice generation.
+ *
+ * Throws DuplicateInvoiceError when an invoice that is not cancelled already
+ * covers part of the period. With `skipEmpty`, a tenant with nothing to
+ * charge (no usage, flat fees or shortfalls) gets no invoice and null is
+ * returned.
+ */
+export async function generateInvoiceForTenant(
+  options: GenerateInvoiceOptions & { skipEmpty?: boolean },
+) {
+  const { tenantId, organizationId, periodStart, periodEnd } = options;
+
+  const [tenant, organization] = await Promise.all([
+    prisma.tenant.findUniqueOrThrow({
+      where: { id: tenantId },
+      select: { country: true, currency: true },
+    }),
+    prisma.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { roundingMode: true, roundingScope: true, currency: true },
+    }),
+  ]);
+
+  // Tenants are invoiced in their own currency; the rate to the
+  // organization's currency is stored on the invoice for reporting
+  const currency = tenant.currency ?? organization.currency;
+  const [lineItems, exchangeRate] = await Promise.all([
+    calculateLineItems({
+      ...options,
+      currency,
+      baseCurrency: organization.currency,
+    }),
+    resolveExchangeRate({
+      organizationId,
+      fromCurrency: currency,
+      toCurrency: organization.currency,
+      at: periodEnd,
+    }),
+  ]);
+
+  const rounding: RoundingPolicy = {
+    mode: organization.roundingMode,
+    scope: organization.roundingScope,
+  };
+
+  // Tax is resolved at the end of the billing period so that re-running a
+  // historical period applies the rates that were in force at the time
+  const taxRule = await resolveTaxRule({
+    organizationId,
+    tenantId,
+    country: tenant.country,
+    taxDate: periodEnd,
+  });
+
+  // Line totals are rounded first and tax is charged on the rounded amounts,
+  // so every line, the subtotal and the tax add up to the cent
+  const lineTotals = allocateRounded(
+    lineItems.map((item) => item.totalPrice),
+    rounding,
+  );
+
+  const shortfalls = await calculateCommitmentShortfalls({
+    tenantId,
+    periodStart,
+    periodEnd,
+    currency,
+    usageTotal: sumMoney(lineTotals),
+  });
+
+  // Usage and shortfall lines; commitment shares and spend are whole cents,
+  // so shortfalls need no further rounding
+  const chargeLines = [
+    ...lineItems.map((item, index) => ({
+      eventType: item.eventType,
+      quantity: item.quantity,
+      unitPrice: roundMoney(item.unitPrice, rounding.mode, QUANTITY_SCALE),
+      totalPrice: lineTotals[index],
+      metadata: { tierBreakdown: item.tierBreakdown, slices: item.slices },
+    })),
+    ...shortfalls.map((shortfall) => ({
+      eventType: SHORTFALL_EVENT_TYPE,
+      quantity: money(1),
+      unitPrice: shortfall.shortfall,
+      totalPrice: shortfall.shortfall,
+      metadata: {
+        reason: `Minimum commitment: ${shortfall.contractName}`,
+        commitment: {
+          contractId: shortfall.contractId,
+          periodStart: shortfall.periodStart.toISOString(),
+          periodEnd: shortfall.periodEnd.toISOString(),
+          committed: shortfall.committed.toFixed(2),
+          spend: shortfall.spend.toFixed(2),
+        },
+      } satisfies ShortfallLineMetadata,
+    })),
+  ];
+
+  if (options.skipEmpty && chargeLines.length === 0) return null;
+
+  // Create invoice with audit trail linking events. The invoice number is
+  // allocated last-minute inside the transaction to keep the sequence row
+  // lock as short as possible.
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    // Credit is drawn down under the grant row locks, so two invoice runs for
+    // the same tenant can never spend the same credit. Each grant becomes one
+    // negative line, taxed like the usage it covers.
+    const grants = await lockDrawableGrants(tx, tenantId, currency);
+    const applications = planCreditDrawdown(
+      grants,
+      chargeLines.map((line) => ({
+        eventType: line.eventType,
+        amount: line.totalPrice,
+      })),
+    );
+    const creditLines = grants
+      .map((grant) => {
+        const applied = applications.filter(
+          (application) => application.grantId === grant.id,
+        );
+        const amount = sumMoney(
+          applied.map((application) => application.amount),
+        );
+        return {
+          eventType: CREDIT_EVENT_TYPE,
+          quantity: money(1),
+          unitPrice: amount.negated(),
+          totalPrice: amount.negated(),
+          metadata: {
+            reason:
+              grant.description ??
+              (grant.type === "PREPAID"
+                ? "Prepaid credit"
+                : "Promotional credit"),
+            credit: {
+              grantId: grant.id,
+              type: grant.type,
+              appliedTo: applied.map((application) => ({
+                eventType: application.eventType,
+                amount: application.amount.toFixed(2),
+              })),
+            },
+          },
+        };
+      })
+      .filter((line) => line.totalPrice.lt(0));
+
+    const allLines = [...chargeLines, ...creditLines];
+    const allTotals = allLines.map((line) => line.totalPrice);
+    const exactTaxes = allTotals.map((amount) =>
+      calculateLineTax(amount, taxRule),
+    );
+    const lineTaxes = allocateRounded(
+      exactTaxes.map((lineTax) => lineTax.taxAmount),
+      rounding,
+    );
+    const taxFor = (index: number) => ({
+      ...exactTaxes[index],
+      taxAmount: lineTaxes[index].toFixed(),
+    });
+
+    const subtotal = sumMoney(allTotals);
+    const tax = sumMoney(lineTaxes);
+    const total = subtotal.plus(tax);
+
+    const invoiceNumber = await allocateInvoiceNumber(tx, organizationId);
+
+    // Checked under the sequence row lock the allocation took, so concurrent
+    // runs for the organization see each other's invoices
+    const existing = await tx.invoice.findFirst({
+      where: {
+        tenantId,
+        type: "INVOICE",
+        status: { not: "CANCELLED" },
+        periodStart: { lt: periodEnd },
+        periodEnd: { gt: periodStart },
+      },
+      select: { invoiceNumber: true },
+    });
+    if (existing) {
+      throw new DuplicateInvoiceError(tenantId, existing.invoiceNumber);
+    }
+
+    const newInvoice = await tx.invoice.create({
+      data: {
+        tenantId,
+        organizationId,
+        invoiceNumber,
+        periodStart,
+        periodEnd,
+        subtotal,
+        tax,
+        total,
+        currency,
+        exchangeRate,
+        dueDate: new Date(periodEnd.getTime() + 30 * 24 * 60 * 60 * 1000), // 30 days after period end
+        status: "DRAFT",
+        metadata: {
+          rounding,
+          tax: {
+            ruleId: taxRule?.id ?? null,
+            name: taxRule?.name ?? null,
+            country: taxRule?.country ?? null,
+            jurisdiction: taxRule?.jurisdiction ?? null,
+            rate: taxRule ? taxRule.rate.toNumber() : 0,
+            exempt: taxRule?.exempt ?? false,
+            reverseCharge: taxRule?.reverseCharge ?? false,
+          },
+        },
+        lineItems: {
+          create: allLines.map((line, index) => ({
+            ...line,
+            metadata: { ...line.metadata, tax: taxFor(index) },
+          })),
+        },
+      },
+      include: {
+        lineItems: true,
+      },
+    });
+
+    await recordCreditDrawdown(tx, {
+      organizationId,
+      tenantId,
+      invoiceId: newInvoice.id,
+      applications,
+    });
+
+    // Link all usage events in the billing period to this invoice (audit trail)
+    const billedAt = new Date();
+    await tx.usageEvent.updateMany({
+      where: {
+        tenantId,
+        timestamp: {
+          gte: periodStart,
+          lte: periodEnd,
+        },
+        invoiceId: null, // Only link events not already billed
+      },
+      data: {
+        invoiceId: newInvoice.id,
+        billedAt,
+      },
+    });
+
+    return newInvoice;
+  }, INVOICE_TRANSACTION_OPTIONS);
+}
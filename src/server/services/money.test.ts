@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+  allocateRounded,
+  money,
+  roundMoney,
+  sumMoney,
+  type RoundingPolicy,
+} from "@/server/services/money";
+
+// Largest amount in micros, 10^8 in currency units
+const LIMIT = 1e14;
+
+// Amounts at the Decimal(20,6) precision line items are priced at
+const amount = (min: number, max: number) =>
+  fc
+    .bigInt({ min: BigInt(min), max: BigInt(max) })
+    .map((micros) => money(micros.toString()).div(1e6));
+
+const policies: RoundingPolicy[] = [
+  { mode: "HALF_UP", scope: "PER_LINE" },
+  { mode: "HALF_UP", scope: "PER_INVOICE" },
+  { mode: "HALF_EVEN", scope: "PER_LINE" },
+  { mode: "HALF_EVEN", scope: "PER_INVOICE" },
+];
+
+describe.each(policies)("allocateRounded ($mode, $scope)", (policy) => {
+  it("rounds every amount to whole cents", () => {
+    fc.assert(
+      fc.property(
+        fc.array(amount(-LIMIT, LIMIT), { maxLength: 40 }),
+        (amounts) => {
+          const rounded = allocateRounded(amounts, policy);
+          expect(rounded).toHaveLength(amounts.length);
+          for (const value of rounded) {
+            expect(value.decimalPlaces()).toBeLessThanOrEqual(2);
+          }
+        },
+      ),
+    );
+  });
+
+  it("sums to the rounded total under the policy's scope", () => {
+    fc.assert(
+      fc.property(
+        fc.array(amount(-LIMIT, LIMIT), { maxLength: 40 }),
+        (amounts) => {
+          const rounded = allocateRounded(amounts, policy);
+          const expected =
+            policy.scope === "PER_INVOICE"
+              ? roundMoney(sumMoney(amounts), policy.mode)
+              : sumMoney(amounts.map((a) => roundMoney(a, policy.mode)));
+          expect(sumMoney(rounded).eq(expected)).toBe(true);
+        },
+      ),
+    );
+  });
+
+  it("moves no line by a cent or more", () => {
+    fc.assert(
+      fc.property(fc.array(amount(0, LIMIT), { maxLength: 40 }), (amounts) => {
+        const rounded = allocateRounded(amounts, policy);
+        rounded.forEach((value, index) => {
+          expect(value.minus(amounts[index]).abs().lt(0.01)).toBe(true);
+        });
+      }),
+    );
+  });
+});
+
+describe("allocateRounded", () => {
+  it("breaks half-cent ties by the rounding mode", () => {
+    expect(
+      allocateRounded(["0.125"], { mode: "HALF_UP", scope: "PER_LINE" })[0],
+    ).toEqual(money("0.13"));
+    expect(
+      allocateRounded(["0.125"], { mode: "HALF_EVEN", scope: "PER_LINE" })[0],
+    ).toEqual(money("0.12"));
+  });
+
+  it("gives the invoice-level cent to the largest remainder", () => {
+    const rounded = allocateRounded(["0.334", "0.333", "0.333"], {
+      mode: "HALF_UP",
+      scope: "PER_INVOICE",
+    });
+    expect(rounded.map((value) => value.toFixed(2))).toEqual([
+      "0.34",
+      "0.33",
+      "0.33",
+    ]);
+  });
+});
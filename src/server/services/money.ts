@@ -0,0 +1,92 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { type RoundingMode, type RoundingScope } from "@prisma/client";
+
+// Prisma's Decimal rounds arithmetic results to 20 significant digits, which
+// a Decimal(20,6) quantity times a Decimal(20,6) price can exceed. All billing
+// arithmetic goes through this wider constructor instead.
+const Money = Decimal.clone({ precision: 40 });
+
+export const CURRENCY_SCALE = 2;
+export const QUANTITY_SCALE = 6; // Matches the Decimal(20, 6) columns
+
+export type RoundingPolicy = {
+  mode: RoundingMode;
+  scope: RoundingScope;
+};
+
+// Used for organizations that have not chosen a policy
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = {
+  mode: "HALF_UP",
+  scope: "PER_LINE",
+};
+
+const ROUNDING: Record<RoundingMode, Decimal.Rounding> = {
+  HALF_UP: Decimal.ROUND_HALF_UP,
+  HALF_EVEN: Decimal.ROUND_HALF_EVEN,
+};
+
+export function money(value: Decimal.Value | null | undefined): Decimal {
+  return new Money(value ?? 0);
+}
+
+export function sumMoney(values: Array<Decimal.Value | null | undefined>) {
+  return values.reduce<Decimal>(
+    (sum, value) => sum.plus(money(value)),
+    money(0),
+  );
+}
+
+export function roundMoney(
+  value: Decimal.Value,
+  mode: RoundingMode,
+  scale = CURRENCY_SCALE,
+): Decimal {
+  return money(value).toDecimalPlaces(scale, ROUNDING[mode]);
+}
+
+/**
+ * Round a set of amounts to currency precision under a rounding policy
+ *
+ * PER_LINE rounds each amount on its own. PER_INVOICE rounds the total once
+ * and spreads the difference over the amounts with the largest remainders,
+ * so in both cases the rounded amounts sum exactly to the rounded total.
+ */
+export function allocateRounded(
+  amounts: Decimal.Value[],
+  policy: RoundingPolicy,
+): Decimal[] {
+  if (policy.scope === "PER_LINE") {
+    return amounts.map((amount) => roundMoney(amount, policy.mode));
+  }
+
+  const exact = amounts.map((amount) => money(amount));
+  const target = roundMoney(sumMoney(exact), policy.mode);
+  const rounded = exact.map((amount) =>
+    amount.toDecimalPlaces(CURRENCY_SCALE, Decimal.ROUND_DOWN),
+  );
+
+  const unit = money(10).pow(-CURRENCY_SCALE);
+  let steps = target.minus(sumMoney(rounded)).dividedBy(unit).toNumber();
+  const direction = Math.sign(steps);
+
+  // Largest remainder in the direction of the difference first; ties keep
+  // their original order
+  const order = exact
+    .map((amount, index) => ({
+      index,
+      remainder: amount.minus(rounded[index]),
+    }))
+    .sort(
+      (a, b) =>
+        b.remainder.times(direction).comparedTo(a.remainder.times(direction)) ||
+        a.index - b.index,
+    );
+
+  for (let i = 0; steps !== 0 && order.length > 0; i++) {
+    const { index } = order[i % order.length];
+    rounded[index] = rounded[index].plus(unit.times(direction));
+    steps -= direction;
+  }
+
+  return rounded;
+}
@@ -0,0 +1,125 @@
+import type Stripe from "stripe";
+import { createStripeProvider } from "@/server/services/stripe";
+import { createFakePaymentProvider } from "@/server/services/fakePaymentProvider";
+
+/**
+ * Everything billing code needs from the payment provider
+ *
+ * Objects use Stripe's shapes, which are also what webhook handlers consume,
+ * so the Stripe implementation is a thin pass-through and the in-memory
+ * fake (PAYMENT_PROVIDER=fake) produces the same payloads offline.
+ */
+export interface PaymentProvider {
+  createCustomer(params: {
+    email: string;
+    name: string;
+    organizationId: string;
+  }): Promise<Stripe.Customer>;
+
+  createCheckoutSession(params: {
+    customerId: string;
+    priceId: string;
+    organizationId: string;
+    successUrl: string;
+    cancelUrl: string;
+  }): Promise<Stripe.Checkout.Session>;
+
+  createBillingPortalSession(params: {
+    customerId: string;
+    returnUrl: string;
+  }): Promise<Stripe.BillingPortal.Session>;
+
+  getSubscription(subscriptionId: string): Promise<Stripe.Subscription>;
+
+  // List methods page through every matching object
+  listSubscriptions(params: {
+    status: Stripe.SubscriptionListParams.Status;
+  }): AsyncIterable<Stripe.Subscription>;
+
+  listCustomers(): AsyncIterable<Stripe.Customer>;
+
+  listAllInvoices(): AsyncIterable<Stripe.Invoice>;
+
+  cancelSubscription(subscriptionId: string): Promise<Stripe.Subscription>;
+
+  resumeSubscription(subscriptionId: string): Promise<Stripe.Subscription>;
+
+  // Switch price now, invoicing the proration as of prorationDate at once
+  changeSubscriptionPrice(params: {
+    subscriptionId: string;
+    priceId: string;
+    prorationDate: Date;
+  }): Promise<Stripe.Subscription>;
+
+  // Switch price when the current period ends, without proration
+  scheduleSubscriptionPrice(params: {
+    subscriptionId: string;
+    priceId: string;
+  }): Promise<{ scheduleId: string }>;
+
+  // Drop a scheduled change, leaving the subscription as it is
+  releaseSubscriptionSchedule(scheduleId: string): Promise<void>;
+
+  getInvoices(customerId: string, limit?: number): Promise<Stripe.Invoice[]>;
+
+  getUpcomingInvoice(customerId: string): Promise<Stripe.Invoice | null>;
+
+  getCharge(chargeId: string): Promise<Stripe.Charge>;
+
+  getEvent(eventId: string): Promise<Stripe.Event>;
+
+  // Throws when the signature does not match the payload
+  constructWebhookEvent(
+    payload: string | Buffer,
+    signature: string,
+    webhookSecret: string,
+  ): Stripe.Event;
+
+  listActiveMeters(): Promise<Stripe.Billing.Meter[]>;
+
+  // Events whose identifier was already reported are ignored
+  reportUsage(params: {
+    meter: Stripe.Billing.Meter;
+    stripeCustomerId: string;
+    value: { toString(): string };
+    identifier: string;
+    timestamp?: Date;
+  }): Promise<void>;
+
+  listMeterEventSummaries(params: {
+    meterId: string;
+    customerId: string;
+    start: Date;
+    end: Date;
+  }): AsyncIterable<Stripe.Billing.MeterEventSummary>;
+}
+
+const globalForPayments = globalThis as unknown as {
+  paymentProvider: PaymentProvider | undefined;
+};
+
+/**
+ * The configured payment provider, created on first use so that code paths
+ * which never reach the provider run without Stripe credentials
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!globalForPayments.paymentProvider) {
+    if (process.env.PAYMENT_PROVIDER === "fake") {
+      globalForPayments.paymentProvider = createFakePaymentProvider();
+    } else {
+      if (!process.env.STRIPE_SECRET_KEY) {
+        throw new Error("STRIPE_SECRET_KEY is not set");
+      }
+      globalForPayments.paymentProvider = createStripeProvider(
+        process.env.STRIPE_SECRET_KEY,
+      );
+    }
+  }
+
+  return globalForPayments.paymentProvider;
+}
+
+// Swap the provider, e.g. for a fake with seeded state in a test
+export function setPaymentProvider(provider: PaymentProvider | undefined) {
+  globalForPayments.paymentProvider = provider;
+}
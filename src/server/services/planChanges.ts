@@ -0,0 +1,441 @@
+import type { Prisma, SubscriptionPlan } from "@prisma/client";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import { money, roundMoney } from "@/server/services/money";
+import { getPaymentProvider } from "@/server/services/payments";
+
+export class PlanChangeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT",
+  ) {
+    super(message);
+    this.name = "PlanChangeError";
+  }
+}
+
+export type PlanChangeTiming = "IMMEDIATE" | "PERIOD_END";
+
+export type FeatureChange = { feature: string; from: unknown; to: unknown };
+
+type PlanSummary = Pick<
+  SubscriptionPlan,
+  "id" | "name" | "basePrice" | "currency"
+>;
+
+function summarizePlan(plan: SubscriptionPlan): PlanSummary {
+  return {
+    id: plan.id,
+    name: plan.name,
+    basePrice: plan.basePrice,
+    currency: plan.currency,
+  };
+}
+
+function featureMap(features: Prisma.JsonValue) {
+  return features && typeof features === "object" && !Array.isArray(features)
+    ? (features as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Feature flags that differ between two plans, including ones only one of
+ * them sets (reported as null on the other side)
+ */
+export function diffPlanFeatures(
+  from: Prisma.JsonValue,
+  to: Prisma.JsonValue,
+): FeatureChange[] {
+  const before = featureMap(from);
+  const after = featureMap(to);
+
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(
+      (feature) =>
+        JSON.stringify(before[feature]) !== JSON.stringify(after[feature]),
+    )
+    .sort()
+    .map((feature) => ({
+      feature,
+      from: before[feature] ?? null,
+      to: after[feature] ?? null,
+    }));
+}
+
+// A plan at the same price counts as an upgrade, so it applies at once
+export function isUpgrade(from: PlanSummary, to: PlanSummary) {
+  return to.basePrice >= from.basePrice;
+}
+
+/**
+ * Time-based proration of a switch at `at`: the unused share of the period
+ * is credited at the current plan's price and charged at the new one's.
+ * Each side is rounded to whole cents, as Stripe rounds proration lines.
+ */
+export function calculateProration(options: {
+  fromPlan: PlanSummary;
+  toPlan: PlanSummary;
+  periodStart: Date;
+  periodEnd: Date;
+  at: Date;
+}) {
+  const total = options.periodEnd.getTime() - options.periodStart.getTime();
+  const remaining = Math.min(
+    Math.max(options.periodEnd.getTime() - options.at.getTime(), 0),
+    total,
+  );
+  const fraction = total > 0 ? money(remaining).dividedBy(total) : money(0);
+
+  const credit = roundMoney(
+    fraction.times(options.fromPlan.basePrice),
+    "HALF_UP",
+    0,
+  ).negated();
+  const charge = roundMoney(
+    fraction.times(options.toPlan.basePrice),
+    "HALF_UP",
+    0,
+  );
+
+  return {
+    remainingPercent: fraction.times(100).toDecimalPlaces(2).toNumber(),
+    credit: credit.toNumber(),
+    charge: charge.toNumber(),
+    net: charge.plus(credit).toNumber(),
+    currency: options.toPlan.currency,
+  };
+}
+
+async function loadChange(organizationId: string, planId: string) {
+  const [subscription, toPlan] = await Promise.all([
+    prisma.subscription.findFirst({
+      where: { organizationId, status: { in: ["ACTIVE", "TRIALING"] } },
+      include: {
+        plan: true,
+        planChanges: {
+          where: { status: "SCHEDULED" },
+          include: { toPlan: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.subscriptionPlan.findUnique({ where: { id: planId } }),
+  ]);
+
+  if (!subscription) {
+    throw new PlanChangeError("No active subscription", "NOT_FOUND");
+  }
+  if (!toPlan || !toPlan.isActive) {
+    throw new PlanChangeError("Plan not found", "NOT_FOUND");
+  }
+  if (toPlan.id === subscription.planId) {
+    throw new PlanChangeError("Already subscribed to this plan", "BAD_REQUEST");
+  }
+  if (toPlan.currency !== subscription.plan.currency) {
+    throw new PlanChangeError(
+      `Cannot change from a ${subscription.plan.currency} plan to a ${toPlan.currency} plan`,
+      "BAD_REQUEST",
+    );
+  }
+
+  return {
+    subscription,
+    fromPlan: subscription.plan,
+    toPlan,
+    scheduled: subscription.planChanges[0] ?? null,
+  };
+}
+
+/**
+ * What moving to another plan would do: when it takes effect, the proration
+ * charged if it takes effect now, and the features that change
+ *
+ * `prorationDate` is what to pass back to applyPlanChange so the amount
+ * charged matches the preview. Trials are not prorated.
+ */
+export async function previewPlanChange(options: {
+  organizationId: string;
+  planId: string;
+  timing?: PlanChangeTiming;
+  at?: Date;
+}) {
+  const at = options.at ?? new Date();
+  const { subscription, fromPlan, toPlan, scheduled } = await loadChange(
+    options.organizationId,
+    options.planId,
+  );
+
+  const upgrade = isUpgrade(fromPlan, toPlan);
+  const timing = options.timing ?? (upgrade ? "IMMEDIATE" : "PERIOD_END");
+  const immediate = timing === "IMMEDIATE";
+
+  return {
+    subscriptionId: subscription.id,
+    currentPlan: summarizePlan(fromPlan),
+    newPlan: summarizePlan(toPlan),
+    direction: upgrade ? ("UPGRADE" as const) : ("DOWNGRADE" as const),
+    timing,
+    effectiveAt: immediate ? at : subscription.currentPeriodEnd,
+    prorationDate: immediate ? at : null,
+    proration:
+      immediate && subscription.status !== "TRIALING"
+        ? calculateProration({
+            fromPlan,
+            toPlan,
+            periodStart: subscription.currentPeriodStart,
+            periodEnd: subscription.currentPeriodEnd,
+            at,
+          })
+        : null,
+    nextPeriodAmount: toPlan.basePrice,
+    featureChanges: diffPlanFeatures(fromPlan.features, toPlan.features),
+    scheduledChange: scheduled
+      ? {
+          id: scheduled.id,
+          toPlanId: scheduled.toPlanId,
+          toPlanName: scheduled.toPlan.name,
+          effectiveAt: scheduled.effectiveAt,
+        }
+      : null,
+  };
+}
+
+/**
+ * Move a subscription to another plan
+ *
+ * Upgrades default to taking effect now: Stripe invoices the proration at
+ * once, and the local plan (and so its features) switches immediately.
+ * Downgrades default to the end of the period through a Stripe subscription
+ * schedule; the subscription keeps its plan until Stripe renews it on the
+ * new price, and getEffectivePlan switches features at the period end even
+ * if that webhook is late.
+ */
+export async function applyPlanChange(options: {
+  organizationId: string;
+  planId: string;
+  timing?: PlanChangeTiming;
+  prorationDate?: Date;
+  userId?: string | null;
+}) {
+  const now = new Date();
+  const { subscription, fromPlan, toPlan, scheduled } = await loadChange(
+    options.organizationId,
+    options.planId,
+  );
+
+  if (scheduled) {
+    throw new PlanChangeError(
+      `A change to ${scheduled.toPlan.name} is already scheduled; cancel it first`,
+      "CONFLICT",
+    );
+  }
+
+  const upgrade = isUpgrade(fromPlan, toPlan);
+  const timing = options.timing ?? (upgrade ? "IMMEDIATE" : "PERIOD_END");
+  const audit = {
+    fromPlanId: fromPlan.id,
+    toPlanId: toPlan.id,
+    direction: upgrade ? "UPGRADE" : "DOWNGRADE",
+    featureChanges: diffPlanFeatures(
+      fromPlan.features,
+      toPlan.features,
+    ) as Prisma.InputJsonArray,
+  };
+
+  if (timing === "PERIOD_END") {
+    const { scheduleId } = await getPaymentProvider().scheduleSubscriptionPrice(
+      {
+        subscriptionId: subscription.stripeSubscriptionId,
+        priceId: toPlan.stripePriceId,
+      },
+    );
+
+    return prisma.$transaction(async (tx) => {
+      const change = await tx.subscriptionPlanChange.create({
+        data: {
+          subscriptionId: subscription.id,
+          organizationId: options.organizationId,
+          fromPlanId: fromPlan.id,
+          toPlanId: toPlan.id,
+          isUpgrade: upgrade,
+          status: "SCHEDULED",
+          effectiveAt: subscription.currentPeriodEnd,
+          stripeScheduleId: scheduleId,
+          userId: options.userId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          organizationId: options.organizationId,
+          userId: options.userId,
+          action: "SUBSCRIPTION_PLAN_CHANGE_SCHEDULED",
+          resourceType: "subscription",
+          resourceId: subscription.id,
+          changes: {
+            ...audit,
+            effectiveAt: subscription.currentPeriodEnd.toISOString(),
+          },
+        },
+      });
+
+      return change;
+    });
+  }
+
+  const prorationDate = options.prorationDate ?? now;
+  if (
+    prorationDate < subscription.currentPeriodStart ||
+    prorationDate >= subscription.currentPeriodEnd ||
+    prorationDate > now
+  ) {
+    throw new PlanChangeError(
+      "prorationDate must fall in the current period and not be in the future",
+      "BAD_REQUEST",
+    );
+  }
+
+  const proration =
+    subscription.status !== "TRIALING"
+      ? calculateProration({
+          fromPlan,
+          toPlan,
+          periodStart: subscription.currentPeriodStart,
+          periodEnd: subscription.currentPeriodEnd,
+          at: prorationDate,
+        })
+      : null;
+
+  await getPaymentProvider().changeSubscriptionPrice({
+    subscriptionId: subscription.stripeSubscriptionId,
+    priceId: toPlan.stripePriceId,
+    prorationDate,
+  });
+
+  return prisma.$transaction(async (tx) => {
+    await tx.subscription.update({
+      where: { id: subscription.id },
+      data: { planId: toPlan.id, stripePriceId: toPlan.stripePriceId },
+    });
+
+    const change = await tx.subscriptionPlanChange.create({
+      data: {
+        subscriptionId: subscription.id,
+        organizationId: options.organizationId,
+        fromPlanId: fromPlan.id,
+        toPlanId: toPlan.id,
+        isUpgrade: upgrade,
+        status: "APPLIED",
+        effectiveAt: now,
+        appliedAt: now,
+        prorationAmount: proration?.net ?? null,
+        userId: options.userId,
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        organizationId: options.organizationId,
+        userId: options.userId,
+        action: "SUBSCRIPTION_PLAN_CHANGED",
+        resourceType: "subscription",
+        resourceId: subscription.id,
+        changes: {
+          ...audit,
+          prorationDate: prorationDate.toISOString(),
+          prorationAmount: proration?.net ?? null,
+        },
+      },
+    });
+
+    return change;
+  });
+}
+
+export async function cancelScheduledPlanChange(options: {
+  organizationId: string;
+  userId?: string | null;
+}) {
+  const change = await prisma.subscriptionPlanChange.findFirst({
+    where: { organizationId: options.organizationId, status: "SCHEDULED" },
+  });
+
+  if (!change) {
+    throw new PlanChangeError("No scheduled plan change", "NOT_FOUND");
+  }
+
+  if (change.stripeScheduleId) {
+    await getPaymentProvider().releaseSubscriptionSchedule(
+      change.stripeScheduleId,
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const canceled = await tx.subscriptionPlanChange.update({
+      where: { id: change.id },
+      data: { status: "CANCELED", canceledAt: new Date() },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        organizationId: options.organizationId,
+        userId: options.userId,
+        action: "SUBSCRIPTION_PLAN_CHANGE_CANCELED",
+        resourceType: "subscription",
+        resourceId: change.subscriptionId,
+        changes: {
+          fromPlanId: change.fromPlanId,
+          toPlanId: change.toPlanId,
+          effectiveAt: change.effectiveAt.toISOString(),
+        },
+      },
+    });
+
+    return canceled;
+  });
+}
+
+/**
+ * Mark scheduled changes to the plan a subscription is now on as applied.
+ * Called when Stripe reports the subscription's new price.
+ */
+export async function settleScheduledPlanChanges(
+  tx: TransactionClient,
+  subscriptionId: string,
+  planId: string,
+) {
+  await tx.subscriptionPlanChange.updateMany({
+    where: { subscriptionId, status: "SCHEDULED", toPlanId: planId },
+    data: { status: "APPLIED", appliedAt: new Date() },
+  });
+}
+
+/**
+ * The plan whose features an organization has at `at`
+ *
+ * That is the current subscription's plan, or the target of a scheduled
+ * change whose effective date has passed. Null without a live subscription.
+ */
+export async function getEffectivePlan(
+  organizationId: string,
+  at = new Date(),
+) {
+  const subscription = await prisma.subscription.findFirst({
+    where: {
+      organizationId,
+      status: { in: ["ACTIVE", "TRIALING", "PAST_DUE"] },
+    },
+    include: {
+      plan: true,
+      planChanges: {
+        where: { status: "SCHEDULED", effectiveAt: { lte: at } },
+        include: { toPlan: true },
+        orderBy: { effectiveAt: "desc" },
+        take: 1,
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!subscription) return null;
+  return subscription.planChanges[0]?.toPlan ?? subscription.plan;
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { Decimal } from "@prisma/client/runtime/library";
+import { money, sumMoney } from "@/server/services/money";
+import {
+  DEFAULT_PRICING_MODEL,
+  priceEventUsage,
+  type PricingModelConfig,
+  type PricingTier,
+} from "@/server/services/pricing";
+
+const periodStart = new Date("2026-01-01T00:00:00Z");
+const periodEnd = new Date("2026-01-31T23:59:59Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Six decimal places, like the Decimal(20,6) columns
+const decimal = (max: number) =>
+  fc
+    .bigInt({ min: BigInt(0), max: BigInt(max) })
+    .map((micros) => money(micros.toString()).div(1e6));
+
+function tier(
+  tierLevel: number,
+  minQuantity: Decimal,
+  maxQuantity: Decimal | null,
+  unitPrice: Decimal,
+  effectiveFrom = periodStart,
+): PricingTier {
+  return {
+    id: `tier_${tierLevel}_${effectiveFrom.getTime()}`,
+    organizationId: "org_1",
+    eventType: "api_call",
+    tierLevel,
+    minQuantity,
+    maxQuantity,
+    unitPrice,
+    effectiveFrom,
+    effectiveTo: null,
+  };
+}
+
+// Contiguous tiers from zero with an open-ended last tier
+const tiersArb = fc
+  .array(fc.tuple(decimal(1e12), decimal(1e8)), {
+    minLength: 1,
+    maxLength: 5,
+  })
+  .map((rows) => {
+    let from = money(0);
+    return rows.map(([width, unitPrice], index) => {
+      const isLast = index === rows.length - 1;
+      const to = isLast ? null : from.plus(width).plus(1);
+      const row = tier(index + 1, from, to, unitPrice);
+      if (to) from = to;
+      return row;
+    });
+  });
+
+const usageArb = fc.array(
+  fc.record({
+    day: fc.integer({ min: 0, max: 30 }),
+    quantity: decimal(1e13),
+  }),
+  { maxLength: 31 },
+);
+
+const configArb: fc.Arbitrary<PricingModelConfig> = fc.oneof(
+  fc.constant(DEFAULT_PRICING_MODEL),
+  fc.constant({ ...DEFAULT_PRICING_MODEL, model: "VOLUME" as const }),
+  decimal(1e9).map((size) => ({
+    ...DEFAULT_PRICING_MODEL,
+    model: "PACKAGE" as const,
+    packageSize: size.plus(1),
+  })),
+  decimal(1e12).map((allowance) => ({
+    ...DEFAULT_PRICING_MODEL,
+    model: "FREE_ALLOWANCE" as const,
+    freeAllowance: allowance,
+  })),
+  decimal(1e10).map((flatFee) => ({
+    ...DEFAULT_PRICING_MODEL,
+    model: "FLAT_PLUS_UNIT" as const,
+    flatFee,
+  })),
+);
+
+const toUsage = (rows: Array<{ day: number; quantity: Decimal }>) =>
+  rows.map((row) => ({
+    date: new Date(periodStart.getTime() + row.day * DAY_MS),
+    quantity: row.quantity,
+  }));
+
+describe("priceEventUsage", () => {
+  it("totals exactly the sum of its breakdown rows and slices", () => {
+    fc.assert(
+      fc.property(tiersArb, usageArb, configArb, (tiers, rows, config) => {
+        const usage = toUsage(rows);
+        const priced = priceEventUsage({
+          periodStart,
+          periodEnd,
+          usage,
+          tiers,
+          config,
+        });
+
+        expect(
+          priced.quantity.eq(sumMoney(usage.map((day) => day.quantity))),
+        ).toBe(true);
+        expect(
+          priced.totalPrice.eq(
+            sumMoney(priced.tierBreakdown.map((item) => item.subtotal)),
+          ),
+        ).toBe(true);
+        expect(
+          priced.totalPrice.eq(
+            sumMoney(priced.slices.map((slice) => slice.totalPrice)),
+          ),
+        ).toBe(true);
+      }),
+    );
+  });
+
+  it("prices the same total however it is spread over the period", () => {
+    fc.assert(
+      fc.property(tiersArb, usageArb, configArb, (tiers, rows, config) => {
+        const usage = toUsage(rows);
+        const spread = priceEventUsage({
+          periodStart,
+          periodEnd,
+          usage,
+          tiers,
+          config,
+        });
+        const lumped = priceEventUsage({
+          periodStart,
+          periodEnd,
+          usage: [{ date: periodStart, quantity: spread.quantity }],
+          tiers,
+          config,
+        });
+
+        expect(spread.totalPrice.eq(lumped.totalPrice)).toBe(true);
+      }),
+    );
+  });
+
+  it("charges usage after a price change at the new tiers", () => {
+    const changeAt = new Date("2026-01-16T00:00:00Z");
+    const tiers = [
+      { ...tier(1, money(0), null, money("0.001")), effectiveTo: changeAt },
+      tier(1, money(0), null, money("0.002"), changeAt),
+    ];
+
+    const priced = priceEventUsage({
+      periodStart,
+      periodEnd,
+      usage: [
+        { date: periodStart, quantity: 1000 },
+        { date: changeAt, quantity: 1000 },
+      ],
+      tiers,
+      config: DEFAULT_PRICING_MODEL,
+    });
+
+    expect(priced.totalPrice.toFixed()).toBe("3");
+    expect(priced.slices).toHaveLength(2);
+  });
+});
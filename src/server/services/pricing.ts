@@ -0,0 +1,382 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { type PricingModel } from "@prisma/client";
+import { money, sumMoney } from "@/server/services/money";
+
+export type PricingTier = {
+  id: string;
+  organizationId: string;
+  eventType: string;
+  tierLevel: number;
+  minQuantity: Decimal;
+  maxQuantity: Decimal | null;
+  unitPrice: Decimal;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+};
+
+// Every pricing model explains its charge in these rows. `label` is set for
+// rows that are not plain usage tiers (flat fees, allowances, packages).
+// Amounts are exact decimal strings; invoices created before decimal
+// pricing stored plain numbers.
+export type TierBreakdownItem = {
+  tierLevel: number;
+  quantity: string;
+  unitPrice: string;
+  subtotal: string;
+  label?: string;
+};
+
+// Usage priced on one set of tiers within the billing period
+export type PricingSlice = {
+  periodStart: string;
+  periodEnd: string;
+  quantity: string;
+  totalPrice: string;
+  tierBreakdown: TierBreakdownItem[];
+};
+
+export type PricingModelConfig = {
+  model: PricingModel;
+  packageSize: Decimal | null;
+  flatFee: Decimal | null;
+  freeAllowance: Decimal | null;
+};
+
+type PricedQuantity = {
+  totalPrice: Decimal;
+  tierBreakdown: TierBreakdownItem[];
+};
+
+// Used for event types without an EventPricing row
+export const DEFAULT_PRICING_MODEL: PricingModelConfig = {
+  model: "GRADUATED",
+  packageSize: null,
+  flatFee: null,
+  freeAllowance: null,
+};
+
+export function toPricingModelConfig(
+  row: {
+    model: PricingModel;
+    packageSize: Decimal | null;
+    flatFee: Decimal | null;
+    freeAllowance: Decimal | null;
+  } | null,
+): PricingModelConfig {
+  if (!row) return DEFAULT_PRICING_MODEL;
+  return {
+    model: row.model,
+    packageSize: row.packageSize ? money(row.packageSize) : null,
+    flatFee: row.flatFee ? money(row.flatFee) : null,
+    freeAllowance: row.freeAllowance ? money(row.freeAllowance) : null,
+  };
+}
+
+function breakdownItem(
+  tierLevel: number,
+  quantity: Decimal,
+  unitPrice: Decimal,
+  label?: string,
+): TierBreakdownItem {
+  return {
+    tierLevel,
+    quantity: quantity.toFixed(),
+    unitPrice: unitPrice.toFixed(),
+    subtotal: quantity.times(unitPrice).toFixed(),
+    ...(label ? { label } : {}),
+  };
+}
+
+/**
+ * Price a quantity against graduated tiers, tracking position through tiers
+ * so each unit is charged at the rate of the tier it falls into
+ *
+ * `startQuantity` is the usage already priced earlier in the period, so a
+ * later time slice continues from the tier the earlier slices reached.
+ */
+export function calculateTieredPrice(
+  quantity: Decimal.Value,
+  tiers: PricingTier[],
+  startQuantity: Decimal.Value = 0,
+): PricedQuantity {
+  const relevantTiers = [...tiers].sort((a, b) => a.tierLevel - b.tierLevel);
+  const endQuantity = money(startQuantity).plus(quantity);
+
+  let processedQuantity = money(startQuantity); // Track how far we've priced
+  let totalPrice = money(0);
+  const tierBreakdown: TierBreakdownItem[] = [];
+
+  for (const tier of relevantTiers) {
+    if (processedQuantity.gte(endQuantity)) break;
+
+    // Tier range: [tierMin, tierMax). Gaps between tiers are not charged.
+    const tierPrice = money(tier.unitPrice);
+    const from = Decimal.max(money(tier.minQuantity), processedQuantity);
+    const to = tier.maxQuantity
+      ? Decimal.min(money(tier.maxQuantity), endQuantity)
+      : endQuantity;
+    const quantityInTier = money(to).minus(from);
+
+    if (quantityInTier.gt(0)) {
+      totalPrice = totalPrice.plus(quantityInTier.times(tierPrice));
+      tierBreakdown.push(
+        breakdownItem(tier.tierLevel, quantityInTier, tierPrice),
+      );
+      processedQuantity = money(to);
+    }
+  }
+
+  // If no tiers matched, use default pricing (first tier or zero)
+  if (tierBreakdown.length === 0 && relevantTiers.length > 0) {
+    const defaultTier = relevantTiers[0];
+    const tierPrice = money(defaultTier.unitPrice);
+    totalPrice = money(quantity).times(tierPrice);
+    tierBreakdown.push(
+      breakdownItem(defaultTier.tierLevel, money(quantity), tierPrice),
+    );
+  }
+
+  return { totalPrice, tierBreakdown };
+}
+
+/**
+ * Price a quantity at the rate of the single tier `totalQuantity` reaches
+ */
+export function calculateVolumePrice(
+  quantity: Decimal.Value,
+  tiers: PricingTier[],
+  totalQuantity: Decimal.Value,
+): PricedQuantity {
+  const relevantTiers = [...tiers].sort((a, b) => a.tierLevel - b.tierLevel);
+  if (relevantTiers.length === 0) {
+    return { totalPrice: money(0), tierBreakdown: [] };
+  }
+
+  // Below the first tier's minimum, fall back to the first tier
+  const tier =
+    relevantTiers.findLast((candidate) =>
+      money(candidate.minQuantity).lte(totalQuantity),
+    ) ?? relevantTiers[0];
+  const unitPrice = money(tier.unitPrice);
+
+  return {
+    totalPrice: money(quantity).times(unitPrice),
+    tierBreakdown: [breakdownItem(tier.tierLevel, money(quantity), unitPrice)],
+  };
+}
+
+/**
+ * Price one time slice of an event type's usage under its pricing model
+ *
+ * `startQuantity` is the usage priced in earlier slices and `totalQuantity`
+ * the usage of the whole period, so models that look at the cumulative
+ * quantity (allowances, packages, volume) give the same total however the
+ * period is sliced.
+ */
+export function priceSlice(
+  config: PricingModelConfig,
+  slice: {
+    quantity: Decimal;
+    tiers: PricingTier[];
+    startQuantity: Decimal;
+    totalQuantity: Decimal;
+  },
+): PricedQuantity {
+  const { quantity, tiers, startQuantity } = slice;
+
+  switch (config.model) {
+    case "VOLUME":
+      return calculateVolumePrice(quantity, tiers, slice.totalQuantity);
+
+    case "PACKAGE": {
+      const size = config.packageSize ?? money(1);
+      // Packages are counted on the cumulative quantity so a package that
+      // spans two slices is only charged once
+      const startPackages = startQuantity.dividedBy(size).ceil();
+      const packages = startQuantity
+        .plus(quantity)
+        .dividedBy(size)
+        .ceil()
+        .minus(startPackages);
+      if (packages.lte(0)) return { totalPrice: money(0), tierBreakdown: [] };
+
+      const priced = calculateTieredPrice(packages, tiers, startPackages);
+      return {
+        totalPrice: priced.totalPrice,
+        tierBreakdown: priced.tierBreakdown.map((item) => ({
+          ...item,
+          label: `Packages of ${size.toNumber().toLocaleString("en-US")} units`,
+        })),
+      };
+    }
+
+    case "FREE_ALLOWANCE": {
+      const allowance = config.freeAllowance ?? money(0);
+      const free = Decimal.max(
+        0,
+        Decimal.min(quantity, allowance.minus(startQuantity)),
+      );
+      const chargeable = quantity.minus(free);
+      const priced = chargeable.gt(0)
+        ? calculateTieredPrice(
+            chargeable,
+            tiers,
+            Decimal.max(0, startQuantity.minus(allowance)),
+          )
+        : { totalPrice: money(0), tierBreakdown: [] };
+
+      return {
+        totalPrice: priced.totalPrice,
+        tierBreakdown: [
+          ...(free.gt(0)
+            ? [breakdownItem(0, money(free), money(0), "Free allowance")]
+            : []),
+          ...priced.tierBreakdown,
+        ],
+      };
+    }
+
+    case "GRADUATED":
+    case "FLAT_PLUS_UNIT":
+      return calculateTieredPrice(quantity, tiers, startQuantity);
+  }
+}
+
+/**
+ * Split a billing period at every tier change inside it
+ *
+ * Returns consecutive [start, end) slices, each with the tiers in force at
+ * its start. Usage before the first tier set took effect is priced on that
+ * first set.
+ */
+export function slicePricingPeriod(
+  periodStart: Date,
+  periodEnd: Date,
+  tiers: PricingTier[],
+): Array<{ start: Date; end: Date; tiers: PricingTier[] }> {
+  const boundaries = new Set<number>([periodStart.getTime()]);
+  for (const tier of tiers) {
+    for (const date of [tier.effectiveFrom, tier.effectiveTo]) {
+      if (date && date > periodStart && date <= periodEnd) {
+        boundaries.add(date.getTime());
+      }
+    }
+  }
+
+  const starts = [...boundaries].sort((a, b) => a - b);
+  const firstEffectiveFrom = Math.min(
+    ...tiers.map((tier) => tier.effectiveFrom.getTime()),
+  );
+
+  return starts.map((startTime, index) => {
+    const start = new Date(startTime);
+    const end = new Date(starts[index + 1] ?? periodEnd.getTime());
+
+    let inForce = tiers.filter(
+      (tier) =>
+        tier.effectiveFrom <= start &&
+        (!tier.effectiveTo || tier.effectiveTo > start),
+    );
+    if (inForce.length === 0 && startTime < firstEffectiveFrom) {
+      inForce = tiers.filter(
+        (tier) => tier.effectiveFrom.getTime() === firstEffectiveFrom,
+      );
+    }
+
+    return { start, end, tiers: inForce };
+  });
+}
+
+/**
+ * Price one event type's daily usage over a billing period
+ *
+ * Daily usage is priced on the tiers in force on its date, so a mid-period
+ * price change only affects usage from that date on. A flat fee is charged
+ * once, in the first slice, even when there was no usage. Totals are exact;
+ * rounding to currency precision is left to the caller.
+ */
+export function priceEventUsage(options: {
+  periodStart: Date;
+  periodEnd: Date;
+  usage: Array<{ date: Date; quantity: Decimal.Value }>;
+  tiers: PricingTier[];
+  config: PricingModelConfig;
+}): {
+  quantity: Decimal;
+  totalPrice: Decimal;
+  tierBreakdown: TierBreakdownItem[];
+  slices: PricingSlice[];
+} {
+  const { usage, config } = options;
+  const quantity = sumMoney(usage.map((day) => day.quantity));
+  const periods = slicePricingPeriod(
+    options.periodStart,
+    options.periodEnd,
+    options.tiers,
+  );
+
+  const slices: Array<
+    PricedQuantity & { start: Date; end: Date; quantity: Decimal }
+  > = [];
+  let pricedQuantity = money(0);
+
+  for (const [index, period] of periods.entries()) {
+    const isLast = index === periods.length - 1;
+    const sliceQuantity = sumMoney(
+      usage
+        .filter(
+          (day) =>
+            day.date >= period.start &&
+            (isLast ? day.date <= period.end : day.date < period.end),
+        )
+        .map((day) => day.quantity),
+    );
+
+    if (sliceQuantity.lte(0)) continue;
+
+    const priced = priceSlice(config, {
+      quantity: sliceQuantity,
+      tiers: period.tiers,
+      startQuantity: pricedQuantity,
+      totalQuantity: quantity,
+    });
+    pricedQuantity = pricedQuantity.plus(sliceQuantity);
+
+    slices.push({
+      ...priced,
+      start: period.start,
+      end: period.end,
+      quantity: sliceQuantity,
+    });
+  }
+
+  if (config.model === "FLAT_PLUS_UNIT" && config.flatFee?.gt(0)) {
+    const flatFee = breakdownItem(0, money(1), config.flatFee, "Flat fee");
+    const [first] = slices;
+    if (first) {
+      first.tierBreakdown.unshift(flatFee);
+      first.totalPrice = first.totalPrice.plus(config.flatFee);
+    } else {
+      slices.push({
+        start: options.periodStart,
+        end: options.periodEnd,
+        quantity: money(0),
+        totalPrice: money(config.flatFee),
+        tierBreakdown: [flatFee],
+      });
+    }
+  }
+
+  return {
+    quantity,
+    totalPrice: sumMoney(slices.map((slice) => slice.totalPrice)),
+    tierBreakdown: slices.flatMap((slice) => slice.tierBreakdown),
+    slices: slices.map((slice) => ({
+      periodStart: slice.start.toISOString(),
+      periodEnd: slice.end.toISOString(),
+      quantity: slice.quantity.toFixed(),
+      totalPrice: slice.totalPrice.toFixed(),
+      tierBreakdown: slice.tierBreakdown,
+    })),
+  };
+}
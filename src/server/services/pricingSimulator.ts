@@ -0,0 +1,241 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "@/server/db/prisma";
+import {
+  allocateRounded,
+  money,
+  sumMoney,
+  type RoundingPolicy,
+} from "@/server/services/money";
+import {
+  priceEventUsage,
+  toPricingModelConfig,
+  type PricingTier,
+} from "@/server/services/pricing";
+
+export type ProposedTier = {
+  eventType: string;
+  tierLevel: number;
+  minQuantity: number;
+  maxQuantity: number | null;
+  unitPrice: number;
+};
+
+export interface SimulatePricingOptions {
+  organizationId: string;
+  startDate: Date;
+  endDate: Date;
+  proposedTiers: ProposedTier[];
+}
+
+/**
+ * Split a date range into the calendar-month billing periods it touches,
+ * clipped to the range
+ */
+function billingPeriods(startDate: Date, endDate: Date) {
+  const periods: Array<{ start: Date; end: Date }> = [];
+  let start = startDate;
+
+  while (start <= endDate) {
+    const nextMonth = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1),
+    );
+    const end = new Date(Math.min(nextMonth.getTime() - 1, endDate.getTime()));
+    periods.push({ start, end });
+    start = nextMonth;
+  }
+
+  return periods;
+}
+
+/**
+ * Re-price historical usage under the current and a proposed tier set
+ *
+ * Every tenant's UsageSnapshot data in the range is priced month by month,
+ * the way invoices would price it, once with the tiers in force at the time
+ * and once with the proposed tiers replacing them for the event types they
+ * cover. Amounts are pre-tax, in the organization's currency (tiers in other
+ * currencies are ignored) and rounded under the organization's rounding
+ * policy. Nothing is written.
+ */
+export async function simulatePricing(options: SimulatePricingOptions) {
+  const { organizationId, startDate, endDate } = options;
+
+  const [organization, tenants, snapshots, currentTiers, eventPricing] =
+    await Promise.all([
+      prisma.organization.findUniqueOrThrow({
+        where: { id: organizationId },
+        select: { roundingMode: true, roundingScope: true, currency: true },
+      }),
+      prisma.tenant.findMany({
+        where: { organizationId },
+        select: { id: true, externalId: true, name: true },
+      }),
+      prisma.usageSnapshot.findMany({
+        where: {
+          organizationId,
+          snapshotDate: { gte: startDate, lte: endDate },
+        },
+        select: {
+          tenantId: true,
+          eventType: true,
+          snapshotDate: true,
+          totalQuantity: true,
+        },
+      }),
+      prisma.pricingTier.findMany({
+        where: {
+          organizationId,
+          effectiveFrom: { lte: endDate },
+          OR: [{ effectiveTo: null }, { effectiveTo: { gte: startDate } }],
+        },
+      }),
+      prisma.eventPricing.findMany({ where: { organizationId } }),
+    ]);
+
+  const rounding: RoundingPolicy = {
+    mode: organization.roundingMode,
+    scope: organization.roundingScope,
+  };
+
+  // Proposed tiers are in force for the whole range
+  const proposedTiers: PricingTier[] = options.proposedTiers.map(
+    (tier, index) => ({
+      id: `proposed-${index}`,
+      organizationId,
+      eventType: tier.eventType,
+      tierLevel: tier.tierLevel,
+      minQuantity: money(tier.minQuantity),
+      maxQuantity: tier.maxQuantity === null ? null : money(tier.maxQuantity),
+      unitPrice: money(tier.unitPrice),
+      effectiveFrom: startDate,
+      effectiveTo: null,
+    }),
+  );
+  const proposedEventTypes = new Set(
+    proposedTiers.map((tier) => tier.eventType),
+  );
+
+  const tiersFor = (eventType: string, scenario: "current" | "proposed") =>
+    scenario === "proposed" && proposedEventTypes.has(eventType)
+      ? proposedTiers.filter((tier) => tier.eventType === eventType)
+      : currentTiers.filter(
+          (tier) =>
+            tier.eventType === eventType &&
+            tier.currency === organization.currency,
+        );
+
+  const periods = billingPeriods(startDate, endDate);
+
+  const results = tenants.map((tenant) => {
+    const tenantSnapshots = snapshots.filter(
+      (snapshot) => snapshot.tenantId === tenant.id,
+    );
+    const eventTypes = [
+      ...new Set(tenantSnapshots.map((snapshot) => snapshot.eventType)),
+    ].sort();
+
+    const totals = { current: money(0), proposed: money(0) };
+    const byEventType = eventTypes.map((eventType) => ({
+      eventType,
+      quantity: money(0),
+      current: money(0),
+      proposed: money(0),
+    }));
+
+    for (const period of periods) {
+      const usageByEventType = eventTypes.map((eventType) =>
+        tenantSnapshots
+          .filter(
+            (snapshot) =>
+              snapshot.eventType === eventType &&
+              snapshot.snapshotDate >= period.start &&
+              snapshot.snapshotDate <= period.end,
+          )
+          .map((snapshot) => ({
+            date: snapshot.snapshotDate,
+            quantity: snapshot.totalQuantity,
+          })),
+      );
+
+      for (const scenario of ["current", "proposed"] as const) {
+        const lineTotals = allocateRounded(
+          eventTypes.map(
+            (eventType, index) =>
+              priceEventUsage({
+                periodStart: period.start,
+                periodEnd: period.end,
+                usage: usageByEventType[index],
+                tiers: tiersFor(eventType, scenario),
+                config: toPricingModelConfig(
+                  eventPricing.find(
+                    (pricing) => pricing.eventType === eventType,
+                  ) ?? null,
+                ),
+              }).totalPrice,
+          ),
+          rounding,
+        );
+
+        lineTotals.forEach((amount, index) => {
+          byEventType[index][scenario] =
+            byEventType[index][scenario].plus(amount);
+        });
+        totals[scenario] = totals[scenario].plus(sumMoney(lineTotals));
+      }
+
+      usageByEventType.forEach((usage, index) => {
+        byEventType[index].quantity = byEventType[index].quantity.plus(
+          sumMoney(usage.map((day) => day.quantity)),
+        );
+      });
+    }
+
+    return {
+      tenantId: tenant.id,
+      externalId: tenant.externalId,
+      name: tenant.name,
+      current: totals.current,
+      proposed: totals.proposed,
+      delta: totals.proposed.minus(totals.current),
+      byEventType,
+    };
+  });
+
+  const toAmounts = (row: { current: Decimal; proposed: Decimal }) => ({
+    current: row.current.toNumber(),
+    proposed: row.proposed.toNumber(),
+    delta: row.proposed.minus(row.current).toNumber(),
+    deltaPercent: row.current.gt(0)
+      ? row.proposed
+          .minus(row.current)
+          .dividedBy(row.current)
+          .times(100)
+          .toNumber()
+      : null,
+  });
+
+  const withUsage = results.filter((result) => result.byEventType.length > 0);
+  const summary = {
+    current: sumMoney(withUsage.map((result) => result.current)),
+    proposed: sumMoney(withUsage.map((result) => result.proposed)),
+  };
+
+  return {
+    period: { start: startDate, end: endDate },
+    currency: organization.currency,
+    summary: { ...toAmounts(summary), tenantCount: withUsage.length },
+    tenants: withUsage
+      .sort((a, b) => b.delta.abs().comparedTo(a.delta.abs()))
+      .map((result) => ({
+        tenantId: result.tenantId,
+        externalId: result.externalId,
+        name: result.name,
+        ...toAmounts(result),
+        byEventType: result.byEventType.map((row) => ({
+          eventType: row.eventType,
+          quantity: row.quantity.toNumber(),
+          ...toAmounts(row),
+        })),
+      })),
+  };
+}
@@ -1,9 +1,22 @@
+import type { QuotaLimit } from "@prisma/client";
+import type { Decimal } from "@prisma/client/runtime/library";
 import { prisma } from "@/server/db/prisma";
 import {
-  checkQuotaEnhanced,
+  checkQuotaAtKey,
+  evaluateQuota,
+  getOrgQuotaKey,
+  getQuotaKey,
+  releaseQuota,
+  reserveQuota,
+  seedCounter,
+  seedCounters,
+  sumCounters,
   withRedisFallback,
   type QuotaCheckResult,
+  type QuotaPolicy,
+  type QuotaReservationItem,
 } from "@/server/db/redis";
+import { getEffectivePlan } from "@/server/services/planChanges";
 
 export interface QuotaCheckOptions {
   tenantId: string;
@@ -15,16 +28,282 @@ export interface EnhancedQuotaResult extends QuotaCheckResult {
   quotaExists: boolean;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROLLING_WINDOW_DAYS = 30;
+export const DEFAULT_CUSTOM_PERIOD_DAYS = 30;
+
+interface QuotaBucket {
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+export interface QuotaWindow {
+  start: Date;
+  // When the window next moves on and usage drops
+  end: Date;
+  // Counters whose sum is the window's usage; new usage goes to the first
+  buckets: QuotaBucket[];
+  // How long the first counter is still needed
+  ttlSeconds: number;
+}
+
+function startOfUtcDay(date: Date) {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+// One UTC day of a rolling window
+function dayBucket(
+  quotaLimit: Pick<QuotaLimit, "tenantId" | "eventType">,
+  day: Date,
+): QuotaBucket {
+  return {
+    key: getQuotaKey(
+      quotaLimit.tenantId,
+      quotaLimit.eventType,
+      day.toISOString().slice(0, 10), // YYYY-MM-DD
+    ),
+    start: day,
+    end: new Date(day.getTime() + DAY_MS),
+  };
+}
+
 /**
- * Check quota for a tenant/event type combination
- * Supports soft limits, grace periods, and different enforcement modes
+ * The usage window a QuotaLimit counts over at `now`
+ *
+ * - MONTHLY: the calendar month (UTC)
+ * - ROLLING_30D: the last 30 UTC days including today, one counter per day
+ * - CUSTOM: consecutive periods of `periodDays` (default 30) anchored at
+ *   `resetAt`
  */
-export async function checkQuota(
+export function getQuotaWindow(
+  quotaLimit: Pick<
+    QuotaLimit,
+    "tenantId" | "eventType" | "limitType" | "resetAt" | "periodDays"
+  >,
+  now: Date = new Date(),
+): QuotaWindow {
+  const { tenantId, eventType } = quotaLimit;
+  let start: Date;
+  let end: Date;
+  let buckets: QuotaBucket[];
+  let expiresAt: Date;
+
+  switch (quotaLimit.limitType) {
+    case "ROLLING_30D": {
+      const today = startOfUtcDay(now);
+      start = new Date(today.getTime() - (ROLLING_WINDOW_DAYS - 1) * DAY_MS);
+      end = new Date(today.getTime() + DAY_MS);
+      buckets = Array.from({ length: ROLLING_WINDOW_DAYS }, (_, i) =>
+        dayBucket(quotaLimit, new Date(today.getTime() - i * DAY_MS)),
+      );
+      // Today's counter stays in the window for another 29 days
+      expiresAt = new Date(today.getTime() + ROLLING_WINDOW_DAYS * DAY_MS);
+      break;
+    }
+    case "CUSTOM": {
+      const length =
+        (quotaLimit.periodDays ?? DEFAULT_CUSTOM_PERIOD_DAYS) * DAY_MS;
+      const elapsed = Math.floor(
+        (now.getTime() - quotaLimit.resetAt.getTime()) / length,
+      );
+      start = new Date(quotaLimit.resetAt.getTime() + elapsed * length);
+      end = new Date(start.getTime() + length);
+      buckets = [
+        {
+          key: getQuotaKey(tenantId, eventType, start.toISOString()),
+          start,
+          end,
+        },
+      ];
+      expiresAt = end;
+      break;
+    }
+    default: {
+      start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+      buckets = [
+        {
+          key: getQuotaKey(
+            tenantId,
+            eventType,
+            now.toISOString().slice(0, 7), // YYYY-MM
+          ),
+          start,
+          end,
+        },
+      ];
+      expiresAt = end;
+    }
+  }
+
+  return {
+    start,
+    end,
+    buckets,
+    // A day's margin past the last read
+    ttlSeconds: Math.ceil((expiresAt.getTime() - now.getTime()) / 1000) + 86400,
+  };
+}
+
+/**
+ * The periods a QuotaLimit counts usage in from the one containing `from`
+ * up to those starting before `to`, oldest first. ROLLING_30D counts in
+ * single UTC days, which its window moves through; the others in whole
+ * windows.
+ */
+export function getQuotaPeriods(
+  quotaLimit: Pick<
+    QuotaLimit,
+    "tenantId" | "eventType" | "limitType" | "resetAt" | "periodDays"
+  >,
+  from: Date,
+  to: Date,
+): QuotaBucket[] {
+  const periods: QuotaBucket[] = [];
+
+  if (quotaLimit.limitType === "ROLLING_30D") {
+    for (let day = startOfUtcDay(from); day < to; ) {
+      const bucket = dayBucket(quotaLimit, day);
+      periods.push(bucket);
+      day = bucket.end;
+    }
+    return periods;
+  }
+
+  for (
+    let window = getQuotaWindow(quotaLimit, from);
+    window.start < to;
+    window = getQuotaWindow(quotaLimit, window.end)
+  ) {
+    periods.push(window.buckets[0]!);
+  }
+  return periods;
+}
+
+function tenantQuotaPolicy(
+  quotaLimit: QuotaLimit,
+  window: QuotaWindow,
+): QuotaPolicy {
+  return {
+    hardLimit: Number(quotaLimit.limitValue),
+    softLimit: quotaLimit.softLimitValue
+      ? Number(quotaLimit.softLimitValue)
+      : undefined,
+    enforcementMode: quotaLimit.enforcementMode,
+    gracePeriodEnd: quotaLimit.gracePeriodEnd ?? undefined,
+    overageAllowed: quotaLimit.overageAllowed
+      ? Number(quotaLimit.overageAllowed)
+      : undefined,
+    resetAt: window.end,
+  };
+}
+
+// Recorded usage for a tenant quota between two times. Counted by when
+// events were ingested, as the Redis counters are, not by their timestamp.
+export async function tenantUsageBetween(
+  quotaLimit: Pick<QuotaLimit, "tenantId" | "eventType">,
+  from: Date,
+  to: Date,
+) {
+  const usage = await prisma.usageEvent.aggregate({
+    where: {
+      tenantId: quotaLimit.tenantId,
+      eventType: quotaLimit.eventType,
+      createdAt: {
+        gte: from,
+        lt: to,
+      },
+    },
+    _sum: {
+      quantity: true,
+    },
+  });
+  return Number(usage._sum.quantity || 0);
+}
+
+// Recorded usage per bucket, in the order given
+async function tenantBucketUsage(
+  quotaLimit: QuotaLimit,
+  buckets: QuotaBucket[],
+): Promise<number[]> {
+  if (buckets.length === 1) {
+    return [
+      await tenantUsageBetween(quotaLimit, buckets[0]!.start, buckets[0]!.end),
+    ];
+  }
+
+  // Several buckets are always whole UTC days
+  const from = new Date(Math.min(...buckets.map((b) => b.start.getTime())));
+  const to = new Date(Math.max(...buckets.map((b) => b.end.getTime())));
+  const rows = await prisma.$queryRaw<
+    Array<{ usageDate: Date; quantity: Decimal }>
+  >`
+    SELECT date_trunc('day', "createdAt") AS "usageDate",
+           SUM("quantity") AS "quantity"
+    FROM usage_events
+    WHERE "tenantId" = ${quotaLimit.tenantId}
+      AND "eventType" = ${quotaLimit.eventType}
+      AND "createdAt" >= ${from}
+      AND "createdAt" < ${to}
+    GROUP BY 1
+  `;
+  const byDay = new Map(
+    rows.map((row) => [row.usageDate.getTime(), Number(row.quantity)]),
+  );
+  return buckets.map((bucket) => byDay.get(bucket.start.getTime()) ?? 0);
+}
+
+// A tenant quota's window at `now` and how to count and reserve against it
+function loadTenantQuota(quotaLimit: QuotaLimit, now: Date = new Date()) {
+  const window = getQuotaWindow(quotaLimit, now);
+  const [current, ...previous] = window.buckets;
+
+  return {
+    window,
+    policy: tenantQuotaPolicy(quotaLimit, window),
+    usage: () => tenantUsageBetween(quotaLimit, window.start, window.end),
+    // Counters missing from Redis start from recorded usage, so both paths
+    // agree
+    seed: () =>
+      seedCounters(
+        window.buckets.map((bucket) => bucket.key),
+        (missing) =>
+          tenantBucketUsage(
+            quotaLimit,
+            window.buckets.filter((bucket) => missing.includes(bucket.key)),
+          ),
+        window.ttlSeconds,
+      ),
+    reservation: (quantity: number): QuotaReservationItem => ({
+      key: current!.key,
+      readKeys: previous.map((bucket) => bucket.key),
+      quantity,
+      policy: tenantQuotaPolicy(quotaLimit, window),
+      ttlSeconds: window.ttlSeconds,
+    }),
+  };
+}
+
+const NO_TENANT_QUOTA: EnhancedQuotaResult = {
+  quotaExists: false,
+  allowed: true,
+  current: 0,
+  limit: Infinity,
+  enforcementMode: "DISABLED",
+};
+
+/**
+ * Current usage of a tenant quota, and whether `quantity` more would fit,
+ * without counting anything
+ */
+export async function getQuotaStatus(
   options: QuotaCheckOptions,
 ): Promise<EnhancedQuotaResult> {
   const { tenantId, eventType, quantity } = options;
 
-  // Fetch quota limit from database
   const quotaLimit = await prisma.quotaLimit.findUnique({
     where: {
       tenantId_eventType: {
@@ -34,102 +313,350 @@ export async function checkQuota(
     },
   });
 
-  // No quota configured - allow everything
-  if (!quotaLimit) {
-    return {
-      quotaExists: false,
-      allowed: true,
-      current: 0,
-      limit: Infinity,
-      enforcementMode: "DISABLED",
-    };
-  }
+  if (!quotaLimit) return NO_TENANT_QUOTA;
 
-  const periodId = new Date().toISOString().slice(0, 7); // YYYY-MM format
+  const quota = loadTenantQuota(quotaLimit);
 
-  const result = await withRedisFallback(
+  const usage = await withRedisFallback(
     async () => {
-      return checkQuotaEnhanced(tenantId, eventType, quantity, periodId, {
-        hardLimit: Number(quotaLimit.limitValue),
-        softLimit: quotaLimit.softLimitValue
-          ? Number(quotaLimit.softLimitValue)
-          : undefined,
-        enforcementMode: quotaLimit.enforcementMode,
-        gracePeriodEnd: quotaLimit.gracePeriodEnd ?? undefined,
-        overageAllowed: quotaLimit.overageAllowed
-          ? Number(quotaLimit.overageAllowed)
-          : undefined,
-        resetAt: quotaLimit.resetAt,
-      });
+      await quota.seed();
+      return sumCounters(quota.window.buckets.map((bucket) => bucket.key));
+    },
+    () => quota.usage(),
+  );
+
+  return {
+    ...evaluateQuota(usage, quantity, quota.policy),
+    current: usage,
+    quotaExists: true,
+  };
+}
+
+/**
+ * Build quota error response with reset time information
+ */
+export function buildQuotaErrorResponse(result: EnhancedQuotaResult) {
+  return {
+    error: "Quota exceeded",
+    code: "QUOTA_EXCEEDED",
+    details: {
+      current: result.current,
+      limit: result.limit,
+      softLimit: result.softLimit,
+      enforcementMode: result.enforcementMode,
+      resetAt: result.resetAt?.toISOString(),
+      gracePeriodEnd: result.gracePeriodEnd?.toISOString(),
     },
+  };
+}
+
+export interface OrganizationQuotaResult extends QuotaCheckResult {
+  quotaExists: boolean;
+}
+
+// The organization-wide quota in force now, or null when there is none
+async function loadOrganizationQuota(organizationId: string) {
+  const [organization, subscription, plan] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: {
+        eventQuotaMode: true,
+        eventQuotaSoftPercent: true,
+        eventQuotaOveragePercent: true,
+      },
+    }),
+    prisma.subscription.findFirst({
+      where: {
+        organizationId,
+        status: { in: ["ACTIVE", "TRIALING", "PAST_DUE"] },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    getEffectivePlan(organizationId),
+  ]);
+
+  if (!organization?.eventQuotaMode || !subscription || !plan) return null;
+
+  const limit = plan.includedEvents;
+  const policy: QuotaPolicy = {
+    hardLimit: limit,
+    softLimit: (limit * organization.eventQuotaSoftPercent) / 100,
+    overageAllowed: (limit * organization.eventQuotaOveragePercent) / 100,
+    enforcementMode: organization.eventQuotaMode,
+    resetAt: subscription.currentPeriodEnd,
+  };
+
+  // Counted by ingestion time, as the Redis counter is, so backdated and
+  // late events count in the period they arrived in either way
+  const usage = async () => {
+    const result = await prisma.usageEvent.aggregate({
+      where: {
+        organizationId,
+        createdAt: {
+          gte: subscription.currentPeriodStart,
+          lt: subscription.currentPeriodEnd,
+        },
+      },
+      _sum: { quantity: true },
+    });
+    return Number(result._sum.quantity || 0);
+  };
+
+  const key = getOrgQuotaKey(
+    organizationId,
+    subscription.currentPeriodStart.toISOString(),
+  );
+
+  return {
+    policy,
+    usage,
+    key,
+    // The Redis counter starts from the period's recorded usage and is kept
+    // a day past the period end
+    seed: () =>
+      seedCounter(
+        key,
+        usage,
+        Math.max(
+          Math.ceil(
+            (subscription.currentPeriodEnd.getTime() - Date.now()) / 1000,
+          ) + 86400,
+          86400,
+        ),
+      ),
+  };
+}
+
+const NO_ORGANIZATION_QUOTA: OrganizationQuotaResult = {
+  quotaExists: false,
+  allowed: true,
+  current: 0,
+  limit: Infinity,
+  enforcementMode: "DISABLED",
+};
+
+/**
+ * Check events against the organization-wide quota: the effective plan's
+ * includedEvents over the subscription's current billing period
+ *
+ * Only applies when the organization has set an eventQuotaMode and has a
+ * live subscription.
+ */
+export async function checkOrganizationQuota(options: {
+  organizationId: string;
+  quantity: number;
+}): Promise<OrganizationQuotaResult> {
+  const { organizationId, quantity } = options;
+
+  const quota = await loadOrganizationQuota(organizationId);
+  if (!quota) return NO_ORGANIZATION_QUOTA;
+
+  const result = await withRedisFallback(
     async () => {
-      // Database fallback - aggregate usage since reset
-      const usage = await prisma.usageEvent.aggregate({
-        where: {
-          tenantId,
-          eventType,
-          timestamp: {
-            gte: quotaLimit.resetAt,
+      await quota.seed();
+      return checkQuotaAtKey(quota.key, quantity, quota.policy);
+    },
+    async () => evaluateQuota(await quota.usage(), quantity, quota.policy),
+  );
+
+  return {
+    ...result,
+    quotaExists: true,
+  };
+}
+
+export interface QuotaUsage {
+  tenantId: string;
+  eventType: string;
+  quantity: number;
+}
+
+export interface EventQuotaReservation {
+  allowed: boolean;
+  // Keyed by `${tenantId}:${eventType}`, for those with a QuotaLimit
+  tenants: Map<string, EnhancedQuotaResult>;
+  organization: OrganizationQuotaResult;
+  // Give back the quota reserved for events that were not stored
+  release(usage: QuotaUsage[]): Promise<void>;
+}
+
+function groupUsage(usage: QuotaUsage[]) {
+  const grouped = new Map<string, QuotaUsage>();
+  for (const item of usage) {
+    const key = `${item.tenantId}:${item.eventType}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      grouped.set(key, { ...item });
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Reserve quota for a batch of events before they are stored
+ *
+ * Every tenant QuotaLimit the batch touches and the organization-wide quota
+ * are checked and incremented in one atomic Redis step, so concurrent
+ * batches cannot together overshoot a limit. Nothing is reserved unless the
+ * whole batch fits. Without Redis the check falls back to recorded usage,
+ * which is not atomic.
+ */
+export async function reserveEventQuotas(
+  organizationId: string,
+  usage: QuotaUsage[],
+): Promise<EventQuotaReservation> {
+  const grouped = groupUsage(usage);
+  const now = new Date();
+
+  const [quotaLimits, orgQuota] = await Promise.all([
+    grouped.size > 0
+      ? prisma.quotaLimit.findMany({
+          where: {
+            OR: [...grouped.values()].map(({ tenantId, eventType }) => ({
+              tenantId,
+              eventType,
+            })),
           },
-        },
-        _sum: {
-          quantity: true,
-        },
-      });
-
-      const current = Number(usage._sum.quantity || 0);
-      const limit = Number(quotaLimit.limitValue);
-      const softLimit = quotaLimit.softLimitValue
-        ? Number(quotaLimit.softLimitValue)
-        : undefined;
-      const projectedUsage = current + quantity;
-
-      const inGracePeriod =
-        quotaLimit.gracePeriodEnd && new Date() < quotaLimit.gracePeriodEnd;
-
-      let allowed = true;
-      if (quotaLimit.enforcementMode === "HARD") {
-        allowed = projectedUsage <= limit || !!inGracePeriod;
-      } else if (quotaLimit.enforcementMode === "SOFT") {
-        const maxAllowed =
-          limit +
-          (quotaLimit.overageAllowed ? Number(quotaLimit.overageAllowed) : 0);
-        allowed = projectedUsage <= maxAllowed || !!inGracePeriod;
-      }
+        })
+      : [],
+    loadOrganizationQuota(organizationId),
+  ]);
+
+  const limited = quotaLimits.map((quotaLimit) => {
+    const group = `${quotaLimit.tenantId}:${quotaLimit.eventType}`;
+    const quota = loadTenantQuota(quotaLimit, now);
+    return {
+      group,
+      quota,
+      item: quota.reservation(grouped.get(group)!.quantity),
+    };
+  });
+  const total = usage.reduce((sum, item) => sum + item.quantity, 0);
+
+  const reservation = await withRedisFallback(
+    async () => {
+      await Promise.all([
+        ...limited.map(({ quota }) => quota.seed()),
+        ...(orgQuota ? [orgQuota.seed()] : []),
+      ]);
+
+      const { allowed, results } = await reserveQuota([
+        ...limited.map(({ item }) => item),
+        ...(orgQuota
+          ? [{ key: orgQuota.key, quantity: total, policy: orgQuota.policy }]
+          : []),
+      ]);
 
       return {
         allowed,
-        current: projectedUsage,
-        limit,
-        softLimit,
-        warning: softLimit ? projectedUsage > softLimit : false,
-        enforcementMode: quotaLimit.enforcementMode,
-        resetAt: quotaLimit.resetAt,
-        gracePeriodEnd: quotaLimit.gracePeriodEnd ?? undefined,
+        results,
+        release: async (released: QuotaUsage[]) => {
+          const byGroup = groupUsage(released);
+          await releaseQuota([
+            ...limited
+              .filter((item) => byGroup.has(item.group))
+              .map(({ group, item }) => ({
+                key: item.key,
+                quantity: byGroup.get(group)!.quantity,
+              })),
+            ...(orgQuota
+              ? [
+                  {
+                    key: orgQuota.key,
+                    quantity: released.reduce((sum, r) => sum + r.quantity, 0),
+                  },
+                ]
+              : []),
+          ]);
+        },
+      };
+    },
+    async () => {
+      const results = await Promise.all([
+        ...limited.map(async ({ quota, item }) =>
+          evaluateQuota(await quota.usage(), item.quantity, item.policy),
+        ),
+        ...(orgQuota
+          ? [
+              (async () =>
+                evaluateQuota(
+                  await orgQuota.usage(),
+                  total,
+                  orgQuota.policy,
+                ))(),
+            ]
+          : []),
+      ]);
+
+      return {
+        allowed: results.every((result) => result.allowed),
+        results,
+        // Nothing was counted ahead of the insert
+        release: async () => {},
       };
     },
   );
 
   return {
-    ...result,
-    quotaExists: true,
+    allowed: reservation.allowed,
+    tenants: new Map(
+      limited.map((item, i) => [
+        item.group,
+        { ...reservation.results[i]!, quotaExists: true },
+      ]),
+    ),
+    organization: orgQuota
+      ? { ...reservation.results[limited.length]!, quotaExists: true }
+      : NO_ORGANIZATION_QUOTA,
+    release: reservation.release,
   };
 }
 
 /**
- * Build quota error response with reset time information
+ * Build organization quota error response
  */
-export function buildQuotaErrorResponse(result: EnhancedQuotaResult) {
+export function buildOrganizationQuotaErrorResponse(
+  result: OrganizationQuotaResult,
+) {
   return {
-    error: "Quota exceeded",
-    code: "QUOTA_EXCEEDED",
+    error: "Organization quota exceeded",
+    code: "ORGANIZATION_QUOTA_EXCEEDED",
     details: {
       current: result.current,
       limit: result.limit,
       softLimit: result.softLimit,
       enforcementMode: result.enforcementMode,
       resetAt: result.resetAt?.toISOString(),
-      gracePeriodEnd: result.gracePeriodEnd?.toISOString(),
     },
   };
 }
+
+/**
+ * Response headers reporting organization quota usage, with a warning once
+ * usage passes the soft limit or the plan's included events
+ */
+export function buildOrganizationQuotaHeaders(
+  result: OrganizationQuotaResult,
+): Record<string, string> {
+  if (!result.quotaExists) return {};
+
+  const headers: Record<string, string> = {
+    "X-Org-Quota-Limit": String(result.limit),
+    "X-Org-Quota-Used": String(result.current),
+    "X-Org-Quota-Remaining": String(Math.max(0, result.limit - result.current)),
+    "X-Org-Quota-Mode": result.enforcementMode,
+  };
+  if (result.resetAt) {
+    headers["X-Org-Quota-Reset"] = result.resetAt.toISOString();
+  }
+
+  if (result.current > result.limit) {
+    headers["X-Org-Quota-Warning"] = "included_events_exceeded";
+  } else if (result.softLimit && result.current > result.softLimit) {
+    headers["X-Org-Quota-Warning"] = "soft_limit_exceeded";
+  }
+
+  return headers;
+}
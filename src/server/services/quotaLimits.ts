@@ -0,0 +1,420 @@
+import {
+  Prisma,
+  type QuotaEnforcementMode,
+  type QuotaLimit,
+  type QuotaLimitType,
+} from "@prisma/client";
+import { prisma } from "@/server/db/prisma";
+import { syncQuotaLimitKey, withRedisFallback } from "@/server/db/redis";
+import { getQuotaWindow } from "@/server/services/quota";
+
+export class QuotaLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT",
+  ) {
+    super(message);
+    this.name = "QuotaLimitError";
+  }
+}
+
+export type QuotaLimitSettings = {
+  limitType: QuotaLimitType;
+  limitValue: number;
+  // CUSTOM only: period length in days from resetAt
+  periodDays: number | null;
+  resetAt: Date;
+  softLimitValue: number | null;
+  enforcementMode: QuotaEnforcementMode;
+  overageAllowed: number | null;
+  gracePeriodEnd: Date | null;
+};
+
+export type QuotaLimitView = QuotaLimitSettings & {
+  id: string;
+  tenantId: string;
+  eventType: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export function toQuotaLimitView(quotaLimit: QuotaLimit): QuotaLimitView {
+  return {
+    id: quotaLimit.id,
+    tenantId: quotaLimit.tenantId,
+    eventType: quotaLimit.eventType,
+    limitType: quotaLimit.limitType,
+    limitValue: Number(quotaLimit.limitValue),
+    periodDays: quotaLimit.periodDays,
+    resetAt: quotaLimit.resetAt,
+    softLimitValue:
+      quotaLimit.softLimitValue === null
+        ? null
+        : Number(quotaLimit.softLimitValue),
+    enforcementMode: quotaLimit.enforcementMode,
+    overageAllowed:
+      quotaLimit.overageAllowed === null
+        ? null
+        : Number(quotaLimit.overageAllowed),
+    gracePeriodEnd: quotaLimit.gracePeriodEnd,
+    createdAt: quotaLimit.createdAt,
+    updatedAt: quotaLimit.updatedAt,
+  };
+}
+
+export function validateQuotaSettings(
+  settings: Pick<
+    QuotaLimitSettings,
+    "limitType" | "limitValue" | "periodDays" | "softLimitValue"
+  >,
+) {
+  if (
+    settings.softLimitValue !== null &&
+    settings.softLimitValue > settings.limitValue
+  ) {
+    throw new QuotaLimitError(
+      "Soft limit cannot be above the limit",
+      "BAD_REQUEST",
+    );
+  }
+  if (settings.periodDays !== null && settings.limitType !== "CUSTOM") {
+    throw new QuotaLimitError(
+      "periodDays only applies to CUSTOM limits",
+      "BAD_REQUEST",
+    );
+  }
+}
+
+// Start of the period in progress for a new quota; a CUSTOM period starts
+// now
+export function defaultResetAt(
+  limitType: QuotaLimitType,
+  periodDays: number | null,
+  now: Date = new Date(),
+) {
+  return getQuotaWindow(
+    { tenantId: "", eventType: "", limitType, periodDays, resetAt: now },
+    now,
+  ).start;
+}
+
+// Settings in audit logs, with dates as ISO strings
+function auditSettings(settings: QuotaLimitSettings) {
+  return {
+    limitType: settings.limitType,
+    limitValue: settings.limitValue,
+    periodDays: settings.periodDays,
+    resetAt: settings.resetAt.toISOString(),
+    softLimitValue: settings.softLimitValue,
+    enforcementMode: settings.enforcementMode,
+    overageAllowed: settings.overageAllowed,
+    gracePeriodEnd: settings.gracePeriodEnd?.toISOString() ?? null,
+  };
+}
+
+// Keep the Redis copy of limits in step; a failure only logs, and the next
+// change writes it again
+export async function syncLimitKeys(
+  limits: { tenantId: string; eventType: string; limitValue: number | null }[],
+) {
+  await withRedisFallback(
+    async () => {
+      await Promise.all(
+        limits.map((limit) =>
+          syncQuotaLimitKey(limit.tenantId, limit.eventType, limit.limitValue),
+        ),
+      );
+    },
+    async () => undefined,
+  );
+}
+
+async function findOrganizationQuotaLimit(
+  organizationId: string,
+  quotaLimitId: string,
+) {
+  const quotaLimit = await prisma.quotaLimit.findFirst({
+    where: { id: quotaLimitId, tenant: { organizationId } },
+  });
+  if (!quotaLimit) {
+    throw new QuotaLimitError("Quota limit not found", "NOT_FOUND");
+  }
+  return quotaLimit;
+}
+
+export async function listQuotaLimits(options: {
+  organizationId: string;
+  tenantId?: string;
+  eventType?: string;
+}) {
+  const quotaLimits = await prisma.quotaLimit.findMany({
+    where: {
+      tenant: { organizationId: options.organizationId },
+      tenantId: options.tenantId,
+      eventType: options.eventType,
+    },
+    include: {
+      tenant: { select: { id: true, externalId: true, name: true } },
+    },
+    orderBy: [{ tenantId: "asc" }, { eventType: "asc" }],
+  });
+
+  return quotaLimits.map((quotaLimit) => ({
+    ...toQuotaLimitView(quotaLimit),
+    tenant: quotaLimit.tenant,
+  }));
+}
+
+export async function getQuotaLimit(options: {
+  organizationId: string;
+  quotaLimitId: string;
+}) {
+  return toQuotaLimitView(
+    await findOrganizationQuotaLimit(
+      options.organizationId,
+      options.quotaLimitId,
+    ),
+  );
+}
+
+/**
+ * Create the quota for one tenant and event type
+ *
+ * resetAt defaults to the start of the period in progress.
+ */
+export async function createQuotaLimit(
+  options: {
+    organizationId: string;
+    userId?: string;
+    tenantId: string;
+    eventType: string;
+  } & Partial<QuotaLimitSettings> &
+    Pick<QuotaLimitSettings, "limitValue">,
+): Promise<QuotaLimitView> {
+  const { organizationId, userId, tenantId, eventType } = options;
+
+  const tenant = await prisma.tenant.findFirst({
+    where: { id: tenantId, organizationId },
+  });
+  if (!tenant) {
+    throw new QuotaLimitError("Tenant not found", "NOT_FOUND");
+  }
+
+  const conflict = new QuotaLimitError(
+    `A quota for ${eventType} already exists for this tenant`,
+    "CONFLICT",
+  );
+  const existing = await prisma.quotaLimit.findUnique({
+    where: { tenantId_eventType: { tenantId, eventType } },
+  });
+  if (existing) throw conflict;
+
+  const limitType = options.limitType ?? "MONTHLY";
+  const periodDays = options.periodDays ?? null;
+  const settings: QuotaLimitSettings = {
+    limitType,
+    limitValue: options.limitValue,
+    periodDays,
+    resetAt: options.resetAt ?? defaultResetAt(limitType, periodDays),
+    softLimitValue: options.softLimitValue ?? null,
+    enforcementMode: options.enforcementMode ?? "HARD",
+    overageAllowed: options.overageAllowed ?? null,
+    gracePeriodEnd: options.gracePeriodEnd ?? null,
+  };
+  validateQuotaSettings(settings);
+
+  let quotaLimit: QuotaLimit;
+  try {
+    quotaLimit = await prisma.$transaction(async (tx) => {
+      const created = await tx.quotaLimit.create({
+        data: { tenantId, eventType, ...settings },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          organizationId,
+          tenantId,
+          userId,
+          action: "QUOTA_LIMIT_CREATED",
+          resourceType: "quota_limit",
+          resourceId: created.id,
+          changes: { eventType, ...auditSettings(settings) },
+        },
+      });
+
+      return created;
+    });
+  } catch (error) {
+    // Unique violation: a concurrent request created it since the lookup
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw conflict;
+    }
+    throw error;
+  }
+
+  await syncLimitKeys([
+    { tenantId, eventType, limitValue: settings.limitValue },
+  ]);
+  return toQuotaLimitView(quotaLimit);
+}
+
+/**
+ * Change a quota's settings. Fields left out keep their value; null clears
+ * an optional one.
+ */
+export async function updateQuotaLimit(
+  options: {
+    organizationId: string;
+    userId?: string;
+    quotaLimitId: string;
+  } & Partial<QuotaLimitSettings>,
+): Promise<QuotaLimitView> {
+  const { organizationId, userId, quotaLimitId } = options;
+
+  const existing = await findOrganizationQuotaLimit(
+    organizationId,
+    quotaLimitId,
+  );
+  const before = toQuotaLimitView(existing);
+
+  const settings: QuotaLimitSettings = {
+    limitType: options.limitType ?? before.limitType,
+    limitValue: options.limitValue ?? before.limitValue,
+    periodDays:
+      options.periodDays !== undefined ? options.periodDays : before.periodDays,
+    resetAt: options.resetAt ?? before.resetAt,
+    softLimitValue:
+      options.softLimitValue !== undefined
+        ? options.softLimitValue
+        : before.softLimitValue,
+    enforcementMode: options.enforcementMode ?? before.enforcementMode,
+    overageAllowed:
+      options.overageAllowed !== undefined
+        ? options.overageAllowed
+        : before.overageAllowed,
+    gracePeriodEnd:
+      options.gracePeriodEnd !== undefined
+        ? options.gracePeriodEnd
+        : before.gracePeriodEnd,
+  };
+  // Switching away from CUSTOM drops its period length
+  if (settings.limitType !== "CUSTOM" && options.periodDays === undefined) {
+    settings.periodDays = null;
+  }
+  validateQuotaSettings(settings);
+
+  const quotaLimit = await prisma.$transaction(async (tx) => {
+    const updated = await tx.quotaLimit.update({
+      where: { id: quotaLimitId },
+      data: settings,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        organizationId,
+        tenantId: existing.tenantId,
+        userId,
+        action: "QUOTA_LIMIT_UPDATED",
+        resourceType: "quota_limit",
+        resourceId: quotaLimitId,
+        changes: {
+          eventType: existing.eventType,
+          before: auditSettings(before),
+          after: auditSettings(settings),
+        },
+      },
+    });
+
+    return updated;
+  });
+
+  await syncLimitKeys([
+    {
+      tenantId: quotaLimit.tenantId,
+      eventType: quotaLimit.eventType,
+      limitValue: settings.limitValue,
+    },
+  ]);
+  return toQuotaLimitView(quotaLimit);
+}
+
+export async function deleteQuotaLimit(options: {
+  organizationId: string;
+  userId?: string;
+  quotaLimitId: string;
+}) {
+  const { organizationId, userId, quotaLimitId } = options;
+
+  const existing = await findOrganizationQuotaLimit(
+    organizationId,
+    quotaLimitId,
+  );
+
+  await prisma.$transaction([
+    prisma.quotaLimit.delete({ where: { id: quotaLimitId } }),
+    prisma.auditLog.create({
+      data: {
+        organizationId,
+        tenantId: existing.tenantId,
+        userId,
+        action: "QUOTA_LIMIT_DELETED",
+        resourceType: "quota_limit",
+        resourceId: quotaLimitId,
+        changes: {
+          eventType: existing.eventType,
+          ...auditSettings(toQuotaLimitView(existing)),
+        },
+      },
+    }),
+  ]);
+
+  await syncLimitKeys([
+    {
+      tenantId: existing.tenantId,
+      eventType: existing.eventType,
+      limitValue: null,
+    },
+  ]);
+  return { success: true };
+}
+
+const ERROR_STATUS: Record<QuotaLimitError["code"], number> = {
+  NOT_FOUND: 404,
+  BAD_REQUEST: 400,
+  CONFLICT: 409,
+};
+
+/**
+ * Build the /api/v1 response for a rejected quota change
+ */
+export function buildQuotaLimitErrorResponse(error: QuotaLimitError) {
+  return {
+    body: { error: error.message, code: error.code },
+    status: ERROR_STATUS[error.code],
+  };
+}
+
+// The shape /api/v1/quotas serves, with the tenant's external id
+export function toApiQuotaLimit(
+  quotaLimit: QuotaLimitView,
+  tenantExternalId: string,
+) {
+  return {
+    id: quotaLimit.id,
+    tenant_id: tenantExternalId,
+    event_type: quotaLimit.eventType,
+    limit_type: quotaLimit.limitType,
+    limit_value: quotaLimit.limitValue,
+    period_days: quotaLimit.periodDays,
+    reset_at: quotaLimit.resetAt.toISOString(),
+    soft_limit_value: quotaLimit.softLimitValue,
+    enforcement_mode: quotaLimit.enforcementMode,
+    overage_allowed: quotaLimit.overageAllowed,
+    grace_period_end: quotaLimit.gracePeriodEnd?.toISOString() ?? null,
+    created_at: quotaLimit.createdAt.toISOString(),
+    updated_at: quotaLimit.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,156 @@
+import type { QuotaLimit } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { rollQuotaPeriod } from "@/server/services/quotaPeriods";
+
+type Row = Record<string, unknown>;
+
+const db = vi.hoisted(() => ({
+  resetAt: null as Date | null,
+  events: [] as Array<{ createdAt: Date; quantity: number }>,
+  archived: new Map<string, Row>(),
+}));
+
+const deleteKeys = vi.hoisted(() =>
+  vi.fn(async (keys: string[]) => keys.length),
+);
+
+vi.mock("@/server/db/redis", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/server/db/redis")>()),
+  deleteKeys,
+  withRedisFallback: (operation: () => Promise<unknown>) => operation(),
+}));
+
+vi.mock("@/server/db/prisma", () => {
+  const prisma = {
+    $transaction: (operation: (tx: unknown) => Promise<unknown>) =>
+      operation(prisma),
+    quotaLimit: {
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { resetAt: Date };
+        data: { resetAt: Date };
+      }) => {
+        if (db.resetAt?.getTime() !== where.resetAt.getTime()) {
+          return { count: 0 };
+        }
+        db.resetAt = data.resetAt;
+        return { count: 1 };
+      },
+    },
+    quotaPeriodUsage: {
+      upsert: async ({ create }: { create: Row }) => {
+        db.archived.set((create.periodStart as Date).toISOString(), create);
+        return create;
+      },
+    },
+    usageEvent: {
+      aggregate: async ({
+        where,
+      }: {
+        where: { createdAt: { gte: Date; lt: Date } };
+      }) => ({
+        _sum: {
+          quantity: db.events
+            .filter(
+              (event) =>
+                event.createdAt >= where.createdAt.gte &&
+                event.createdAt < where.createdAt.lt,
+            )
+            .reduce((total, event) => total + event.quantity, 0),
+        },
+      }),
+    },
+  };
+  return { prisma };
+});
+
+function quotaLimit(
+  limitType: QuotaLimit["limitType"],
+  resetAt: string,
+): QuotaLimit {
+  db.resetAt = new Date(resetAt);
+  return {
+    id: "quota_1",
+    tenantId: "tenant_1",
+    eventType: "api_call",
+    limitType,
+    resetAt: new Date(resetAt),
+    periodDays: null,
+  } as QuotaLimit;
+}
+
+function usage(at: string, quantity: number) {
+  db.events.push({ createdAt: new Date(at), quantity });
+}
+
+const archived = () =>
+  [...db.archived.values()]
+    .map((row) => ({
+      periodStart: (row.periodStart as Date).toISOString().slice(0, 10),
+      periodEnd: (row.periodEnd as Date).toISOString().slice(0, 10),
+      consumed: row.consumed,
+    }))
+    .sort((a, b) => a.periodStart.localeCompare(b.periodStart));
+
+describe("rollQuotaPeriod", () => {
+  beforeEach(() => {
+    db.events = [];
+    db.archived.clear();
+    deleteKeys.mockClear();
+  });
+
+  it("archives every month closed since the last run", async () => {
+    usage("2026-06-10T00:00:00Z", 5);
+    usage("2026-07-10T00:00:00Z", 7);
+    usage("2026-08-02T00:00:00Z", 1);
+
+    const result = await rollQuotaPeriod(
+      quotaLimit("MONTHLY", "2026-06-01T00:00:00Z"),
+      new Date("2026-08-15T00:00:00Z"),
+    );
+
+    expect(result.status).toBe("rolled");
+    expect(archived()).toEqual([
+      { periodStart: "2026-06-01", periodEnd: "2026-07-01", consumed: 5 },
+      { periodStart: "2026-07-01", periodEnd: "2026-08-01", consumed: 7 },
+    ]);
+    expect(db.resetAt).toEqual(new Date("2026-08-01T00:00:00Z"));
+    expect(deleteKeys.mock.calls[0]![0]).toEqual([
+      "quota:tenant:tenant_1:event:api_call:period:2026-06",
+      "quota:tenant:tenant_1:event:api_call:period:2026-07",
+    ]);
+  });
+
+  it("archives each day a rolling window leaves once", async () => {
+    usage("2026-06-01T12:00:00Z", 2);
+    usage("2026-06-02T12:00:00Z", 3);
+    usage("2026-06-03T12:00:00Z", 4);
+    const limit = quotaLimit("ROLLING_30D", "2026-06-01T00:00:00Z");
+
+    // The window starts on June 2 and then, two missed days later, June 4
+    await rollQuotaPeriod(limit, new Date("2026-07-01T06:00:00Z"));
+    await rollQuotaPeriod(
+      { ...limit, resetAt: db.resetAt! },
+      new Date("2026-07-03T06:00:00Z"),
+    );
+
+    expect(archived()).toEqual([
+      { periodStart: "2026-06-01", periodEnd: "2026-06-02", consumed: 2 },
+      { periodStart: "2026-06-02", periodEnd: "2026-06-03", consumed: 3 },
+      { periodStart: "2026-06-03", periodEnd: "2026-06-04", consumed: 4 },
+    ]);
+    expect(db.resetAt).toEqual(new Date("2026-06-04T00:00:00Z"));
+  });
+
+  it("leaves a quota whose period has not closed", async () => {
+    const result = await rollQuotaPeriod(
+      quotaLimit("MONTHLY", "2026-08-01T00:00:00Z"),
+      new Date("2026-08-15T00:00:00Z"),
+    );
+
+    expect(result.status).toBe("current");
+    expect(db.archived.size).toBe(0);
+  });
+});
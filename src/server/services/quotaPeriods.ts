@@ -0,0 +1,211 @@
+import type { QuotaLimit } from "@prisma/client";
+import { prisma } from "@/server/db/prisma";
+import { deleteKeys, withRedisFallback } from "@/server/db/redis";
+import {
+  getQuotaPeriods,
+  getQuotaStatus,
+  getQuotaWindow,
+  tenantUsageBetween,
+} from "@/server/services/quota";
+
+const BATCH_SIZE = 500;
+
+export type QuotaRolloverResult = {
+  quotaLimitId: string;
+  tenantId: string;
+  eventType: string;
+  status: "rolled" | "current" | "failed";
+  // The archived periods, when any closed
+  periods?: Array<{ periodStart: string; consumed: number }>;
+  resetAt?: string;
+  error?: string;
+};
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Move a tenant quota on to the period containing `now`
+ *
+ * When the period resetAt points into has closed, every period from it up to
+ * the current one is archived with its final consumption, including those
+ * from runs that never happened. A rolling window archives each day as it
+ * leaves the window, so archived days never overlap. resetAt then moves to
+ * the current period's start and the Redis counters no longer read are
+ * deleted.
+ */
+export async function rollQuotaPeriod(
+  quotaLimit: QuotaLimit,
+  now: Date = new Date(),
+): Promise<QuotaRolloverResult> {
+  const result: QuotaRolloverResult = {
+    quotaLimitId: quotaLimit.id,
+    tenantId: quotaLimit.tenantId,
+    eventType: quotaLimit.eventType,
+    status: "current",
+  };
+
+  const current = getQuotaWindow(quotaLimit, now);
+  if (current.start <= quotaLimit.resetAt) return result;
+
+  const closed = getQuotaPeriods(quotaLimit, quotaLimit.resetAt, current.start);
+  const periods = await Promise.all(
+    closed.map(async (period) => ({
+      ...period,
+      consumed: await tenantUsageBetween(quotaLimit, period.start, period.end),
+    })),
+  );
+
+  // Only the run that moves resetAt archives; a concurrent one finds it
+  // already moved
+  const rolled = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.quotaLimit.updateMany({
+      where: { id: quotaLimit.id, resetAt: quotaLimit.resetAt },
+      data: { resetAt: current.start },
+    });
+    if (count === 0) return false;
+
+    for (const period of periods) {
+      const archived = {
+        limitType: quotaLimit.limitType,
+        periodEnd: period.end,
+        consumed: period.consumed,
+        limitValue: quotaLimit.limitValue,
+      };
+      await tx.quotaPeriodUsage.upsert({
+        where: {
+          tenantId_eventType_periodStart: {
+            tenantId: quotaLimit.tenantId,
+            eventType: quotaLimit.eventType,
+            periodStart: period.start,
+          },
+        },
+        create: {
+          tenantId: quotaLimit.tenantId,
+          eventType: quotaLimit.eventType,
+          periodStart: period.start,
+          ...archived,
+        },
+        update: archived,
+      });
+    }
+    return true;
+  });
+
+  if (!rolled) return result;
+
+  const live = new Set(current.buckets.map((bucket) => bucket.key));
+  await withRedisFallback(
+    () =>
+      deleteKeys(
+        periods.map((period) => period.key).filter((key) => !live.has(key)),
+      ),
+    // Left to expire on their own
+    async () => 0,
+  );
+
+  return {
+    ...result,
+    status: "rolled",
+    periods: periods.map((period) => ({
+      periodStart: period.start.toISOString(),
+      consumed: period.consumed,
+    })),
+    resetAt: current.start.toISOString(),
+  };
+}
+
+/**
+ * Roll forward every quota whose resetAt has passed
+ */
+export async function rollAllQuotaPeriods(now: Date = new Date()) {
+  const results: QuotaRolloverResult[] = [];
+  let cursor: string | undefined;
+
+  while (true) {
+    const quotaLimits = await prisma.quotaLimit.findMany({
+      where: { resetAt: { lt: now } },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (quotaLimits.length === 0) break;
+
+    for (const quotaLimit of quotaLimits) {
+      try {
+        results.push(await rollQuotaPeriod(quotaLimit, now));
+      } catch (error) {
+        console.error(`Quota rollover failed for ${quotaLimit.id}:`, error);
+        results.push({
+          quotaLimitId: quotaLimit.id,
+          tenantId: quotaLimit.tenantId,
+          eventType: quotaLimit.eventType,
+          status: "failed",
+          error: errorMessage(error),
+        });
+      }
+    }
+
+    cursor = quotaLimits[quotaLimits.length - 1]!.id;
+  }
+
+  return results;
+}
+
+/**
+ * A tenant's quota consumption period by period: the current period of
+ * each QuotaLimit, then archived periods, newest first. A rolling window's
+ * archived periods are the single days that left it.
+ */
+export async function getQuotaHistory(options: {
+  tenantId: string;
+  eventType?: string;
+  limit: number;
+}) {
+  const { tenantId, eventType, limit } = options;
+  const now = new Date();
+
+  const [quotaLimits, archived] = await Promise.all([
+    prisma.quotaLimit.findMany({
+      where: { tenantId, eventType },
+      orderBy: { eventType: "asc" },
+    }),
+    prisma.quotaPeriodUsage.findMany({
+      where: { tenantId, eventType },
+      orderBy: { periodStart: "desc" },
+      take: limit,
+    }),
+  ]);
+
+  const current = await Promise.all(
+    quotaLimits.map(async (quotaLimit) => {
+      const window = getQuotaWindow(quotaLimit, now);
+      const status = await getQuotaStatus({
+        tenantId,
+        eventType: quotaLimit.eventType,
+        quantity: 0,
+      });
+      return {
+        eventType: quotaLimit.eventType,
+        limitType: quotaLimit.limitType,
+        periodStart: window.start,
+        periodEnd: window.end,
+        consumed: status.current,
+        limitValue: Number(quotaLimit.limitValue),
+      };
+    }),
+  );
+
+  return {
+    current,
+    periods: archived.map((period) => ({
+      eventType: period.eventType,
+      limitType: period.limitType,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      consumed: Number(period.consumed),
+      limitValue: Number(period.limitValue),
+    })),
+  };
+}
@@ -0,0 +1,478 @@
+import type { QuotaTemplate, QuotaTemplateLimit } from "@prisma/client";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import {
+  defaultResetAt,
+  QuotaLimitError,
+  syncLimitKeys,
+  validateQuotaSettings,
+  type QuotaLimitSettings,
+} from "@/server/services/quotaLimits";
+
+export type QuotaTemplateLimitSettings = Pick<
+  QuotaLimitSettings,
+  | "limitType"
+  | "limitValue"
+  | "periodDays"
+  | "softLimitValue"
+  | "enforcementMode"
+  | "overageAllowed"
+> & { eventType: string };
+
+export type QuotaTemplateApplyResult = {
+  tenants: number;
+  created: number;
+  updated: number;
+  skipped: number;
+};
+
+// A template applied in a transaction, and the quota limits it created or
+// updated, whose Redis keys are synced once it commits
+export type QuotaTemplateWrite = {
+  applied: QuotaTemplateApplyResult;
+  written: { tenantId: string; eventType: string; limitValue: number }[];
+};
+
+type TemplateWithLimits = QuotaTemplate & { limits: QuotaTemplateLimit[] };
+
+function toTemplateLimit(
+  limit: QuotaTemplateLimit,
+): QuotaTemplateLimitSettings {
+  return {
+    eventType: limit.eventType,
+    limitType: limit.limitType,
+    limitValue: Number(limit.limitValue),
+    periodDays: limit.periodDays,
+    softLimitValue:
+      limit.softLimitValue === null ? null : Number(limit.softLimitValue),
+    enforcementMode: limit.enforcementMode,
+    overageAllowed:
+      limit.overageAllowed === null ? null : Number(limit.overageAllowed),
+  };
+}
+
+function toTemplateView(
+  template: TemplateWithLimits,
+  defaultTemplateId: string | null,
+) {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    isDefault: template.id === defaultTemplateId,
+    limits: template.limits.map(toTemplateLimit),
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+function validateTemplateLimits(limits: QuotaTemplateLimitSettings[]) {
+  const eventTypes = new Set(limits.map((limit) => limit.eventType));
+  if (eventTypes.size !== limits.length) {
+    throw new QuotaLimitError(
+      "A template can only have one limit per event type",
+      "BAD_REQUEST",
+    );
+  }
+  limits.forEach(validateQuotaSettings);
+}
+
+async function findOrganizationTemplate(
+  organizationId: string,
+  templateId: string,
+): Promise<TemplateWithLimits> {
+  const template = await prisma.quotaTemplate.findFirst({
+    where: { id: templateId, organizationId },
+    include: { limits: { orderBy: { eventType: "asc" } } },
+  });
+  if (!template) {
+    throw new QuotaLimitError("Quota template not found", "NOT_FOUND");
+  }
+  return template;
+}
+
+async function assertNameAvailable(
+  organizationId: string,
+  name: string,
+  exceptId?: string,
+) {
+  const existing = await prisma.quotaTemplate.findUnique({
+    where: { organizationId_name: { organizationId, name } },
+  });
+  if (existing && existing.id !== exceptId) {
+    throw new QuotaLimitError(
+      `A quota template named "${name}" already exists`,
+      "CONFLICT",
+    );
+  }
+}
+
+export async function listQuotaTemplates(organizationId: string) {
+  const [organization, templates] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { defaultQuotaTemplateId: true },
+    }),
+    prisma.quotaTemplate.findMany({
+      where: { organizationId },
+      include: { limits: { orderBy: { eventType: "asc" } } },
+      orderBy: { name: "asc" },
+    }),
+  ]);
+
+  const defaultTemplateId = organization?.defaultQuotaTemplateId ?? null;
+  return templates.map((template) =>
+    toTemplateView(template, defaultTemplateId),
+  );
+}
+
+export async function createQuotaTemplate(options: {
+  organizationId: string;
+  userId?: string;
+  name: string;
+  description?: string;
+  limits: QuotaTemplateLimitSettings[];
+}) {
+  const { organizationId, userId, name, limits } = options;
+
+  validateTemplateLimits(limits);
+  await assertNameAvailable(organizationId, name);
+
+  const template = await prisma.$transaction(async (tx) => {
+    const created = await tx.quotaTemplate.create({
+      data: {
+        organizationId,
+        name,
+        description: options.description,
+        limits: { create: limits },
+      },
+      include: { limits: { orderBy: { eventType: "asc" } } },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        organizationId,
+        userId,
+        action: "QUOTA_TEMPLATE_CREATED",
+        resourceType: "quota_template",
+        resourceId: created.id,
+        changes: { name, limits },
+      },
+    });
+
+    return created;
+  });
+
+  return toTemplateView(template, null);
+}
+
+/**
+ * Rename a template or replace its limits. Tenants it was applied to keep
+ * their quotas until it is applied again.
+ */
+export async function updateQuotaTemplate(options: {
+  organizationId: string;
+  userId?: string;
+  templateId: string;
+  name?: string;
+  description?: string | null;
+  limits?: QuotaTemplateLimitSettings[];
+}) {
+  const { organizationId, userId, templateId, name, limits } = options;
+
+  const existing = await findOrganizationTemplate(organizationId, templateId);
+  if (limits) validateTemplateLimits(limits);
+  if (name) await assertNameAvailable(organizationId, name, templateId);
+
+  const template = await prisma.$transaction(async (tx) => {
+    if (limits) {
+      await tx.quotaTemplateLimit.deleteMany({ where: { templateId } });
+    }
+
+    const updated = await tx.quotaTemplate.update({
+      where: { id: templateId },
+      data: {
+        name,
+        description: options.description,
+        ...(limits ? { limits: { create: limits } } : {}),
+      },
+      include: {
+        limits: { orderBy: { eventType: "asc" } },
+        defaultFor: { select: { id: true } },
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        organizationId,
+        userId,
+        action: "QUOTA_TEMPLATE_UPDATED",
+        resourceType: "quota_template",
+        resourceId: templateId,
+        changes: {
+          before: {
+            name: existing.name,
+            limits: existing.limits.map(toTemplateLimit),
+          },
+          after: {
+            name: updated.name,
+            limits: updated.limits.map(toTemplateLimit),
+          },
+        },
+      },
+    });
+
+    return updated;
+  });
+
+  return toTemplateView(template, template.defaultFor ? template.id : null);
+}
+
+export async function deleteQuotaTemplate(options: {
+  organizationId: string;
+  userId?: string;
+  templateId: string;
+}) {
+  const { organizationId, userId, templateId } = options;
+
+  const existing = await findOrganizationTemplate(organizationId, templateId);
+
+  // Deleting the default template leaves the organization without one
+  await prisma.$transaction([
+    prisma.quotaTemplate.delete({ where: { id: templateId } }),
+    prisma.auditLog.create({
+      data: {
+        organizationId,
+        userId,
+        action: "QUOTA_TEMPLATE_DELETED",
+        resourceType: "quota_template",
+        resourceId: templateId,
+        changes: {
+          name: existing.name,
+          limits: existing.limits.map(toTemplateLimit),
+        },
+      },
+    }),
+  ]);
+
+  return { success: true };
+}
+
+/**
+ * Choose the template applied to tenants auto-created by event ingestion,
+ * or none
+ */
+export async function setDefaultQuotaTemplate(options: {
+  organizationId: string;
+  userId?: string;
+  templateId: string | null;
+}) {
+  const { organizationId, userId, templateId } = options;
+
+  if (templateId) await findOrganizationTemplate(organizationId, templateId);
+
+  await prisma.$transaction([
+    prisma.organization.update({
+      where: { id: organizationId },
+      data: { defaultQuotaTemplateId: templateId },
+    }),
+    prisma.auditLog.create({
+      data: {
+        organizationId,
+        userId,
+        action: "QUOTA_TEMPLATE_DEFAULT_SET",
+        resourceType: "organization",
+        resourceId: organizationId,
+        changes: { templateId },
+      },
+    }),
+  ]);
+
+  return { defaultTemplateId: templateId };
+}
+
+type ApplyTemplateOptions = {
+  organizationId: string;
+  userId?: string;
+  template: TemplateWithLimits;
+  tenantIds: string[];
+  replaceExisting: boolean;
+  automatic: boolean;
+};
+
+// Copy a template's limits into QuotaLimits for each tenant. Existing quotas
+// for the same event type are kept unless `replaceExisting`, which updates
+// their limits but keeps resetAt and any grace period.
+async function writeTemplate(
+  tx: TransactionClient,
+  options: ApplyTemplateOptions,
+): Promise<QuotaTemplateWrite> {
+  const { organizationId, userId, template, tenantIds, replaceExisting } =
+    options;
+  const now = new Date();
+  const limits = template.limits.map(toTemplateLimit);
+  const settings = (limit: QuotaTemplateLimitSettings) => ({
+    limitType: limit.limitType,
+    limitValue: limit.limitValue,
+    periodDays: limit.periodDays,
+    softLimitValue: limit.softLimitValue,
+    enforcementMode: limit.enforcementMode,
+    overageAllowed: limit.overageAllowed,
+  });
+
+  const existing = await tx.quotaLimit.findMany({
+    where: {
+      tenantId: { in: tenantIds },
+      eventType: { in: limits.map((limit) => limit.eventType) },
+    },
+    select: { tenantId: true, eventType: true },
+  });
+  const existingKeys = new Set(
+    existing.map((quota) => `${quota.tenantId}:${quota.eventType}`),
+  );
+
+  const pairs = tenantIds.flatMap((tenantId) =>
+    limits.map((limit) => ({ tenantId, limit })),
+  );
+  const missing = pairs.filter(
+    ({ tenantId, limit }) =>
+      !existingKeys.has(`${tenantId}:${limit.eventType}`),
+  );
+
+  // skipDuplicates covers quotas created since the lookup; only the rows
+  // actually inserted come back
+  const created = await tx.quotaLimit.createManyAndReturn({
+    data: missing.map(({ tenantId, limit }) => ({
+      tenantId,
+      eventType: limit.eventType,
+      resetAt: defaultResetAt(limit.limitType, limit.periodDays, now),
+      ...settings(limit),
+    })),
+    skipDuplicates: true,
+    select: { tenantId: true, eventType: true, limitValue: true },
+  });
+  const written = created.map((quota) => ({
+    tenantId: quota.tenantId,
+    eventType: quota.eventType,
+    limitValue: Number(quota.limitValue),
+  }));
+
+  // Quotas deleted since the lookup are left deleted
+  const replaced = replaceExisting
+    ? pairs.filter(({ tenantId, limit }) =>
+        existingKeys.has(`${tenantId}:${limit.eventType}`),
+      )
+    : [];
+  for (const { tenantId, limit } of replaced) {
+    const { count } = await tx.quotaLimit.updateMany({
+      where: { tenantId, eventType: limit.eventType },
+      data: settings(limit),
+    });
+    if (count > 0) {
+      written.push({
+        tenantId,
+        eventType: limit.eventType,
+        limitValue: limit.limitValue,
+      });
+    }
+  }
+
+  const applied: QuotaTemplateApplyResult = {
+    tenants: tenantIds.length,
+    created: created.length,
+    updated: written.length - created.length,
+    skipped: pairs.length - written.length,
+  };
+
+  await tx.auditLog.create({
+    data: {
+      organizationId,
+      userId,
+      action: "QUOTA_TEMPLATE_APPLIED",
+      resourceType: "quota_template",
+      resourceId: template.id,
+      changes: {
+        name: template.name,
+        tenantIds,
+        replaceExisting,
+        automatic: options.automatic,
+        ...applied,
+      },
+    },
+  });
+
+  return { applied, written };
+}
+
+async function applyTemplate(
+  options: ApplyTemplateOptions,
+): Promise<QuotaTemplateApplyResult> {
+  const { applied, written } = await prisma.$transaction((tx) =>
+    writeTemplate(tx, options),
+  );
+  await syncLimitKeys(written);
+  return applied;
+}
+
+/**
+ * Apply a template to many tenants at once
+ */
+export async function applyQuotaTemplate(options: {
+  organizationId: string;
+  userId?: string;
+  templateId: string;
+  tenantIds: string[];
+  replaceExisting?: boolean;
+}): Promise<QuotaTemplateApplyResult> {
+  const { organizationId, templateId } = options;
+  const tenantIds = [...new Set(options.tenantIds)];
+
+  const template = await findOrganizationTemplate(organizationId, templateId);
+
+  const tenants = await prisma.tenant.count({
+    where: { id: { in: tenantIds }, organizationId },
+  });
+  if (tenants !== tenantIds.length) {
+    throw new QuotaLimitError("Some tenants were not found", "NOT_FOUND");
+  }
+
+  return applyTemplate({
+    organizationId,
+    userId: options.userId,
+    template,
+    tenantIds,
+    replaceExisting: options.replaceExisting ?? false,
+    automatic: false,
+  });
+}
+
+/**
+ * Give newly created tenants the organization's default quota template, if
+ * it has one, in the transaction that creates them. Sync the written limits'
+ * Redis keys with syncLimitKeys once it commits.
+ */
+export async function applyDefaultQuotaTemplate(
+  tx: TransactionClient,
+  organizationId: string,
+  tenantIds: string[],
+): Promise<QuotaTemplateWrite | null> {
+  if (tenantIds.length === 0) return null;
+
+  const organization = await tx.organization.findUnique({
+    where: { id: organizationId },
+    select: {
+      defaultQuotaTemplate: {
+        include: { limits: { orderBy: { eventType: "asc" } } },
+      },
+    },
+  });
+  const template = organization?.defaultQuotaTemplate;
+  if (!template || template.limits.length === 0) return null;
+
+  return writeTemplate(tx, {
+    organizationId,
+    template,
+    tenantIds,
+    replaceExisting: false,
+    automatic: true,
+  });
+}
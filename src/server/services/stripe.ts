@@ -1,117 +1,191 @@
 import Stripe from "stripe";
+import type { PaymentProvider } from "@/server/services/payments";
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error("STRIPE_SECRET_KEY is not set");
-}
+export function createStripeProvider(secretKey: string): PaymentProvider {
+  const stripe = new Stripe(secretKey);
 
-export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
+  return {
+    createCustomer(params) {
+      return stripe.customers.create({
+        email: params.email,
+        name: params.name,
+        metadata: {
+          organizationId: params.organizationId,
+        },
+      });
+    },
 
-export async function createStripeCustomer(params: {
-  email: string;
-  name: string;
-  organizationId: string;
-}) {
-  return stripe.customers.create({
-    email: params.email,
-    name: params.name,
-    metadata: {
-      organizationId: params.organizationId,
+    createCheckoutSession(params) {
+      return stripe.checkout.sessions.create({
+        customer: params.customerId,
+        mode: "subscription",
+        payment_method_types: ["card"],
+        line_items: [
+          {
+            price: params.priceId,
+            quantity: 1,
+          },
+        ],
+        success_url: params.successUrl,
+        cancel_url: params.cancelUrl,
+        metadata: {
+          organizationId: params.organizationId,
+        },
+        subscription_data: {
+          metadata: {
+            organizationId: params.organizationId,
+          },
+        },
+      });
     },
-  });
-}
 
-export async function createCheckoutSession(params: {
-  customerId: string;
-  priceId: string;
-  organizationId: string;
-  successUrl: string;
-  cancelUrl: string;
-}) {
-  return stripe.checkout.sessions.create({
-    customer: params.customerId,
-    mode: "subscription",
-    payment_method_types: ["card"],
-    line_items: [
-      {
-        price: params.priceId,
-        quantity: 1,
-      },
-    ],
-    success_url: params.successUrl,
-    cancel_url: params.cancelUrl,
-    metadata: {
-      organizationId: params.organizationId,
-    },
-    subscription_data: {
-      metadata: {
-        organizationId: params.organizationId,
-      },
-    },
-  });
-}
+    createBillingPortalSession(params) {
+      return stripe.billingPortal.sessions.create({
+        customer: params.customerId,
+        return_url: params.returnUrl,
+      });
+    },
 
-export async function createBillingPortalSession(params: {
-  customerId: string;
-  returnUrl: string;
-}) {
-  return stripe.billingPortal.sessions.create({
-    customer: params.customerId,
-    return_url: params.returnUrl,
-  });
-}
+    getSubscription(subscriptionId) {
+      return stripe.subscriptions.retrieve(subscriptionId);
+    },
 
-export async function getSubscription(subscriptionId: string) {
-  return stripe.subscriptions.retrieve(subscriptionId);
-}
+    listSubscriptions(params) {
+      return stripe.subscriptions.list({ status: params.status, limit: 100 });
+    },
 
-export async function cancelSubscription(subscriptionId: string) {
-  return stripe.subscriptions.update(subscriptionId, {
-    cancel_at_period_end: true,
-  });
-}
+    listCustomers() {
+      return stripe.customers.list({ limit: 100 });
+    },
 
-export async function resumeSubscription(subscriptionId: string) {
-  return stripe.subscriptions.update(subscriptionId, {
-    cancel_at_period_end: false,
-  });
-}
+    listAllInvoices() {
+      return stripe.invoices.list({ limit: 100 });
+    },
 
-export async function reportUsage(params: {
-  subscriptionItemId: string;
-  quantity: number;
-  timestamp?: number;
-}) {
-  return stripe.billing.meterEvents.create({
-    event_name: "usage",
-    payload: {
-      stripe_customer_id: params.subscriptionItemId,
-      value: String(params.quantity),
-    },
-    timestamp: params.timestamp ?? Math.floor(Date.now() / 1000),
-  });
-}
+    cancelSubscription(subscriptionId) {
+      return stripe.subscriptions.update(subscriptionId, {
+        cancel_at_period_end: true,
+      });
+    },
 
-export async function getInvoices(customerId: string, limit = 10) {
-  return stripe.invoices.list({
-    customer: customerId,
-    limit,
-  });
-}
+    resumeSubscription(subscriptionId) {
+      return stripe.subscriptions.update(subscriptionId, {
+        cancel_at_period_end: false,
+      });
+    },
 
-export async function getUpcomingInvoice(customerId: string) {
-  try {
-    return await stripe.invoices.createPreview({
-      customer: customerId,
-    });
-  } catch {
-    return null;
-  }
-}
+    async changeSubscriptionPrice(params) {
+      const subscription = await stripe.subscriptions.retrieve(
+        params.subscriptionId,
+      );
+      return stripe.subscriptions.update(params.subscriptionId, {
+        items: [{ id: subscription.items.data[0].id, price: params.priceId }],
+        proration_behavior: "always_invoice",
+        proration_date: Math.floor(params.prorationDate.getTime() / 1000),
+      });
+    },
+
+    // The current phase runs out the period, then the new price takes over
+    // and the schedule releases the subscription
+    async scheduleSubscriptionPrice(params) {
+      const schedule = await stripe.subscriptionSchedules.create({
+        from_subscription: params.subscriptionId,
+      });
+      const phase = schedule.phases[0];
 
-export function constructWebhookEvent(
-  payload: string | Buffer,
-  signature: string,
-  webhookSecret: string,
-) {
-  return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+      await stripe.subscriptionSchedules.update(schedule.id, {
+        end_behavior: "release",
+        phases: [
+          {
+            items: phase.items.map((item) => ({
+              price:
+                typeof item.price === "string" ? item.price : item.price.id,
+              quantity: item.quantity,
+            })),
+            start_date: phase.start_date,
+            end_date: phase.end_date,
+            proration_behavior: "none",
+          },
+          {
+            items: [{ price: params.priceId, quantity: 1 }],
+            duration: { interval: "month" },
+            proration_behavior: "none",
+          },
+        ],
+      });
+
+      return { scheduleId: schedule.id };
+    },
+
+    async releaseSubscriptionSchedule(scheduleId) {
+      await stripe.subscriptionSchedules.release(scheduleId);
+    },
+
+    async getInvoices(customerId, limit = 10) {
+      const invoices = await stripe.invoices.list({
+        customer: customerId,
+        limit,
+      });
+      return invoices.data;
+    },
+
+    async getUpcomingInvoice(customerId) {
+      try {
+        return await stripe.invoices.createPreview({
+          customer: customerId,
+        });
+      } catch {
+        return null;
+      }
+    },
+
+    getCharge(chargeId) {
+      return stripe.charges.retrieve(chargeId);
+    },
+
+    getEvent(eventId) {
+      return stripe.events.retrieve(eventId);
+    },
+
+    constructWebhookEvent(payload, signature, webhookSecret) {
+      return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+    },
+
+    async listActiveMeters() {
+      const meters: Stripe.Billing.Meter[] = [];
+      for await (const meter of stripe.billing.meters.list({
+        status: "active",
+        limit: 100,
+      })) {
+        meters.push(meter);
+      }
+      return meters;
+    },
+
+    // Sent with the payload keys the meter is configured with
+    async reportUsage(params) {
+      const { meter } = params;
+      await stripe.billing.meterEvents.create({
+        event_name: meter.event_name,
+        identifier: params.identifier,
+        payload: {
+          [meter.customer_mapping.event_payload_key]: params.stripeCustomerId,
+          [meter.value_settings.event_payload_key]: params.value.toString(),
+        },
+        timestamp: Math.floor(
+          (params.timestamp ?? new Date()).getTime() / 1000,
+        ),
+      });
+    },
+
+    // Stripe only summarises whole minutes
+    listMeterEventSummaries(params) {
+      const minute = 60;
+      return stripe.billing.meters.listEventSummaries(params.meterId, {
+        customer: params.customerId,
+        start_time: Math.floor(params.start.getTime() / 1000 / minute) * minute,
+        end_time: Math.ceil(params.end.getTime() / 1000 / minute) * minute,
+      });
+    },
+  };
 }
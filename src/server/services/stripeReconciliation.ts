@@ -0,0 +1,305 @@
+import type Stripe from "stripe";
+import type { Prisma, Subscription } from "@prisma/client";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import { getPaymentProvider } from "@/server/services/payments";
+import { subscriptionData } from "@/server/services/stripeWebhooks";
+
+export type DriftKind =
+  | "SUBSCRIPTION_MISSING" // In Stripe, not in the Subscription table
+  | "SUBSCRIPTION_MISMATCH" // Columns differ from Stripe
+  | "SUBSCRIPTION_NOT_IN_STRIPE" // Live locally, unknown to Stripe
+  | "SUBSCRIPTION_UNMAPPED" // No organizationId metadata or no plan for its price
+  | "CUSTOMER_NOT_IN_STRIPE" // Referenced locally, deleted or unknown in Stripe
+  | "INVOICE_UNMATCHED"; // Its subscription and customer are unknown locally
+
+export type Drift = {
+  kind: DriftKind;
+  detail: string;
+  organizationId?: string;
+  stripeSubscriptionId?: string;
+  stripeCustomerId?: string;
+  stripeInvoiceId?: string;
+  changes?: Record<string, { local: unknown; stripe: unknown }>;
+  fixable: boolean;
+  applied?: boolean;
+  error?: string;
+};
+
+export type ReconciliationReport = {
+  apply: boolean;
+  scanned: { subscriptions: number; customers: number; invoices: number };
+  drift: Drift[];
+  corrected: number;
+  failed: number;
+};
+
+type SubscriptionData = ReturnType<typeof subscriptionData>;
+
+function jsonValue(value: unknown) {
+  return value instanceof Date ? value.toISOString() : (value ?? null);
+}
+
+function diffSubscription(local: Subscription, data: SubscriptionData) {
+  const changes: Record<string, { local: unknown; stripe: unknown }> = {};
+
+  for (const [key, stripeValue] of Object.entries(data)) {
+    const localValue = local[key as keyof SubscriptionData];
+    const equal =
+      localValue instanceof Date || stripeValue instanceof Date
+        ? (localValue as Date | null)?.getTime() ===
+          (stripeValue as Date | null)?.getTime()
+        : localValue === stripeValue;
+
+    if (!equal) {
+      changes[key] = {
+        local: jsonValue(localValue),
+        stripe: jsonValue(stripeValue),
+      };
+    }
+  }
+
+  return changes;
+}
+
+type Correction = (tx: TransactionClient) => Promise<{ id: string }>;
+
+async function recordCorrection(
+  drift: Drift,
+  organizationId: string,
+  write: Correction,
+) {
+  await prisma.$transaction(async (tx) => {
+    const subscription = await write(tx);
+    await tx.auditLog.create({
+      data: {
+        organizationId,
+        action: "STRIPE_DRIFT_CORRECTED",
+        resourceType: "subscription",
+        resourceId: subscription.id,
+        changes: {
+          kind: drift.kind,
+          stripeSubscriptionId: drift.stripeSubscriptionId ?? null,
+          ...(drift.changes
+            ? { fields: drift.changes as Prisma.InputJsonObject }
+            : {}),
+        },
+      },
+    });
+  });
+}
+
+/**
+ * Diff every Stripe subscription, customer and invoice against the
+ * Subscription table
+ *
+ * Stripe is the source of truth. With `apply`, subscriptions missing or
+ * differing locally are written from Stripe, and live local subscriptions
+ * Stripe does not know are cancelled; each correction is recorded in
+ * AuditLog in the same transaction. Other drift needs a person to look at
+ * it and is only reported.
+ */
+export async function reconcileStripe(options: {
+  apply: boolean;
+}): Promise<ReconciliationReport> {
+  const provider = getPaymentProvider();
+  const report: ReconciliationReport = {
+    apply: options.apply,
+    scanned: { subscriptions: 0, customers: 0, invoices: 0 },
+    drift: [],
+    corrected: 0,
+    failed: 0,
+  };
+
+  const [plans, localSubscriptions] = await Promise.all([
+    prisma.subscriptionPlan.findMany({
+      select: { id: true, stripePriceId: true },
+    }),
+    prisma.subscription.findMany(),
+  ]);
+  const planByPrice = new Map(plans.map((p) => [p.stripePriceId, p.id]));
+  const localById = new Map(
+    localSubscriptions.map((s) => [s.stripeSubscriptionId, s]),
+  );
+
+  const correct = async (
+    drift: Drift,
+    organizationId: string,
+    write: Correction,
+  ) => {
+    report.drift.push(drift);
+    if (!options.apply) return;
+    try {
+      await recordCorrection(drift, organizationId, write);
+      drift.applied = true;
+      report.corrected++;
+    } catch (error) {
+      drift.error = error instanceof Error ? error.message : "Unknown error";
+      report.failed++;
+    }
+  };
+
+  const inStripe = new Set<string>();
+  // Subscriptions already reported, whose invoices need not be
+  const reported = new Set<string>();
+
+  for await (const subscription of provider.listSubscriptions({
+    status: "all",
+  })) {
+    report.scanned.subscriptions++;
+    inStripe.add(subscription.id);
+
+    const local = localById.get(subscription.id);
+    const organizationId =
+      subscription.metadata?.organizationId ?? local?.organizationId;
+    const priceId = subscription.items.data[0]?.price.id;
+    const planId = priceId ? planByPrice.get(priceId) : undefined;
+
+    if (!organizationId || !planId) {
+      reported.add(subscription.id);
+      report.drift.push({
+        kind: "SUBSCRIPTION_UNMAPPED",
+        detail: !organizationId
+          ? "No organizationId in subscription metadata"
+          : `No plan found for price ${priceId}`,
+        organizationId,
+        stripeSubscriptionId: subscription.id,
+        stripeCustomerId: idOf(subscription.customer),
+        fixable: false,
+      });
+      continue;
+    }
+
+    const data = subscriptionData(subscription, planId);
+    // Events created before this point are older than what was just fetched
+    const stripeStateAt = new Date();
+
+    if (!local) {
+      reported.add(subscription.id);
+      await correct(
+        {
+          kind: "SUBSCRIPTION_MISSING",
+          detail: `Stripe subscription ${subscription.status} has no local row`,
+          organizationId,
+          stripeSubscriptionId: subscription.id,
+          stripeCustomerId: data.stripeCustomerId,
+          fixable: true,
+        },
+        organizationId,
+        (tx) =>
+          tx.subscription.create({
+            data: {
+              organizationId,
+              stripeSubscriptionId: subscription.id,
+              ...data,
+              stripeStateAt,
+            },
+          }),
+      );
+      continue;
+    }
+
+    const changes = diffSubscription(local, data);
+    if (Object.keys(changes).length > 0) {
+      await correct(
+        {
+          kind: "SUBSCRIPTION_MISMATCH",
+          detail: `${Object.keys(changes).join(", ")} differ from Stripe`,
+          organizationId: local.organizationId,
+          stripeSubscriptionId: subscription.id,
+          stripeCustomerId: data.stripeCustomerId,
+          changes,
+          fixable: true,
+        },
+        local.organizationId,
+        (tx) =>
+          tx.subscription.update({
+            where: { id: local.id },
+            data: { ...data, stripeStateAt },
+          }),
+      );
+    }
+  }
+
+  for (const local of localSubscriptions) {
+    if (inStripe.has(local.stripeSubscriptionId)) continue;
+    if (local.status === "CANCELED") continue;
+
+    const canceledAt = new Date();
+    await correct(
+      {
+        kind: "SUBSCRIPTION_NOT_IN_STRIPE",
+        detail: `Local ${local.status} subscription not found in Stripe`,
+        organizationId: local.organizationId,
+        stripeSubscriptionId: local.stripeSubscriptionId,
+        stripeCustomerId: local.stripeCustomerId,
+        changes: {
+          status: { local: local.status, stripe: "CANCELED" },
+          canceledAt: {
+            local: jsonValue(local.canceledAt),
+            stripe: canceledAt.toISOString(),
+          },
+        },
+        fixable: true,
+      },
+      local.organizationId,
+      (tx) =>
+        tx.subscription.update({
+          where: { id: local.id },
+          data: { status: "CANCELED", canceledAt },
+        }),
+    );
+  }
+
+  const customerIds = new Set<string>();
+  for await (const customer of provider.listCustomers()) {
+    report.scanned.customers++;
+    customerIds.add(customer.id);
+  }
+
+  const localCustomers = new Map(
+    localSubscriptions.map((s) => [s.stripeCustomerId, s.organizationId]),
+  );
+  for (const [stripeCustomerId, organizationId] of localCustomers) {
+    if (customerIds.has(stripeCustomerId)) continue;
+    report.drift.push({
+      kind: "CUSTOMER_NOT_IN_STRIPE",
+      detail: "Customer referenced by local subscriptions not found in Stripe",
+      organizationId,
+      stripeCustomerId,
+      fixable: false,
+    });
+  }
+
+  for await (const invoice of provider.listAllInvoices()) {
+    report.scanned.invoices++;
+
+    const subscriptionId = invoiceSubscription(invoice);
+    const customerId = idOf(invoice.customer);
+    if (subscriptionId && reported.has(subscriptionId)) continue;
+    if (subscriptionId && localById.has(subscriptionId)) continue;
+    if (!subscriptionId && customerId && localCustomers.has(customerId)) {
+      continue;
+    }
+
+    report.drift.push({
+      kind: "INVOICE_UNMATCHED",
+      detail: subscriptionId
+        ? `Invoice for subscription ${subscriptionId}, which has no local row`
+        : "Invoice for a customer with no local subscription",
+      stripeSubscriptionId: subscriptionId,
+      stripeCustomerId: customerId,
+      stripeInvoiceId: invoice.id,
+      fixable: false,
+    });
+  }
+
+  return report;
+}
+
+function idOf(value: string | { id: string } | null | undefined) {
+  return typeof value === "string" ? value : value?.id;
+}
+
+function invoiceSubscription(invoice: Stripe.Invoice) {
+  return idOf(invoice.parent?.subscription_details?.subscription);
+}
@@ -0,0 +1,371 @@
+import type Stripe from "stripe";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "@/server/db/prisma";
+import { money } from "@/server/services/money";
+import { getPaymentProvider } from "@/server/services/payments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stripe rejects meter events with timestamps older than 35 days; stay
+// clear of the edge
+const MAX_BACKFILL_DAYS = 30;
+
+export type UsageSyncResult = {
+  organizationId: string;
+  status: "synced" | "skipped";
+  reason?: string;
+  reported: number;
+  unchanged: number;
+  failed: number;
+  errors: Array<{ eventType: string; usageDate: string; error: string }>;
+};
+
+function startOfUtcDay(date: Date) {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Local usage totals per mapped event type and UTC day since `from`
+ */
+async function loadDailyUsage(
+  organizationId: string,
+  eventTypes: string[],
+  from: Date,
+  to: Date,
+) {
+  if (eventTypes.length === 0) return [];
+
+  return prisma.$queryRaw<
+    Array<{ eventType: string; usageDate: Date; quantity: Decimal }>
+  >`
+    SELECT "eventType",
+           date_trunc('day', "timestamp") AS "usageDate",
+           SUM("quantity") AS "quantity"
+    FROM usage_events
+    WHERE "organizationId" = ${organizationId}
+      AND "eventType" = ANY(${eventTypes})
+      AND "timestamp" >= ${from}
+      AND "timestamp" <= ${to}
+    GROUP BY 1, 2
+    ORDER BY 2, 1
+  `;
+}
+
+/**
+ * Report an organization's usage in its current billing period to Stripe
+ *
+ * Usage is bucketed per mapped event type and UTC day within the period.
+ * Each bucket has a StripeUsageSync row, keyed by the period and the Stripe
+ * customer too, recording how much of it that customer has been sent, and
+ * only the difference to the local total is reported. A day a new period
+ * starts on, or a customer change, therefore starts a fresh bucket. The
+ * target total is written down before calling Stripe and the meter event
+ * identifier is derived from it, so a run that dies mid-report resends with
+ * the same identifier and Stripe drops the duplicate.
+ *
+ * Usage that shrinks after it was reported (e.g. deleted events) cannot be
+ * taken back through meter events; it shows up in the reconciliation.
+ */
+export async function syncOrganizationUsage(
+  organizationId: string,
+  now: Date = new Date(),
+): Promise<UsageSyncResult> {
+  const result: UsageSyncResult = {
+    organizationId,
+    status: "synced",
+    reported: 0,
+    unchanged: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  const [subscription, mappings] = await Promise.all([
+    prisma.subscription.findFirst({
+      where: { organizationId, status: { in: ["ACTIVE", "TRIALING"] } },
+      orderBy: { currentPeriodStart: "desc" },
+    }),
+    prisma.stripeMeterMapping.findMany({ where: { organizationId } }),
+  ]);
+
+  if (!subscription) {
+    return { ...result, status: "skipped", reason: "No active subscription" };
+  }
+  if (mappings.length === 0) {
+    return { ...result, status: "skipped", reason: "No meter mappings" };
+  }
+
+  const meters = await getPaymentProvider().listActiveMeters();
+  const from = new Date(
+    Math.max(
+      subscription.currentPeriodStart.getTime(),
+      startOfUtcDay(now).getTime() - MAX_BACKFILL_DAYS * DAY_MS,
+    ),
+  );
+  const usage = await loadDailyUsage(
+    organizationId,
+    mappings.map((mapping) => mapping.eventType),
+    from,
+    now,
+  );
+
+  for (const bucket of usage) {
+    const mapping = mappings.find((m) => m.eventType === bucket.eventType)!;
+    const localQuantity = money(bucket.quantity);
+
+    const sync = await prisma.stripeUsageSync.upsert({
+      where: {
+        organizationId_eventType_periodStart_stripeCustomerId_usageDate: {
+          organizationId,
+          eventType: bucket.eventType,
+          periodStart: subscription.currentPeriodStart,
+          stripeCustomerId: subscription.stripeCustomerId,
+          usageDate: bucket.usageDate,
+        },
+      },
+      create: {
+        organizationId,
+        eventType: bucket.eventType,
+        usageDate: bucket.usageDate,
+        periodStart: subscription.currentPeriodStart,
+        meterEventName: mapping.meterEventName,
+        stripeCustomerId: subscription.stripeCustomerId,
+        localQuantity,
+      },
+      update: { localQuantity },
+    });
+
+    // Finish an interrupted report before starting a new one
+    const target = sync.pendingQuantity
+      ? money(sync.pendingQuantity)
+      : localQuantity;
+    const delta = target.minus(sync.reportedQuantity);
+
+    if (delta.lte(0)) {
+      result.unchanged++;
+      continue;
+    }
+
+    const meter = meters.find(
+      (candidate) => candidate.event_name === sync.meterEventName,
+    );
+
+    try {
+      if (!meter) {
+        throw new Error(`No active Stripe meter for "${sync.meterEventName}"`);
+      }
+
+      await prisma.stripeUsageSync.update({
+        where: { id: sync.id },
+        data: { pendingQuantity: target },
+      });
+
+      await getPaymentProvider().reportUsage({
+        meter,
+        stripeCustomerId: sync.stripeCustomerId,
+        value: delta,
+        identifier: `${sync.id}-${target.toFixed()}`,
+        // Usage before the period start belongs to the previous period
+        timestamp: new Date(
+          Math.max(
+            sync.usageDate.getTime(),
+            subscription.currentPeriodStart.getTime(),
+          ),
+        ),
+      });
+
+      await prisma.stripeUsageSync.update({
+        where: { id: sync.id },
+        data: {
+          reportedQuantity: target,
+          pendingQuantity: null,
+          lastError: null,
+          syncedAt: new Date(),
+        },
+      });
+      result.reported++;
+    } catch (error) {
+      await prisma.stripeUsageSync.update({
+        where: { id: sync.id },
+        data: { lastError: errorMessage(error) },
+      });
+      result.failed++;
+      result.errors.push({
+        eventType: sync.eventType,
+        usageDate: sync.usageDate.toISOString(),
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compare local usage, what the sync reported and what Stripe's meters hold
+ * for each mapped event type in the organization's current billing period
+ */
+export async function reconcileStripeUsage(
+  organizationId: string,
+  now: Date = new Date(),
+) {
+  const [subscription, mappings] = await Promise.all([
+    prisma.subscription.findFirst({
+      where: { organizationId, status: { in: ["ACTIVE", "TRIALING"] } },
+      orderBy: { currentPeriodStart: "desc" },
+    }),
+    prisma.stripeMeterMapping.findMany({
+      where: { organizationId },
+      orderBy: { eventType: "asc" },
+    }),
+  ]);
+
+  if (!subscription) return null;
+
+  const periodStart = subscription.currentPeriodStart;
+  const periodEnd = new Date(
+    Math.min(subscription.currentPeriodEnd.getTime(), now.getTime()),
+  );
+  const eventTypes = mappings.map((mapping) => mapping.eventType);
+
+  const [local, syncs, meters] = await Promise.all([
+    prisma.usageEvent.groupBy({
+      by: ["eventType"],
+      where: {
+        organizationId,
+        eventType: { in: eventTypes },
+        timestamp: { gte: periodStart, lte: periodEnd },
+      },
+      _sum: { quantity: true },
+    }),
+    prisma.stripeUsageSync.findMany({
+      where: {
+        organizationId,
+        eventType: { in: eventTypes },
+        periodStart,
+        stripeCustomerId: subscription.stripeCustomerId,
+      },
+    }),
+    getPaymentProvider().listActiveMeters(),
+  ]);
+
+  const rows = await Promise.all(
+    mappings.map(async (mapping) => {
+      const eventSyncs = syncs.filter(
+        (sync) => sync.eventType === mapping.eventType,
+      );
+      const localQuantity = money(
+        local.find((row) => row.eventType === mapping.eventType)?._sum.quantity,
+      );
+      const reportedQuantity = eventSyncs.reduce(
+        (sum, sync) => sum.plus(sync.reportedQuantity),
+        money(0),
+      );
+
+      const meter = meters.find(
+        (candidate) => candidate.event_name === mapping.meterEventName,
+      );
+      let stripeQuantity: Decimal | null = null;
+      let error: string | null = null;
+
+      if (!meter) {
+        error = `No active Stripe meter for "${mapping.meterEventName}"`;
+      } else {
+        try {
+          stripeQuantity = await meterTotal(
+            meter,
+            subscription.stripeCustomerId,
+            periodStart,
+            periodEnd,
+          );
+        } catch (caught) {
+          error = errorMessage(caught);
+        }
+      }
+
+      const status = error
+        ? "ERROR"
+        : !stripeQuantity!.eq(reportedQuantity)
+          ? "STRIPE_MISMATCH"
+          : !reportedQuantity.eq(localQuantity)
+            ? "NOT_SYNCED"
+            : "MATCHED";
+
+      return {
+        eventType: mapping.eventType,
+        meterEventName: mapping.meterEventName,
+        localQuantity: localQuantity.toNumber(),
+        reportedQuantity: reportedQuantity.toNumber(),
+        stripeQuantity: stripeQuantity?.toNumber() ?? null,
+        pendingDays: eventSyncs.filter((sync) => sync.pendingQuantity).length,
+        lastError:
+          error ?? eventSyncs.find((sync) => sync.lastError)?.lastError ?? null,
+        lastSyncedAt:
+          eventSyncs
+            .map((sync) => sync.syncedAt)
+            .filter((syncedAt): syncedAt is Date => !!syncedAt)
+            .sort((a, b) => b.getTime() - a.getTime())[0] ?? null,
+        status,
+      };
+    }),
+  );
+
+  return {
+    period: { start: periodStart, end: periodEnd },
+    stripeCustomerId: subscription.stripeCustomerId,
+    meters: rows,
+  };
+}
+
+async function meterTotal(
+  meter: Stripe.Billing.Meter,
+  customerId: string,
+  start: Date,
+  end: Date,
+) {
+  let total = money(0);
+
+  for await (const summary of getPaymentProvider().listMeterEventSummaries({
+    meterId: meter.id,
+    customerId,
+    start,
+    end,
+  })) {
+    total = total.plus(summary.aggregated_value);
+  }
+
+  return total;
+}
+
+/**
+ * Sync every organization with an active subscription and meter mappings
+ */
+export async function syncAllUsage(now: Date = new Date()) {
+  const organizations = await prisma.stripeMeterMapping.findMany({
+    distinct: ["organizationId"],
+    select: { organizationId: true },
+  });
+
+  const results: UsageSyncResult[] = [];
+  for (const { organizationId } of organizations) {
+    try {
+      results.push(await syncOrganizationUsage(organizationId, now));
+    } catch (error) {
+      console.error(`Stripe usage sync failed for ${organizationId}:`, error);
+      results.push({
+        organizationId,
+        status: "skipped",
+        reason: errorMessage(error),
+        reported: 0,
+        unchanged: 0,
+        failed: 0,
+        errors: [],
+      });
+    }
+  }
+
+  return results;
+}
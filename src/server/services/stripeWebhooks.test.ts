@@ -0,0 +1,171 @@
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { processStripeEvent } from "@/server/services/stripeWebhooks";
+
+type Row = Record<string, unknown>;
+
+const db = vi.hoisted(() => ({
+  events: new Map<string, Row>(),
+  subscriptions: [] as Row[],
+}));
+
+// Enough of Prisma's where semantics for the handlers' filters
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") {
+      return (condition as Row[]).some((branch) => matches(row, branch));
+    }
+    if (condition && typeof condition === "object" && "lte" in condition) {
+      return (
+        row[key] instanceof Date &&
+        (row[key] as Date) <= (condition as { lte: Date }).lte
+      );
+    }
+    return row[key] === condition;
+  });
+}
+
+vi.mock("@/server/db/prisma", () => {
+  const client = {
+    $queryRaw: vi.fn(async (_sql: TemplateStringsArray, id: string) =>
+      db.events.get(id)?.status === "PROCESSED" ? [] : [{ id }],
+    ),
+    stripeWebhookEvent: {
+      findUniqueOrThrow: vi.fn(async ({ where }) => db.events.get(where.id)),
+      update: vi.fn(async ({ where, data }) =>
+        Object.assign(db.events.get(where.id)!, data),
+      ),
+    },
+    subscriptionPlan: {
+      findUnique: vi.fn(async ({ where }) => ({
+        id: `plan_for_${where.stripePriceId}`,
+      })),
+    },
+    subscription: {
+      findUnique: vi.fn(
+        async ({ where }) =>
+          db.subscriptions.find(
+            (row) => row.stripeSubscriptionId === where.stripeSubscriptionId,
+          ) ?? null,
+      ),
+      create: vi.fn(async ({ data }) => {
+        const row = { id: `sub_${db.subscriptions.length + 1}`, ...data };
+        db.subscriptions.push(row);
+        return row;
+      }),
+      updateMany: vi.fn(async ({ where, data }) => {
+        const rows = db.subscriptions.filter((row) => matches(row, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      }),
+    },
+  };
+  return {
+    prisma: {
+      ...client,
+      $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(client)),
+    },
+  };
+});
+
+vi.mock("@/server/services/planChanges", () => ({
+  settleScheduledPlanChanges: vi.fn(async () => {}),
+}));
+
+function subscriptionEvent(
+  id: string,
+  created: number,
+  status: Stripe.Subscription.Status,
+  priceId: string,
+): Stripe.Event {
+  const event = {
+    id,
+    type: "customer.subscription.updated",
+    created,
+    data: {
+      object: {
+        id: "sub_stripe",
+        customer: "cus_1",
+        status,
+        metadata: { organizationId: "org_1" },
+        cancel_at_period_end: false,
+        canceled_at: null,
+        trial_end: null,
+        items: {
+          data: [
+            {
+              price: { id: priceId },
+              current_period_start: created,
+              current_period_end: created + 30 * 86400,
+            },
+          ],
+        },
+      },
+    },
+  } as unknown as Stripe.Event;
+  db.events.set(id, { id, status: "PENDING", payload: event });
+  return event;
+}
+
+function invoiceEvent(id: string, created: number, type: string) {
+  const event = {
+    id,
+    type,
+    created,
+    data: {
+      object: {
+        id: `in_${id}`,
+        parent: { subscription_details: { subscription: "sub_stripe" } },
+      },
+    },
+  } as unknown as Stripe.Event;
+  db.events.set(id, { id, status: "PENDING", payload: event });
+  return event;
+}
+
+describe("processStripeEvent ordering", () => {
+  beforeEach(() => {
+    db.events.clear();
+    db.subscriptions = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("skips a retried subscription event older than the applied state", async () => {
+    subscriptionEvent("evt_old", 1_000, "past_due", "price_basic");
+    subscriptionEvent("evt_new", 2_000, "active", "price_pro");
+
+    await processStripeEvent("evt_new");
+    const result = await processStripeEvent("evt_old");
+
+    expect(result.status).toBe("processed");
+    expect(db.subscriptions).toHaveLength(1);
+    expect(db.subscriptions[0]).toMatchObject({
+      status: "ACTIVE",
+      planId: "plan_for_price_pro",
+      stripeStateAt: new Date(2_000_000),
+    });
+  });
+
+  it("applies events in order when they arrive in order", async () => {
+    subscriptionEvent("evt_old", 1_000, "active", "price_basic");
+    subscriptionEvent("evt_new", 2_000, "past_due", "price_pro");
+
+    await processStripeEvent("evt_old");
+    await processStripeEvent("evt_new");
+
+    expect(db.subscriptions[0]).toMatchObject({
+      status: "PAST_DUE",
+      planId: "plan_for_price_pro",
+    });
+  });
+
+  it("does not mark a subscription past due from a stale payment failure", async () => {
+    subscriptionEvent("evt_sub", 2_000, "active", "price_basic");
+    invoiceEvent("evt_failed", 1_000, "invoice.payment_failed");
+
+    await processStripeEvent("evt_sub");
+    await processStripeEvent("evt_failed");
+
+    expect(db.subscriptions[0].status).toBe("ACTIVE");
+  });
+});
@@ -0,0 +1,606 @@
+import type Stripe from "stripe";
+import { Prisma, type SubscriptionStatus } from "@prisma/client";
+import { prisma, type TransactionClient } from "@/server/db/prisma";
+import { invalidateEntitlements } from "@/server/services/entitlements";
+import { getPaymentProvider } from "@/server/services/payments";
+import { settleScheduledPlanChanges } from "@/server/services/planChanges";
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Handlers may call Stripe, so allow more than Prisma's 5s default
+const PROCESSING_TIMEOUT_MS = 30 * 1000;
+
+const STATUS_MAP: Record<string, SubscriptionStatus> = {
+  active: "ACTIVE",
+  canceled: "CANCELED",
+  past_due: "PAST_DUE",
+  trialing: "TRIALING",
+  unpaid: "UNPAID",
+};
+
+export type WebhookProcessingResult = {
+  eventId: string;
+  status: "processed" | "skipped" | "failed";
+  error?: string;
+};
+
+type EventHandler = (
+  tx: TransactionClient,
+  event: Stripe.Event,
+) => Promise<void>;
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: one minute,
+ * doubling each time, capped at six hours
+ */
+export function retryDelayMs(attempts: number) {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * Persist a verified event. Returns false when the event id was already
+ * recorded, i.e. Stripe redelivered it.
+ */
+export async function recordStripeEvent(event: Stripe.Event) {
+  const { count } = await prisma.stripeWebhookEvent.createMany({
+    data: {
+      id: event.id,
+      type: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+      stripeCreatedAt: new Date(event.created * 1000),
+    },
+    skipDuplicates: true,
+  });
+  return count === 1;
+}
+
+/**
+ * Process a recorded event unless it already has been
+ *
+ * The row is locked for the duration, and the handler's writes commit
+ * together with the PROCESSED status, so a concurrent delivery skips it and
+ * a crash leaves it to be retried as a whole. On failure the attempt is
+ * recorded and the next one scheduled with exponential backoff; after
+ * MAX_ATTEMPTS the event is DEAD until replayed.
+ */
+export async function processStripeEvent(
+  eventId: string,
+): Promise<WebhookProcessingResult> {
+  try {
+    const processed = await prisma.$transaction(
+      async (tx) => {
+        const locked = await tx.$queryRaw<Array<{ id: string }>>`
+          SELECT id FROM stripe_webhook_events
+          WHERE id = ${eventId} AND status <> 'PROCESSED'
+          FOR UPDATE SKIP LOCKED
+        `;
+        if (locked.length === 0) return false;
+
+        const record = await tx.stripeWebhookEvent.findUniqueOrThrow({
+          where: { id: eventId },
+        });
+        const event = record.payload as unknown as Stripe.Event;
+        const handler = HANDLERS[event.type];
+
+        if (handler) {
+          await handler(tx, event);
+        } else {
+          console.log(`Unhandled event type: ${event.type}`);
+        }
+
+        await tx.stripeWebhookEvent.update({
+          where: { id: eventId },
+          data: {
+            status: "PROCESSED",
+            attempts: { increment: 1 },
+            lastError: null,
+            nextAttemptAt: null,
+            processedAt: new Date(),
+          },
+        });
+        return true;
+      },
+      { timeout: PROCESSING_TIMEOUT_MS },
+    );
+
+    return { eventId, status: processed ? "processed" : "skipped" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Error processing Stripe event ${eventId}:`, error);
+
+    const { attempts } = await prisma.stripeWebhookEvent.findUniqueOrThrow({
+      where: { id: eventId },
+      select: { attempts: true },
+    });
+    const dead = attempts + 1 >= MAX_ATTEMPTS;
+
+    await prisma.stripeWebhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: dead ? "DEAD" : "FAILED",
+        attempts: attempts + 1,
+        lastError: message,
+        nextAttemptAt: dead
+          ? null
+          : new Date(Date.now() + retryDelayMs(attempts + 1)),
+      },
+    });
+
+    return { eventId, status: "failed", error: message };
+  }
+}
+
+/**
+ * Retry failed events that are due, and pending ones whose inline
+ * processing never ran, oldest first
+ */
+export async function processDueStripeEvents(options?: {
+  now?: Date;
+  limit?: number;
+}) {
+  const now = options?.now ?? new Date();
+
+  const due = await prisma.stripeWebhookEvent.findMany({
+    where: {
+      OR: [
+        { status: "FAILED", nextAttemptAt: { lte: now } },
+        {
+          status: "PENDING",
+          receivedAt: { lte: new Date(now.getTime() - BASE_RETRY_DELAY_MS) },
+        },
+      ],
+    },
+    orderBy: { stripeCreatedAt: "asc" },
+    take: options?.limit ?? 100,
+    select: { id: true },
+  });
+
+  const results: WebhookProcessingResult[] = [];
+  for (const { id } of due) {
+    results.push(await processStripeEvent(id));
+  }
+  return results;
+}
+
+/**
+ * Process an event again regardless of its status, fetching it from Stripe
+ * first if it was never received
+ *
+ * Events older than the state a subscription already reflects are skipped,
+ * so replaying an old event does not roll it back.
+ */
+export async function replayStripeEvent(eventId: string) {
+  const existing = await prisma.stripeWebhookEvent.findUnique({
+    where: { id: eventId },
+  });
+
+  if (!existing) {
+    await recordStripeEvent(await getPaymentProvider().getEvent(eventId));
+  } else {
+    await prisma.stripeWebhookEvent.update({
+      where: { id: eventId },
+      data: { status: "PENDING", nextAttemptAt: null },
+    });
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      action: "STRIPE_EVENT_REPLAYED",
+      resourceType: "stripe_event",
+      resourceId: eventId,
+      changes: {
+        previousStatus: existing?.status ?? null,
+        attempts: existing?.attempts ?? 0,
+      },
+    },
+  });
+
+  return processStripeEvent(eventId);
+}
+
+/**
+ * The Subscription columns a Stripe subscription maps to. Billing periods
+ * are per subscription item; the first item carries the plan's price.
+ */
+export function subscriptionData(
+  subscription: Stripe.Subscription,
+  planId: string,
+) {
+  const item = subscription.items.data[0];
+  return {
+    stripeCustomerId: idOf(subscription.customer)!,
+    stripePriceId: item.price.id,
+    planId,
+    status: STATUS_MAP[subscription.status] || ("ACTIVE" as const),
+    currentPeriodStart: new Date(item.current_period_start * 1000),
+    currentPeriodEnd: new Date(item.current_period_end * 1000),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    canceledAt: toDate(subscription.canceled_at),
+    trialEnd: toDate(subscription.trial_end),
+  };
+}
+
+// When Stripe created the event, i.e. the moment its object reflects
+function eventTime(event: Stripe.Event) {
+  return new Date(event.created * 1000);
+}
+
+// Subscriptions not yet updated from a newer event or fetch than `at`.
+// Stripe timestamps are whole seconds, so events from the same second all
+// apply, in the order they are processed.
+function notNewerThan(at: Date): Prisma.SubscriptionWhereInput {
+  return { OR: [{ stripeStateAt: null }, { stripeStateAt: { lte: at } }] };
+}
+
+function toDate(timestamp: number | null | undefined) {
+  return timestamp ? new Date(timestamp * 1000) : null;
+}
+
+function idOf(value: string | { id: string } | null | undefined) {
+  return typeof value === "string" ? value : value?.id;
+}
+
+async function findSubscriptionByCustomer(
+  tx: TransactionClient,
+  stripeCustomerId: string | undefined,
+) {
+  if (!stripeCustomerId) return null;
+  return tx.subscription.findFirst({
+    where: { stripeCustomerId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+function invoiceSubscriptionId(invoice: Stripe.Invoice) {
+  return idOf(invoice.parent?.subscription_details?.subscription);
+}
+
+async function auditSubscriptionEvent(
+  tx: TransactionClient,
+  subscription: { id: string; organizationId: string },
+  event: Stripe.Event,
+  action: string,
+  changes: Prisma.InputJsonObject,
+) {
+  await tx.auditLog.create({
+    data: {
+      organizationId: subscription.organizationId,
+      action,
+      resourceType: "subscription",
+      resourceId: subscription.id,
+      changes: { stripeEventId: event.id, ...changes },
+    },
+  });
+}
+
+async function handleCheckoutSessionCompleted(
+  _tx: TransactionClient,
+  event: Stripe.Event,
+) {
+  const session = event.data.object as Stripe.Checkout.Session;
+  const organizationId = session.metadata?.organizationId;
+  const subscriptionId = idOf(session.subscription);
+
+  if (!organizationId || !subscriptionId) {
+    console.error("Missing organizationId or subscriptionId in session");
+    return;
+  }
+
+  // The subscription will be created/updated by the subscription.created event
+  console.log(
+    `Checkout completed for org ${organizationId}, subscription ${subscriptionId}`,
+  );
+}
+
+async function handleSubscriptionUpdate(
+  tx: TransactionClient,
+  event: Stripe.Event,
+) {
+  const subscription = event.data.object as Stripe.Subscription;
+  const organizationId = subscription.metadata?.organizationId;
+
+  if (!organizationId) {
+    console.error("Missing organizationId in subscription metadata");
+    return;
+  }
+
+  const priceId = subscription.items.data[0]?.price.id;
+
+  // Find the plan by Stripe price ID
+  const plan = await tx.subscriptionPlan.findUnique({
+    where: { stripePriceId: priceId },
+  });
+
+  if (!plan) {
+    console.error(`No plan found for price ${priceId}`);
+    return;
+  }
+
+  const stripeStateAt = eventTime(event);
+  const data = { ...subscriptionData(subscription, plan.id), stripeStateAt };
+
+  const existing = await tx.subscription.findUnique({
+    where: { stripeSubscriptionId: subscription.id },
+    select: { id: true },
+  });
+
+  // A retried event can arrive after newer ones; its state is stale
+  if (existing) {
+    const { count } = await tx.subscription.updateMany({
+      where: { id: existing.id, ...notNewerThan(stripeStateAt) },
+      data,
+    });
+    if (count === 0) {
+      console.log(
+        `Skipping event ${event.id}: subscription ${subscription.id} has newer state`,
+      );
+      return;
+    }
+  }
+
+  const local =
+    existing ??
+    (await tx.subscription.create({
+      data: {
+        organizationId,
+        stripeSubscriptionId: subscription.id,
+        ...data,
+      },
+    }));
+  await settleScheduledPlanChanges(tx, local.id, plan.id);
+  invalidateEntitlements(organizationId);
+
+  console.log(
+    `Subscription ${subscription.id} updated for org ${organizationId}`,
+  );
+}
+
+async function handleSubscriptionDeleted(
+  tx: TransactionClient,
+  event: Stripe.Event,
+) {
+  const subscription = event.data.object as Stripe.Subscription;
+
+  const stripeStateAt = eventTime(event);
+
+  await tx.subscription.updateMany({
+    where: {
+      stripeSubscriptionId: subscription.id,
+      ...notNewerThan(stripeStateAt),
+    },
+    data: {
+      status: "CANCELED",
+      canceledAt: toDate(subscription.ended_at) ?? new Date(),
+      stripeStateAt,
+    },
+  });
+
+  if (subscription.metadata?.organizationId) {
+    invalidateEntitlements(subscription.metadata.organizationId);
+  }
+
+  console.log(`Subscription ${subscription.id} deleted`);
+}
+
+async function handleTrialWillEnd(tx: TransactionClient, event: Stripe.Event) {
+  const stripeSubscription = event.data.object as Stripe.Subscription;
+  const subscription = await tx.subscription.findUnique({
+    where: { stripeSubscriptionId: stripeSubscription.id },
+  });
+
+  if (!subscription) {
+    console.error(`No subscription found for ${stripeSubscription.id}`);
+    return;
+  }
+
+  const trialEnd = toDate(stripeSubscription.trial_end);
+  await tx.subscription.update({
+    where: { id: subscription.id },
+    data: { trialEnd },
+  });
+
+  await auditSubscriptionEvent(
+    tx,
+    subscription,
+    event,
+    "SUBSCRIPTION_TRIAL_WILL_END",
+    { trialEnd: trialEnd?.toISOString() ?? null },
+  );
+}
+
+async function handleCustomerUpdated(
+  tx: TransactionClient,
+  event: Stripe.Event,
+) {
+  const customer = event.data.object as Stripe.Customer;
+  const subscription = await findSubscriptionByCustomer(tx, customer.id);
+
+  if (!subscription) {
+    console.log(`No subscription found for customer ${customer.id}`);
+    return;
+  }
+
+  // Only the attributes that changed, with their new values
+  const previous = (event.data.previous_attributes ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const changed = Object.fromEntries(
+    Object.keys(previous).map((key) => [
+      key,
+      (customer as unknown as Record<string, unknown>)[key] ?? null,
+    ]),
+  );
+
+  await auditSubscriptionEvent(
+    tx,
+    subscription,
+    event,
+    "STRIPE_CUSTOMER_UPDATED",
+    {
+      stripeCustomerId: customer.id,
+      changed: changed as Prisma.InputJsonObject,
+    },
+  );
+}
+
+async function handleInvoiceFinalized(
+  tx: TransactionClient,
+  event: Stripe.Event,
+) {
+  const invoice = event.data.object as Stripe.Invoice;
+  const subscriptionId = invoiceSubscriptionId(invoice);
+  const subscription = subscriptionId
+    ? await tx.subscription.findUnique({
+        where: { stripeSubscriptionId: subscriptionId },
+      })
+    : await findSubscriptionByCustomer(tx, idOf(invoice.customer));
+
+  if (!subscription) {
+    console.log(`No subscription found for invoice ${invoice.id}`);
+    return;
+  }
+
+  await auditSubscriptionEvent(
+    tx,
+    subscription,
+    event,
+    "STRIPE_INVOICE_FINALIZED",
+    {
+      stripeInvoiceId: invoice.id ?? null,
+      number: invoice.number,
+      amountDue: invoice.amount_due,
+      currency: invoice.currency.toUpperCase(),
+      dueDate: toDate(invoice.due_date)?.toISOString() ?? null,
+    },
+  );
+}
+
+async function handleInvoicePaid(tx: TransactionClient, event: Stripe.Event) {
+  const invoice = event.data.object as Stripe.Invoice;
+  const subscriptionId = invoiceSubscriptionId(invoice);
+
+  if (subscriptionId) {
+    // Update subscription status to active if it was past_due
+    const stripeStateAt = eventTime(event);
+    await tx.subscription.updateMany({
+      where: {
+        stripeSubscriptionId: subscriptionId,
+        status: "PAST_DUE",
+        ...notNewerThan(stripeStateAt),
+      },
+      data: { status: "ACTIVE", stripeStateAt },
+    });
+  }
+
+  console.log(`Invoice ${invoice.id} paid`);
+}
+
+async function handleInvoicePaymentFailed(
+  tx: TransactionClient,
+  event: Stripe.Event,
+) {
+  const invoice = event.data.object as Stripe.Invoice;
+  const subscriptionId = invoiceSubscriptionId(invoice);
+
+  if (subscriptionId) {
+    const stripeStateAt = eventTime(event);
+    await tx.subscription.updateMany({
+      where: {
+        stripeSubscriptionId: subscriptionId,
+        ...notNewerThan(stripeStateAt),
+      },
+      data: { status: "PAST_DUE", stripeStateAt },
+    });
+  }
+
+  console.log(`Invoice ${invoice.id} payment failed`);
+}
+
+async function handleChargeRefunded(
+  tx: TransactionClient,
+  event: Stripe.Event,
+) {
+  const charge = event.data.object as Stripe.Charge;
+  const subscription = await findSubscriptionByCustomer(
+    tx,
+    idOf(charge.customer),
+  );
+
+  if (!subscription) {
+    console.log(`No subscription found for charge ${charge.id}`);
+    return;
+  }
+
+  await auditSubscriptionEvent(
+    tx,
+    subscription,
+    event,
+    "STRIPE_CHARGE_REFUNDED",
+    {
+      chargeId: charge.id,
+      amount: charge.amount,
+      amountRefunded: charge.amount_refunded,
+      currency: charge.currency.toUpperCase(),
+      fullyRefunded: charge.refunded,
+    },
+  );
+}
+
+async function handleDisputeCreated(
+  tx: TransactionClient,
+  event: Stripe.Event,
+) {
+  const dispute = event.data.object as Stripe.Dispute;
+
+  // Disputes only reference the charge, which knows the customer
+  const charge =
+    typeof dispute.charge === "string"
+      ? await getPaymentProvider().getCharge(dispute.charge)
+      : dispute.charge;
+  const subscription = await findSubscriptionByCustomer(
+    tx,
+    idOf(charge.customer),
+  );
+
+  if (!subscription) {
+    console.log(`No subscription found for dispute ${dispute.id}`);
+    return;
+  }
+
+  await auditSubscriptionEvent(
+    tx,
+    subscription,
+    event,
+    "STRIPE_DISPUTE_CREATED",
+    {
+      disputeId: dispute.id,
+      chargeId: charge.id,
+      amount: dispute.amount,
+      currency: dispute.currency.toUpperCase(),
+      reason: dispute.reason,
+      status: dispute.status,
+      evidenceDueBy:
+        toDate(dispute.evidence_details?.due_by)?.toISOString() ?? null,
+    },
+  );
+}
+
+const HANDLERS: Partial<Record<Stripe.Event.Type, EventHandler>> = {
+  "checkout.session.completed": handleCheckoutSessionCompleted,
+  "customer.subscription.created": handleSubscriptionUpdate,
+  "customer.subscription.updated": handleSubscriptionUpdate,
+  "customer.subscription.deleted": handleSubscriptionDeleted,
+  "customer.subscription.trial_will_end": handleTrialWillEnd,
+  "customer.updated": handleCustomerUpdated,
+  "invoice.finalized": handleInvoiceFinalized,
+  "invoice.paid": handleInvoicePaid,
+  "invoice.payment_failed": handleInvoicePaymentFailed,
+  "charge.refunded": handleChargeRefunded,
+  "charge.dispute.created": handleDisputeCreated,
+};
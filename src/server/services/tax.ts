@@ -0,0 +1,114 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "@/server/db/prisma";
+import { money } from "@/server/services/money";
+
+type TaxRule = {
+  id: string;
+  organizationId: string;
+  tenantId: string | null;
+  country: string | null;
+  jurisdiction: string | null;
+  name: string;
+  rate: Decimal;
+  exempt: boolean;
+  reverseCharge: boolean;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+};
+
+export type LineTaxBreakdown = {
+  ruleId: string | null;
+  name: string | null;
+  country: string | null;
+  jurisdiction: string | null;
+  rate: number;
+  taxableAmount: string;
+  taxAmount: string;
+  exempt: boolean;
+  reverseCharge: boolean;
+};
+
+/**
+ * Resolve the tax rule that applies to a tenant at a point in time
+ *
+ * Candidates are rules in force at `taxDate` that are either organization-wide
+ * or scoped to the tenant, and that match the tenant's country (or have no
+ * country). Tenant-specific rules win over organization rules, country-specific
+ * rules over catch-all rules, and the most recently effective rule breaks ties.
+ */
+export async function resolveTaxRule(options: {
+  organizationId: string;
+  tenantId: string;
+  country: string | null;
+  taxDate: Date;
+}): Promise<TaxRule | null> {
+  const { organizationId, tenantId, country, taxDate } = options;
+
+  const rules = await prisma.taxRule.findMany({
+    where: {
+      organizationId,
+      OR: [{ tenantId: null }, { tenantId }],
+      effectiveFrom: { lte: taxDate },
+      AND: [
+        { OR: [{ effectiveTo: null }, { effectiveTo: { gt: taxDate } }] },
+        {
+          OR: [
+            { country: null },
+            ...(country ? [{ country: country.toUpperCase() }] : []),
+          ],
+        },
+      ],
+    },
+  });
+
+  const rank = (rule: TaxRule) =>
+    (rule.tenantId ? 2 : 0) + (rule.country ? 1 : 0);
+
+  const [best] = [...rules].sort(
+    (a: TaxRule, b: TaxRule) =>
+      rank(b) - rank(a) ||
+      b.effectiveFrom.getTime() - a.effectiveFrom.getTime(),
+  );
+
+  return best ?? null;
+}
+
+/**
+ * Calculate tax for a single line amount under a resolved rule
+ *
+ * Exempt and reverse-charge lines carry no tax; the rule is still recorded so
+ * the invoice shows why no tax was charged. The tax amount is exact; callers
+ * round it under the organization's rounding policy.
+ */
+export function calculateLineTax(
+  taxableAmount: Decimal.Value,
+  rule: TaxRule | null,
+): LineTaxBreakdown {
+  if (!rule) {
+    return {
+      ruleId: null,
+      name: null,
+      country: null,
+      jurisdiction: null,
+      rate: 0,
+      taxableAmount: money(taxableAmount).toFixed(),
+      taxAmount: "0",
+      exempt: false,
+      reverseCharge: false,
+    };
+  }
+
+  const rate = rule.exempt || rule.reverseCharge ? money(0) : money(rule.rate);
+
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    country: rule.country,
+    jurisdiction: rule.jurisdiction,
+    rate: rate.toNumber(),
+    taxableAmount: money(taxableAmount).toFixed(),
+    taxAmount: money(taxableAmount).times(rate).toFixed(),
+    exempt: rule.exempt,
+    reverseCharge: rule.reverseCharge,
+  };
+}
@@ -9,6 +9,14 @@ import { subscriptionRouter } from "./routers/subscription";
 import { apiKeysRouter } from "./routers/apiKeys";
 import { teamRouter } from "./routers/team";
 import { customersRouter } from "./routers/customers";
+import { taxRouter } from "./routers/tax";
+import { pricingRouter } from "./routers/pricing";
+import { creditsRouter } from "./routers/credits";
+import { contractsRouter } from "./routers/contracts";
+import { exchangeRatesRouter } from "./routers/exchangeRates";
+import { stripeUsageRouter } from "./routers/stripeUsage";
+import { entitlementsRouter } from "./routers/entitlements";
+import { quotasRouter } from "./routers/quotas";
 
 export const appRouter = router({
   usage: usageRouter,
@@ -19,6 +27,14 @@ export const appRouter = router({
   apiKeys: apiKeysRouter,
   team: teamRouter,
   customers: customersRouter,
+  tax: taxRouter,
+  pricing: pricingRouter,
+  credits: creditsRouter,
+  contracts: contractsRouter,
+  exchangeRates: exchangeRatesRouter,
+  stripeUsage: stripeUsageRouter,
+  entitlements: entitlementsRouter,
+  quotas: quotasRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -24,6 +24,12 @@ type UsageGroupByItem = {
   _count: { id: number };
 };
 import { getRedisClient, getTopHotTenants } from "@/server/db/redis";
+import {
+  DuplicateInvoiceError,
+  generateInvoiceForTenant,
+} from "@/server/services/invoicing";
+import { roundMoney, sumMoney } from "@/server/services/money";
+import { toBaseCurrency } from "@/server/services/currency";
 
 export const adminRouter = router({
   getHotTenants: orgProcedure
@@ -164,42 +170,44 @@ export const adminRouter = router({
         }
       }
 
-      const [tenantCount, usageStats, invoiceStats] = await Promise.all([
-        prisma.tenant.count({
-          where: {
-            organizationId: ctx.organizationId,
-            status: "ACTIVE",
-          },
-        }),
-        prisma.usageEvent.aggregate({
-          where,
-          _sum: {
-            quantity: true,
-          },
-          _count: {
-            id: true,
-          },
-        }),
-        prisma.invoice.aggregate({
-          where: {
-            organizationId: ctx.organizationId,
-            ...(input.startDate || input.endDate
-              ? {
-                  periodStart: {
-                    ...(input.startDate ? { gte: input.startDate } : {}),
-                    ...(input.endDate ? { lte: input.endDate } : {}),
-                  },
-                }
-              : {}),
-          },
-          _sum: {
-            total: true,
-          },
-          _count: {
-            id: true,
-          },
-        }),
-      ]);
+      const [organization, tenantCount, usageStats, invoices] =
+        await Promise.all([
+          prisma.organization.findUniqueOrThrow({
+            where: { id: ctx.organizationId },
+            select: { currency: true },
+          }),
+          prisma.tenant.count({
+            where: {
+              organizationId: ctx.organizationId,
+              status: "ACTIVE",
+            },
+          }),
+          prisma.usageEvent.aggregate({
+            where,
+            _sum: {
+              quantity: true,
+            },
+            _count: {
+              id: true,
+            },
+          }),
+          // Invoices may be in different currencies; revenue is converted to
+          // the organization's currency at each invoice's stored rate
+          prisma.invoice.findMany({
+            where: {
+              organizationId: ctx.organizationId,
+              ...(input.startDate || input.endDate
+                ? {
+                    periodStart: {
+                      ...(input.startDate ? { gte: input.startDate } : {}),
+                      ...(input.endDate ? { lte: input.endDate } : {}),
+                    },
+                  }
+                : {}),
+            },
+            select: { total: true, exchangeRate: true },
+          }),
+        ]);
 
       const usageByType = await prisma.usageEvent.groupBy({
         by: ["eventType"],
@@ -224,8 +232,16 @@ export const adminRouter = router({
           })),
         },
         billing: {
-          totalRevenue: Number(invoiceStats._sum.total || 0),
-          invoiceCount: invoiceStats._count.id,
+          currency: organization.currency,
+          totalRevenue: roundMoney(
+            sumMoney(
+              invoices.map((invoice) =>
+                toBaseCurrency(invoice.total, invoice.exchangeRate),
+              ),
+            ),
+            "HALF_UP",
+          ).toNumber(),
+          invoiceCount: invoices.length,
         },
       };
     }),
@@ -299,62 +315,58 @@ export const adminRouter = router({
         where,
       });
 
-      const results = await Promise.allSettled(
-        tenants.map(async (tenant: Tenant) => {
-          // Import billing router procedure logic here or refactor to shared function
-          // For now, we'll use a simplified version
-          const snapshots = await prisma.usageSnapshot.findMany({
-            where: {
-              tenantId: tenant.id,
-              snapshotDate: {
-                gte: input.periodStart,
-                lte: input.periodEnd,
-              },
-            },
+      // Tenants with nothing to charge, and periods already invoiced, are
+      // skipped; flat fees and commitment shortfalls are charged without usage
+      const generateForTenant = async (tenant: Tenant) => {
+        try {
+          const invoice = await generateInvoiceForTenant({
+            tenantId: tenant.id,
+            organizationId: tenant.organizationId,
+            periodStart: input.periodStart,
+            periodEnd: input.periodEnd,
+            skipEmpty: true,
           });
 
-          if (snapshots.length === 0) {
+          if (!invoice) {
             return {
               tenantId: tenant.id,
               status: "skipped",
-              reason: "No usage data",
+              reason: "Nothing to invoice",
             };
           }
 
-          // Generate invoice (simplified - in production, use the full logic from billing router)
-          const invoiceCount = await prisma.invoice.count({
-            where: { organizationId: ctx.organizationId },
-          });
-          const organization = await prisma.organization.findUnique({
-            where: { id: ctx.organizationId },
-          });
-          const orgSlug = organization?.slug?.toUpperCase() ?? "ORG";
-          const invoiceNumber = `INV-${orgSlug}-${String(invoiceCount + 1).padStart(6, "0")}`;
-
-          const invoice = await prisma.invoice.create({
-            data: {
-              tenantId: tenant.id,
-              organizationId: ctx.organizationId,
-              invoiceNumber,
-              periodStart: input.periodStart,
-              periodEnd: input.periodEnd,
-              subtotal: 0,
-              tax: 0,
-              total: 0,
-              dueDate: new Date(
-                input.periodEnd.getTime() + 30 * 24 * 60 * 60 * 1000,
-              ),
-              status: "DRAFT",
-            },
-          });
-
           return {
             tenantId: tenant.id,
             status: "success",
             invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
           };
-        }),
-      );
+        } catch (error) {
+          if (error instanceof DuplicateInvoiceError) {
+            return {
+              tenantId: tenant.id,
+              status: "skipped",
+              reason: error.message,
+            };
+          }
+          throw error;
+        }
+      };
+
+      // Invoice numbers are allocated under a per-organization row lock, so
+      // tenants can be generated concurrently; batching only bounds the number
+      // of open transactions competing for database connections.
+      const BATCH_SIZE = 25;
+      const results: PromiseSettledResult<
+        Awaited<ReturnType<typeof generateForTenant>>
+      >[] = [];
+
+      for (let i = 0; i < tenants.length; i += BATCH_SIZE) {
+        const batch = tenants.slice(i, i + BATCH_SIZE);
+        results.push(
+          ...(await Promise.allSettled(batch.map(generateForTenant))),
+        );
+      }
 
       return {
         total: tenants.length,
@@ -2,8 +2,9 @@ import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { JsonValue } from "@prisma/client/runtime/library";
 import { randomBytes, createHash } from "crypto";
-import { router, publicProcedure } from "../trpc";
+import { router, publicProcedure, withEntitlementErrors } from "../trpc";
 import { prisma } from "@/server/db/prisma";
+import { requireWithinLimit } from "@/server/services/entitlements";
 
 type ApiKey = {
   id: string;
@@ -62,6 +63,17 @@ export const apiKeysRouter = router({
       }),
     )
     .mutation(async ({ input }) => {
+      const activeKeys = await prisma.apiKey.count({
+        where: {
+          organizationId: input.organizationId,
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+      });
+      await withEntitlementErrors(() =>
+        requireWithinLimit(input.organizationId, "maxApiKeys", activeKeys),
+      );
+
       const { key, hash, prefix } = generateApiKey();
 
       const apiKey = await prisma.apiKey.create({
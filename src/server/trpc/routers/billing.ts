@@ -1,14 +1,38 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { Decimal } from "@prisma/client/runtime/library";
-import { PrismaClient } from "@prisma/client";
-import { router, tenantProcedure } from "../trpc";
+import { router, tenantProcedure, orgProcedure } from "../trpc";
 import { prisma } from "@/server/db/prisma";
-
-type TransactionClient = Omit<
-  PrismaClient,
-  "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends"
->;
+import {
+  DuplicateInvoiceError,
+  generateInvoiceForTenant,
+} from "@/server/services/invoicing";
+import {
+  formatInvoiceNumber,
+  highestIssuedInvoiceNumber,
+} from "@/server/services/invoiceNumbering";
+import { roundMoney, sumMoney } from "@/server/services/money";
+import {
+  currencyCodeSchema,
+  ExchangeRateNotFoundError,
+  toBaseCurrency,
+} from "@/server/services/currency";
+import {
+  InvoiceLifecycleError,
+  finalizeInvoice,
+  issueCreditNote,
+  markInvoicePaid,
+  voidInvoice,
+} from "@/server/services/invoiceLifecycle";
+import {
+  loadInvoiceDocument,
+  renderInvoiceDocument,
+} from "@/server/services/invoiceDocuments";
+import {
+  dunningStepsSchema,
+  resolveDunningSteps,
+} from "@/server/services/dunning";
+import { checkOrganizationQuota } from "@/server/services/quota";
 
 type Invoice = {
   id: string;
@@ -21,6 +45,8 @@ type Invoice = {
   subtotal: Decimal;
   tax: Decimal;
   total: Decimal;
+  currency: string;
+  exchangeRate: Decimal;
   dueDate: Date;
   paidAt: Date | null;
   metadata: unknown;
@@ -33,28 +59,20 @@ type UsageSummaryItem = {
   _sum: { totalQuantity: Decimal | null };
 };
 
-type UsageSnapshot = {
-  id: string;
-  tenantId: string;
-  organizationId: string;
-  snapshotDate: Date;
-  eventType: string;
-  totalQuantity: Decimal;
-  metadata: unknown;
-  createdAt: Date;
-};
-
-type PricingTier = {
-  id: string;
-  organizationId: string;
-  eventType: string;
-  tierLevel: number;
-  minQuantity: Decimal;
-  maxQuantity: Decimal | null;
-  unitPrice: Decimal;
-  effectiveFrom: Date;
-  effectiveTo: Date | null;
-};
+// Run an invoice lifecycle operation, surfacing lifecycle errors as tRPC errors
+async function withLifecycleErrors<T>(operation: () => Promise<T>) {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof InvoiceLifecycleError) {
+      throw new TRPCError({
+        code: error.code === "INVALID_TRANSITION" ? "BAD_REQUEST" : error.code,
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+}
 
 export const billingRouter = router({
   generateInvoice: tenantProcedure
@@ -73,10 +91,8 @@ export const billingRouter = router({
         });
       }
 
-      // Get tenant and organization
       const tenant = await prisma.tenant.findUnique({
         where: { id: ctx.tenantId },
-        include: { organization: true },
       });
 
       if (!tenant) {
@@ -86,254 +102,25 @@ export const billingRouter = router({
         });
       }
 
-      // Get usage snapshots for the period
-      const snapshots = await prisma.usageSnapshot.findMany({
-        where: {
-          tenantId: ctx.tenantId,
-          snapshotDate: {
-            gte: input.periodStart,
-            lte: input.periodEnd,
-          },
-        },
-      });
-
-      // Get pricing tiers for the organization
-      const pricingTiers = await prisma.pricingTier.findMany({
-        where: {
+      try {
+        return await generateInvoiceForTenant({
+          tenantId: tenant.id,
           organizationId: tenant.organizationId,
-          effectiveFrom: {
-            lte: input.periodEnd,
-          },
-          OR: [
-            { effectiveTo: null },
-            { effectiveTo: { gte: input.periodStart } },
-          ],
-        },
-        orderBy: {
-          tierLevel: "asc",
-        },
-      });
-
-      // Group snapshots by event type
-      const usageByEventType = snapshots.reduce(
-        (
-          acc: Record<
-            string,
-            { totalQuantity: number; snapshots: UsageSnapshot[] }
-          >,
-          snapshot: UsageSnapshot,
-        ) => {
-          if (!acc[snapshot.eventType]) {
-            acc[snapshot.eventType] = {
-              totalQuantity: 0,
-              snapshots: [],
-            };
-          }
-          acc[snapshot.eventType]!.totalQuantity += Number(
-            snapshot.totalQuantity,
-          );
-          acc[snapshot.eventType]!.snapshots.push(snapshot);
-          return acc;
-        },
-        {} as Record<
-          string,
-          { totalQuantity: number; snapshots: UsageSnapshot[] }
-        >,
-      );
-
-      // Calculate line items with tiered pricing
-      // Fixed: Proper tiered pricing calculation that tracks position through tiers
-      const lineItems: Array<{
-        eventType: string;
-        quantity: number;
-        unitPrice: number;
-        totalPrice: number;
-        tierBreakdown: Array<{
-          tierLevel: number;
-          quantity: number;
-          unitPrice: number;
-          subtotal: number;
-        }>;
-      }> = [];
-
-      for (const [eventType, usage] of Object.entries(usageByEventType)) {
-        const relevantTiers = pricingTiers
-          .filter((tier: PricingTier) => tier.eventType === eventType)
-          .sort((a: PricingTier, b: PricingTier) => a.tierLevel - b.tierLevel);
-
-        const currentUsage = usageByEventType[eventType];
-        if (!currentUsage || currentUsage.totalQuantity <= 0) continue;
-
-        let processedQuantity = 0; // Track how much we've processed through tiers
-        let totalPrice = 0;
-        const tierBreakdown: Array<{
-          tierLevel: number;
-          quantity: number;
-          unitPrice: number;
-          subtotal: number;
-        }> = [];
-
-        for (const tier of relevantTiers) {
-          const tierMin = Number(tier.minQuantity);
-          const tierMax = tier.maxQuantity
-            ? Number(tier.maxQuantity)
-            : Infinity;
-          const tierPrice = Number(tier.unitPrice);
-
-          // Skip if we haven't reached this tier yet
-          if (processedQuantity >= currentUsage.totalQuantity) break;
-
-          // Calculate quantity that falls within this tier
-          // Tier range: [tierMin, tierMax)
-          const tierCapacity = tierMax - tierMin;
-          const quantityToProcess =
-            currentUsage.totalQuantity - processedQuantity;
-
-          // If we're starting below tierMin, skip to the appropriate tier
-          if (processedQuantity < tierMin) {
-            // This tier starts at tierMin, we need to process from there
-            const quantityInTier = Math.min(
-              currentUsage.totalQuantity - tierMin,
-              tierCapacity,
-            );
-
-            if (quantityInTier > 0 && currentUsage.totalQuantity > tierMin) {
-              const actualQuantity = Math.min(
-                quantityInTier,
-                currentUsage.totalQuantity - tierMin,
-              );
-              if (actualQuantity > 0) {
-                totalPrice += actualQuantity * tierPrice;
-                tierBreakdown.push({
-                  tierLevel: tier.tierLevel,
-                  quantity: actualQuantity,
-                  unitPrice: tierPrice,
-                  subtotal: actualQuantity * tierPrice,
-                });
-                processedQuantity = tierMin + actualQuantity;
-              }
-            }
-          } else {
-            // We're within or past this tier's minimum
-            const remainingInTier = Math.max(0, tierMax - processedQuantity);
-            const quantityInTier = Math.min(quantityToProcess, remainingInTier);
-
-            if (quantityInTier > 0) {
-              totalPrice += quantityInTier * tierPrice;
-              tierBreakdown.push({
-                tierLevel: tier.tierLevel,
-                quantity: quantityInTier,
-                unitPrice: tierPrice,
-                subtotal: quantityInTier * tierPrice,
-              });
-              processedQuantity += quantityInTier;
-            }
-          }
-        }
-
-        // If no tiers matched, use default pricing (first tier or zero)
-        if (tierBreakdown.length === 0 && relevantTiers.length > 0) {
-          const defaultTier = relevantTiers[0];
-          const tierPrice = Number(defaultTier.unitPrice);
-          totalPrice = currentUsage.totalQuantity * tierPrice;
-          tierBreakdown.push({
-            tierLevel: defaultTier.tierLevel,
-            quantity: currentUsage.totalQuantity,
-            unitPrice: tierPrice,
-            subtotal: totalPrice,
+          periodStart: input.periodStart,
+          periodEnd: input.periodEnd,
+        });
+      } catch (error) {
+        if (error instanceof ExchangeRateNotFoundError) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: error.message,
           });
         }
-
-        lineItems.push({
-          eventType,
-          quantity: currentUsage.totalQuantity,
-          unitPrice:
-            currentUsage.totalQuantity > 0
-              ? totalPrice / currentUsage.totalQuantity
-              : 0,
-          totalPrice,
-          tierBreakdown,
-        });
-      }
-
-      const subtotal = lineItems.reduce(
-        (sum, item) => sum + item.totalPrice,
-        0,
-      );
-      const tax = subtotal * 0.1; // 10% tax (configurable)
-      const total = subtotal + tax;
-
-      // Generate invoice number
-      const invoiceCount = await prisma.invoice.count({
-        where: { organizationId: tenant.organizationId },
-      });
-      const orgSlug = tenant.organization?.slug?.toUpperCase() ?? "ORG";
-      const invoiceNumber = `INV-${orgSlug}-${String(invoiceCount + 1).padStart(6, "0")}`;
-
-      if (!ctx.tenantId) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Tenant context is required",
-        });
+        if (error instanceof DuplicateInvoiceError) {
+          throw new TRPCError({ code: "CONFLICT", message: error.message });
+        }
+        throw error;
       }
-
-      const tenantId = ctx.tenantId;
-
-      // Create invoice with audit trail linking events
-      const invoice = await prisma.$transaction(
-        async (tx: TransactionClient) => {
-          // Create the invoice
-          const newInvoice = await tx.invoice.create({
-            data: {
-              tenantId,
-              organizationId: tenant.organizationId,
-              invoiceNumber,
-              periodStart: input.periodStart,
-              periodEnd: input.periodEnd,
-              subtotal,
-              tax,
-              total,
-              dueDate: new Date(
-                input.periodEnd.getTime() + 30 * 24 * 60 * 60 * 1000,
-              ), // 30 days after period end
-              status: "DRAFT",
-              lineItems: {
-                create: lineItems.map((item) => ({
-                  eventType: item.eventType,
-                  quantity: item.quantity,
-                  unitPrice: item.unitPrice,
-                  totalPrice: item.totalPrice,
-                  metadata: { tierBreakdown: item.tierBreakdown },
-                })),
-              },
-            },
-            include: {
-              lineItems: true,
-            },
-          });
-
-          // Link all usage events in the billing period to this invoice (audit trail)
-          const billedAt = new Date();
-          await tx.usageEvent.updateMany({
-            where: {
-              tenantId: ctx.tenantId,
-              timestamp: {
-                gte: input.periodStart,
-                lte: input.periodEnd,
-              },
-              invoiceId: null, // Only link events not already billed
-            },
-            data: {
-              invoiceId: newInvoice.id,
-              billedAt,
-            },
-          });
-
-          return newInvoice;
-        },
-      );
-
-      return invoice;
     }),
 
   getInvoice: tenantProcedure
@@ -371,6 +158,43 @@ export const billingRouter = router({
       return invoice;
     }),
 
+  getInvoiceDocument: tenantProcedure
+    .input(
+      z.object({
+        invoiceId: z.string(),
+        format: z.enum(["pdf", "ubl", "json"]).default("pdf"),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.tenantId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Tenant context is required",
+        });
+      }
+
+      const document = await loadInvoiceDocument({
+        invoiceId: input.invoiceId,
+        tenantId: ctx.tenantId,
+      });
+
+      if (!document) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Invoice not found",
+        });
+      }
+
+      const rendered = await renderInvoiceDocument(document, input.format);
+
+      return {
+        filename: rendered.filename,
+        contentType: rendered.contentType,
+        sha256: rendered.sha256,
+        base64: Buffer.from(rendered.content).toString("base64"),
+      };
+    }),
+
   listInvoices: tenantProcedure
     .input(
       z.object({
@@ -448,7 +272,11 @@ export const billingRouter = router({
         });
       }
 
-      const [invoices, usageSummary] = await Promise.all([
+      const [tenant, invoices, usageSummary] = await Promise.all([
+        prisma.tenant.findUniqueOrThrow({
+          where: { id: ctx.tenantId },
+          select: { organization: { select: { currency: true } } },
+        }),
         prisma.invoice.findMany({
           where: {
             tenantId: ctx.tenantId,
@@ -476,24 +304,32 @@ export const billingRouter = router({
         }),
       ]);
 
-      const totalBilled = invoices.reduce(
-        (sum: number, inv: Invoice) => sum + Number(inv.total),
-        0,
+      // Totals are reported in the organization's currency, each invoice
+      // converted at the rate stored on it
+      const baseTotal = (invoices: Invoice[]) =>
+        roundMoney(
+          sumMoney(
+            invoices.map((inv) => toBaseCurrency(inv.total, inv.exchangeRate)),
+          ),
+          "HALF_UP",
+        ).toNumber();
+
+      const totalBilled = baseTotal(invoices);
+      const totalPaid = baseTotal(
+        invoices.filter((inv: Invoice) => inv.status === "PAID"),
       );
-      const totalPaid = invoices
-        .filter((inv: Invoice) => inv.status === "PAID")
-        .reduce((sum: number, inv: Invoice) => sum + Number(inv.total), 0);
-      const totalPending = invoices
-        .filter(
+      const totalPending = baseTotal(
+        invoices.filter(
           (inv: Invoice) => inv.status === "PENDING" || inv.status === "DRAFT",
-        )
-        .reduce((sum: number, inv: Invoice) => sum + Number(inv.total), 0);
+        ),
+      );
 
       return {
         period: {
           start: input.startDate,
           end: input.endDate,
         },
+        currency: tenant.organization.currency,
         summary: {
           totalBilled,
           totalPaid,
@@ -511,7 +347,521 @@ export const billingRouter = router({
           periodEnd: inv.periodEnd,
           status: inv.status,
           total: Number(inv.total),
+          currency: inv.currency,
+          baseTotal: roundMoney(
+            toBaseCurrency(inv.total, inv.exchangeRate),
+            "HALF_UP",
+          ).toNumber(),
         })),
       };
     }),
+
+  getInvoiceNumbering: orgProcedure.query(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: ctx.organizationId },
+      include: { invoiceSequence: true },
+    });
+
+    if (!organization) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Organization not found",
+      });
+    }
+
+    const year = new Date().getUTCFullYear();
+    const format = {
+      prefix: organization.invoiceSequence?.prefix ?? null,
+      padding: organization.invoiceSequence?.padding ?? 6,
+      resetYearly: organization.invoiceSequence?.resetYearly ?? false,
+    };
+    const sequence = organization.invoiceSequence;
+    // Mirror allocateInvoiceNumber without taking the sequence lock
+    let nextNumber: number;
+    if (!sequence) {
+      nextNumber =
+        (await highestIssuedInvoiceNumber(prisma, ctx.organizationId)) + 1;
+    } else if (sequence.resetYearly && sequence.year !== year) {
+      nextNumber = 1;
+    } else {
+      nextNumber = sequence.lastNumber + 1;
+    }
+
+    return {
+      ...format,
+      lastNumber: sequence?.lastNumber ?? 0,
+      nextInvoiceNumber: formatInvoiceNumber(
+        format,
+        organization.slug,
+        year,
+        nextNumber,
+      ),
+    };
+  }),
+
+  updateInvoiceNumbering: orgProcedure
+    .input(
+      z.object({
+        prefix: z
+          .string()
+          .min(1)
+          .max(20)
+          .regex(/^[A-Za-z0-9-]+$/)
+          .nullable(),
+        padding: z.number().int().min(1).max(12),
+        resetYearly: z.boolean(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      const sequence = await prisma.$transaction(async (tx) => {
+        const lastNumber = await highestIssuedInvoiceNumber(tx, organizationId);
+
+        const sequence = await tx.invoiceSequence.upsert({
+          where: { organizationId },
+          create: {
+            organizationId,
+            year: new Date().getUTCFullYear(),
+            lastNumber,
+            ...input,
+          },
+          update: input,
+        });
+        if (input.resetYearly) return sequence;
+
+        // Numbering without the year continues after every number issued,
+        // including those from years it was reset in
+        const [continued] = await tx.$queryRaw<Array<{ lastNumber: number }>>`
+          UPDATE "invoice_sequences"
+          SET "lastNumber" = GREATEST("lastNumber", ${lastNumber})
+          WHERE "id" = ${sequence.id}
+          RETURNING "lastNumber"
+        `;
+        return { ...sequence, lastNumber: continued!.lastNumber };
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId,
+          userId: ctx.userId,
+          action: "INVOICE_NUMBERING_UPDATED",
+          resourceType: "invoice_sequence",
+          resourceId: sequence.id,
+          changes: input,
+        },
+      });
+
+      return sequence;
+    }),
+
+  updateInvoiceBranding: orgProcedure
+    .input(
+      z.object({
+        billingName: z.string().min(1).max(200).nullable(),
+        billingAddress: z.string().max(1000).nullable(),
+        billingEmail: z.string().email().nullable(),
+        taxId: z.string().max(50).nullable(),
+        brandColor: z
+          .string()
+          .regex(/^#[0-9a-fA-F]{6}$/)
+          .nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const organization = await prisma.organization.update({
+        where: { id: ctx.organizationId },
+        data: input,
+        select: {
+          id: true,
+          billingName: true,
+          billingAddress: true,
+          billingEmail: true,
+          taxId: true,
+          brandColor: true,
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+          action: "INVOICE_BRANDING_UPDATED",
+          resourceType: "organization",
+          resourceId: organization.id,
+          changes: input,
+        },
+      });
+
+      return organization;
+    }),
+
+  finalizeInvoice: orgProcedure
+    .input(z.object({ invoiceId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      return withLifecycleErrors(() =>
+        finalizeInvoice({
+          invoiceId: input.invoiceId,
+          organizationId,
+          userId: ctx.userId,
+        }),
+      );
+    }),
+
+  markInvoicePaid: orgProcedure
+    .input(
+      z.object({
+        invoiceId: z.string(),
+        paidAt: z.date().optional(),
+        reference: z.string().max(255).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      return withLifecycleErrors(() =>
+        markInvoicePaid({
+          invoiceId: input.invoiceId,
+          organizationId,
+          userId: ctx.userId,
+          paidAt: input.paidAt,
+          reference: input.reference,
+        }),
+      );
+    }),
+
+  voidInvoice: orgProcedure
+    .input(
+      z.object({
+        invoiceId: z.string(),
+        reason: z.string().max(500).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      return withLifecycleErrors(() =>
+        voidInvoice({
+          invoiceId: input.invoiceId,
+          organizationId,
+          userId: ctx.userId,
+          reason: input.reason,
+        }),
+      );
+    }),
+
+  issueCreditNote: orgProcedure
+    .input(
+      z.object({
+        invoiceId: z.string(),
+        amount: z.number().positive().optional(),
+        reason: z.string().min(1).max(500),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      return withLifecycleErrors(() =>
+        issueCreditNote({
+          invoiceId: input.invoiceId,
+          organizationId,
+          userId: ctx.userId,
+          amount: input.amount,
+          reason: input.reason,
+        }),
+      );
+    }),
+
+  getDunningPolicy: orgProcedure.query(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    const policy = await prisma.dunningPolicy.findUnique({
+      where: { organizationId: ctx.organizationId },
+    });
+
+    return {
+      enabled: policy?.enabled ?? true,
+      isDefault: !policy,
+      steps: resolveDunningSteps(policy),
+    };
+  }),
+
+  updateDunningPolicy: orgProcedure
+    .input(
+      z.object({
+        enabled: z.boolean(),
+        steps: dunningStepsSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      const policy = await prisma.dunningPolicy.upsert({
+        where: { organizationId },
+        create: { organizationId, ...input },
+        update: input,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId,
+          userId: ctx.userId,
+          action: "DUNNING_POLICY_UPDATED",
+          resourceType: "dunning_policy",
+          resourceId: policy.id,
+          changes: input,
+        },
+      });
+
+      return policy;
+    }),
+
+  getRoundingPolicy: orgProcedure.query(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    const organization = await prisma.organization.findUniqueOrThrow({
+      where: { id: ctx.organizationId },
+      select: { roundingMode: true, roundingScope: true },
+    });
+
+    return {
+      mode: organization.roundingMode,
+      scope: organization.roundingScope,
+    };
+  }),
+
+  // Applies to invoices generated after the change; existing invoices keep
+  // the amounts they were issued with
+  updateRoundingPolicy: orgProcedure
+    .input(
+      z.object({
+        mode: z.enum(["HALF_UP", "HALF_EVEN"]),
+        scope: z.enum(["PER_LINE", "PER_INVOICE"]),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const organization = await prisma.organization.update({
+        where: { id: ctx.organizationId },
+        data: { roundingMode: input.mode, roundingScope: input.scope },
+        select: { id: true, roundingMode: true, roundingScope: true },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+          action: "ROUNDING_POLICY_UPDATED",
+          resourceType: "organization",
+          resourceId: organization.id,
+          changes: input,
+        },
+      });
+
+      return {
+        mode: organization.roundingMode,
+        scope: organization.roundingScope,
+      };
+    }),
+
+  // Current usage against the organization-wide quota, if one is set
+  getOrganizationQuota: orgProcedure.query(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    const [organization, status] = await Promise.all([
+      prisma.organization.findUniqueOrThrow({
+        where: { id: ctx.organizationId },
+        select: {
+          eventQuotaMode: true,
+          eventQuotaSoftPercent: true,
+          eventQuotaOveragePercent: true,
+        },
+      }),
+      checkOrganizationQuota({
+        organizationId: ctx.organizationId,
+        quantity: 0,
+      }),
+    ]);
+
+    return {
+      mode: organization.eventQuotaMode,
+      softPercent: organization.eventQuotaSoftPercent,
+      overagePercent: organization.eventQuotaOveragePercent,
+      status: status.quotaExists
+        ? {
+            current: status.current,
+            limit: status.limit,
+            softLimit: status.softLimit,
+            resetAt: status.resetAt,
+          }
+        : null,
+    };
+  }),
+
+  // A null mode turns the organization-wide quota off
+  updateOrganizationQuota: orgProcedure
+    .input(
+      z.object({
+        mode: z.enum(["HARD", "SOFT", "DISABLED"]).nullable(),
+        softPercent: z.number().int().min(1).max(100).default(80),
+        overagePercent: z.number().int().min(0).max(1000).default(0),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const organization = await prisma.organization.update({
+        where: { id: ctx.organizationId },
+        data: {
+          eventQuotaMode: input.mode,
+          eventQuotaSoftPercent: input.softPercent,
+          eventQuotaOveragePercent: input.overagePercent,
+        },
+        select: {
+          id: true,
+          eventQuotaMode: true,
+          eventQuotaSoftPercent: true,
+          eventQuotaOveragePercent: true,
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+          action: "ORGANIZATION_QUOTA_UPDATED",
+          resourceType: "organization",
+          resourceId: organization.id,
+          changes: input,
+        },
+      });
+
+      return {
+        mode: organization.eventQuotaMode,
+        softPercent: organization.eventQuotaSoftPercent,
+        overagePercent: organization.eventQuotaOveragePercent,
+      };
+    }),
+
+  // The base currency can only be chosen before the first invoice: earlier
+  // invoices store their exchange rate to the previous one
+  updateBaseCurrency: orgProcedure
+    .input(z.object({ currency: currencyCodeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const invoiceCount = await prisma.invoice.count({
+        where: { organizationId: ctx.organizationId },
+      });
+
+      if (invoiceCount > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            "The base currency cannot be changed once invoices have been issued",
+        });
+      }
+
+      const organization = await prisma.organization.update({
+        where: { id: ctx.organizationId },
+        data: { currency: input.currency },
+        select: { id: true, currency: true },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+          action: "BASE_CURRENCY_UPDATED",
+          resourceType: "organization",
+          resourceId: organization.id,
+          changes: input,
+        },
+      });
+
+      return organization;
+    }),
 });
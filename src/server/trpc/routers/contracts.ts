@@ -0,0 +1,267 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, orgProcedure, requireFeature } from "../trpc";
+import { prisma } from "@/server/db/prisma";
+import { getCommitmentBurnDown } from "@/server/services/contracts";
+
+const trueUpFrequencySchema = z.enum(["MONTHLY", "QUARTERLY", "END_OF_TERM"]);
+
+export const contractsRouter = router({
+  list: orgProcedure
+    .input(
+      z.object({
+        tenantId: z.string().optional(),
+        includeCancelled: z.boolean().default(false),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      return prisma.contract.findMany({
+        where: {
+          organizationId: ctx.organizationId,
+          ...(input.tenantId ? { tenantId: input.tenantId } : {}),
+          ...(input.includeCancelled ? {} : { cancelledAt: null }),
+        },
+        orderBy: [{ tenantId: "asc" }, { startDate: "desc" }],
+      });
+    }),
+
+  create: orgProcedure
+    .use(requireFeature("customContracts"))
+    .input(
+      z
+        .object({
+          tenantId: z.string(),
+          name: z.string().min(1).max(100),
+          committedAmount: z.number().positive().multipleOf(0.01),
+          startDate: z.date(),
+          endDate: z.date(),
+          trueUpFrequency: trueUpFrequencySchema.default("END_OF_TERM"),
+        })
+        .refine((input) => input.startDate < input.endDate, {
+          message: "startDate must be before endDate",
+        }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      const tenant = await prisma.tenant.findFirst({
+        where: { id: input.tenantId, organizationId },
+        include: { organization: { select: { currency: true } } },
+      });
+
+      if (!tenant) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Tenant not found",
+        });
+      }
+
+      // Overlapping terms would count the same spend against two commitments
+      const overlapping = await prisma.contract.findFirst({
+        where: {
+          tenantId: input.tenantId,
+          cancelledAt: null,
+          startDate: { lte: input.endDate },
+          endDate: { gte: input.startDate },
+        },
+      });
+
+      if (overlapping) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `Contract term overlaps existing contract "${overlapping.name}"`,
+        });
+      }
+
+      // Committed in the currency the tenant is invoiced in now
+      const contract = await prisma.contract.create({
+        data: {
+          organizationId,
+          currency: tenant.currency ?? tenant.organization.currency,
+          ...input,
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId,
+          tenantId: input.tenantId,
+          userId: ctx.userId,
+          action: "CONTRACT_CREATED",
+          resourceType: "contract",
+          resourceId: contract.id,
+          changes: {
+            committedAmount: input.committedAmount,
+            currency: contract.currency,
+            startDate: input.startDate.toISOString(),
+            endDate: input.endDate.toISOString(),
+            trueUpFrequency: input.trueUpFrequency,
+          },
+        },
+      });
+
+      return contract;
+    }),
+
+  // Terms apply to true-ups not yet billed; shortfalls already invoiced stand
+  update: orgProcedure
+    .input(
+      z.object({
+        contractId: z.string(),
+        name: z.string().min(1).max(100).optional(),
+        committedAmount: z.number().positive().multipleOf(0.01).optional(),
+        endDate: z.date().optional(),
+        trueUpFrequency: trueUpFrequencySchema.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const { contractId, ...data } = input;
+
+      const contract = await prisma.contract.findFirst({
+        where: { id: contractId, organizationId: ctx.organizationId },
+      });
+
+      if (!contract) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Contract not found",
+        });
+      }
+
+      if (contract.cancelledAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Cancelled contracts cannot be changed",
+        });
+      }
+
+      if (data.endDate && data.endDate <= contract.startDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "endDate must be after the contract start date",
+        });
+      }
+
+      const updated = await prisma.contract.update({
+        where: { id: contract.id },
+        data,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          tenantId: contract.tenantId,
+          userId: ctx.userId,
+          action: "CONTRACT_UPDATED",
+          resourceType: "contract",
+          resourceId: contract.id,
+          changes: {
+            ...data,
+            ...(data.endDate ? { endDate: data.endDate.toISOString() } : {}),
+          },
+        },
+      });
+
+      return updated;
+    }),
+
+  // True-up periods ending after the cancellation are never billed
+  cancel: orgProcedure
+    .input(
+      z.object({
+        contractId: z.string(),
+        reason: z.string().max(500).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const contract = await prisma.contract.findFirst({
+        where: { id: input.contractId, organizationId: ctx.organizationId },
+      });
+
+      if (!contract) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Contract not found",
+        });
+      }
+
+      if (contract.cancelledAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Contract is already cancelled",
+        });
+      }
+
+      const cancelledAt = new Date();
+      const cancelled = await prisma.contract.update({
+        where: { id: contract.id },
+        data: { cancelledAt },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          tenantId: contract.tenantId,
+          userId: ctx.userId,
+          action: "CONTRACT_CANCELLED",
+          resourceType: "contract",
+          resourceId: contract.id,
+          changes: {
+            cancelledAt: cancelledAt.toISOString(),
+            ...(input.reason ? { reason: input.reason } : {}),
+          },
+        },
+      });
+
+      return cancelled;
+    }),
+
+  getBurnDown: orgProcedure
+    .input(
+      z.object({
+        tenantId: z.string().optional(),
+        includeCancelled: z.boolean().default(false),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      return getCommitmentBurnDown({
+        organizationId: ctx.organizationId,
+        tenantId: input.tenantId,
+        includeCancelled: input.includeCancelled,
+      });
+    }),
+});
@@ -0,0 +1,285 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, orgProcedure } from "../trpc";
+import { prisma } from "@/server/db/prisma";
+import { getCreditBalance } from "@/server/services/credits";
+import { resolveTenantCurrency } from "@/server/services/currency";
+import { money } from "@/server/services/money";
+
+async function requireTenant(organizationId: string, tenantId: string) {
+  const tenant = await prisma.tenant.findFirst({
+    where: { id: tenantId, organizationId },
+    select: { id: true },
+  });
+
+  if (!tenant) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Tenant not found",
+    });
+  }
+}
+
+export const creditsRouter = router({
+  getBalance: orgProcedure
+    .input(z.object({ tenantId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      await requireTenant(ctx.organizationId, input.tenantId);
+
+      const balance = await getCreditBalance(input.tenantId);
+
+      return {
+        currency: balance.currency,
+        total: balance.total.toNumber(),
+        grants: balance.grants.map((grant) => ({
+          id: grant.id,
+          type: grant.type,
+          description: grant.description,
+          remainingAmount: grant.remainingAmount.toNumber(),
+          priority: grant.priority,
+          eventTypes: grant.eventTypes,
+          expiresAt: grant.expiresAt,
+        })),
+      };
+    }),
+
+  listGrants: orgProcedure
+    .input(
+      z.object({
+        tenantId: z.string(),
+        includeInactive: z.boolean().default(false),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const now = new Date();
+
+      return prisma.creditGrant.findMany({
+        where: {
+          organizationId: ctx.organizationId,
+          tenantId: input.tenantId,
+          ...(input.includeInactive
+            ? {}
+            : {
+                voidedAt: null,
+                remainingAmount: { gt: 0 },
+                OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+              }),
+        },
+        orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+      });
+    }),
+
+  listEntries: orgProcedure
+    .input(
+      z.object({
+        tenantId: z.string(),
+        grantId: z.string().optional(),
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const entries = await prisma.creditLedgerEntry.findMany({
+        where: {
+          organizationId: ctx.organizationId,
+          tenantId: input.tenantId,
+          ...(input.grantId ? { grantId: input.grantId } : {}),
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        include: {
+          invoice: { select: { invoiceNumber: true } },
+        },
+      });
+
+      let nextCursor: string | undefined = undefined;
+      if (entries.length > input.limit) {
+        const nextItem = entries.pop();
+        nextCursor = nextItem!.id;
+      }
+
+      return { entries, nextCursor };
+    }),
+
+  createGrant: orgProcedure
+    .input(
+      z
+        .object({
+          tenantId: z.string(),
+          type: z.enum(["PREPAID", "PROMOTIONAL"]).default("PROMOTIONAL"),
+          description: z.string().max(200).optional(),
+          amount: z.number().positive().multipleOf(0.01),
+          priority: z.number().int().default(0),
+          eventTypes: z.array(z.string().min(1).max(100)).max(50).default([]),
+          effectiveFrom: z.date().optional(),
+          expiresAt: z.date().optional(),
+        })
+        .refine(
+          (input) =>
+            !input.expiresAt ||
+            input.expiresAt > (input.effectiveFrom ?? new Date()),
+          { message: "expiresAt must be after effectiveFrom" },
+        ),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+      await requireTenant(organizationId, input.tenantId);
+
+      const amount = money(input.amount);
+      // Granted in the currency the tenant is invoiced in now
+      const currency = await resolveTenantCurrency(input.tenantId);
+
+      return prisma.$transaction(async (tx) => {
+        const grant = await tx.creditGrant.create({
+          data: {
+            organizationId,
+            tenantId: input.tenantId,
+            type: input.type,
+            description: input.description,
+            amount,
+            remainingAmount: amount,
+            currency,
+            priority: input.priority,
+            eventTypes: input.eventTypes,
+            effectiveFrom: input.effectiveFrom,
+            expiresAt: input.expiresAt,
+          },
+        });
+
+        await tx.creditLedgerEntry.create({
+          data: {
+            organizationId,
+            tenantId: input.tenantId,
+            grantId: grant.id,
+            type: "GRANT",
+            amount,
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            organizationId,
+            tenantId: input.tenantId,
+            userId: ctx.userId,
+            action: "CREDIT_GRANTED",
+            resourceType: "credit_grant",
+            resourceId: grant.id,
+            changes: {
+              type: input.type,
+              amount: amount.toFixed(2),
+              currency,
+              priority: input.priority,
+              eventTypes: input.eventTypes,
+              expiresAt: input.expiresAt?.toISOString() ?? null,
+            },
+          },
+        });
+
+        return grant;
+      });
+    }),
+
+  // Revokes whatever is left of a grant; credit already drawn stays on the
+  // invoices that used it
+  voidGrant: orgProcedure
+    .input(
+      z.object({
+        grantId: z.string(),
+        reason: z.string().max(500).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      return prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`
+          SELECT id FROM credit_grants WHERE id = ${input.grantId} FOR UPDATE
+        `;
+
+        const grant = await tx.creditGrant.findFirst({
+          where: { id: input.grantId, organizationId },
+        });
+
+        if (!grant) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Credit grant not found",
+          });
+        }
+
+        if (grant.voidedAt) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Credit grant is already voided",
+          });
+        }
+
+        const voided = await tx.creditGrant.update({
+          where: { id: grant.id },
+          data: { voidedAt: new Date(), remainingAmount: 0 },
+        });
+
+        if (grant.remainingAmount.gt(0)) {
+          await tx.creditLedgerEntry.create({
+            data: {
+              organizationId,
+              tenantId: grant.tenantId,
+              grantId: grant.id,
+              type: "VOID",
+              amount: grant.remainingAmount.negated(),
+            },
+          });
+        }
+
+        await tx.auditLog.create({
+          data: {
+            organizationId,
+            tenantId: grant.tenantId,
+            userId: ctx.userId,
+            action: "CREDIT_GRANT_VOIDED",
+            resourceType: "credit_grant",
+            resourceId: grant.id,
+            changes: {
+              revokedAmount: grant.remainingAmount.toFixed(2),
+              ...(input.reason ? { reason: input.reason } : {}),
+            },
+          },
+        });
+
+        return voided;
+      });
+    }),
+});
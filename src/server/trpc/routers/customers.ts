@@ -2,6 +2,7 @@ import { z } from "zod";
 import { Decimal } from "@prisma/client/runtime/library";
 import { router, publicProcedure } from "../trpc";
 import { prisma } from "@/server/db/prisma";
+import { currencyCodeSchema } from "@/server/services/currency";
 
 type TenantWithAggregates = {
   id: string;
@@ -229,6 +230,8 @@ export const customersRouter = router({
         organizationId: z.string(),
         customerId: z.string(),
         name: z.string().min(1).max(200),
+        // Currency future invoices are issued in; null = organization's
+        currency: currencyCodeSchema.nullable().optional(),
       }),
     )
     .mutation(async ({ input }) => {
@@ -239,6 +242,7 @@ export const customersRouter = router({
         },
         data: {
           name: input.name,
+          ...(input.currency !== undefined ? { currency: input.currency } : {}),
           updatedAt: new Date(),
         },
       });
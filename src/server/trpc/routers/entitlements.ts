@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { Prisma } from "@prisma/client";
+import { router, orgProcedure, publicProcedure } from "../trpc";
+import { prisma } from "@/server/db/prisma";
+import {
+  FEATURE_CATALOGUE,
+  getEntitlements,
+  invalidateEntitlements,
+  isFeature,
+  parseFeatureValue,
+} from "@/server/services/entitlements";
+
+const featureSchema = z
+  .string()
+  .refine(isFeature, { message: "Unknown feature" });
+
+export const entitlementsRouter = router({
+  catalogue: publicProcedure.query(() =>
+    Object.entries(FEATURE_CATALOGUE).map(([feature, definition]) => ({
+      feature,
+      ...definition,
+    })),
+  ),
+
+  // What the organization may use now, and where each value comes from
+  get: publicProcedure
+    .input(z.object({ organizationId: z.string() }))
+    .query(({ input }) => getEntitlements(input.organizationId)),
+
+  listOverrides: orgProcedure.query(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    return prisma.entitlementOverride.findMany({
+      where: { organizationId: ctx.organizationId },
+      orderBy: { feature: "asc" },
+    });
+  }),
+
+  setOverride: orgProcedure
+    .input(
+      z.object({
+        feature: featureSchema,
+        value: z.union([z.boolean(), z.number(), z.string()]),
+        reason: z.string().max(500).optional(),
+        expiresAt: z.date().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      const value = parseFeatureValue(input.feature, input.value);
+      if (value === undefined) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Invalid value for ${input.feature}`,
+        });
+      }
+
+      const data = {
+        value,
+        reason: input.reason ?? null,
+        expiresAt: input.expiresAt ?? null,
+        createdBy: ctx.userId ?? null,
+      };
+      const override = await prisma.entitlementOverride.upsert({
+        where: {
+          organizationId_feature: { organizationId, feature: input.feature },
+        },
+        create: { organizationId, feature: input.feature, ...data },
+        update: data,
+      });
+      invalidateEntitlements(organizationId);
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId,
+          userId: ctx.userId,
+          action: "ENTITLEMENT_OVERRIDE_SET",
+          resourceType: "entitlement_override",
+          resourceId: override.id,
+          changes: {
+            feature: input.feature,
+            value,
+            reason: data.reason,
+            expiresAt: data.expiresAt?.toISOString() ?? null,
+          },
+        },
+      });
+
+      return override;
+    }),
+
+  deleteOverride: orgProcedure
+    .input(z.object({ feature: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const override = await prisma.entitlementOverride.findUnique({
+        where: {
+          organizationId_feature: {
+            organizationId: ctx.organizationId,
+            feature: input.feature,
+          },
+        },
+      });
+
+      if (!override) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Entitlement override not found",
+        });
+      }
+
+      await prisma.entitlementOverride.delete({ where: { id: override.id } });
+      invalidateEntitlements(ctx.organizationId);
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+          action: "ENTITLEMENT_OVERRIDE_DELETED",
+          resourceType: "entitlement_override",
+          resourceId: override.id,
+          changes: {
+            feature: override.feature,
+            value: override.value as Prisma.InputJsonValue,
+          },
+        },
+      });
+
+      return { success: true };
+    }),
+});
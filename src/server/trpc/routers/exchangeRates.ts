@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, orgProcedure } from "../trpc";
+import { prisma } from "@/server/db/prisma";
+import {
+  currencyCodeSchema,
+  ExchangeRateNotFoundError,
+  resolveExchangeRate,
+} from "@/server/services/currency";
+
+export const exchangeRatesRouter = router({
+  list: orgProcedure
+    .input(
+      z.object({
+        fromCurrency: currencyCodeSchema.optional(),
+        toCurrency: currencyCodeSchema.optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      return prisma.exchangeRate.findMany({
+        where: {
+          organizationId: ctx.organizationId,
+          ...(input.fromCurrency ? { fromCurrency: input.fromCurrency } : {}),
+          ...(input.toCurrency ? { toCurrency: input.toCurrency } : {}),
+        },
+        orderBy: [
+          { fromCurrency: "asc" },
+          { toCurrency: "asc" },
+          { effectiveFrom: "desc" },
+        ],
+      });
+    }),
+
+  // Rates are never edited: a new rate applies from its effective date and
+  // invoices already issued keep the rate stored on them
+  create: orgProcedure
+    .input(
+      z
+        .object({
+          fromCurrency: currencyCodeSchema,
+          toCurrency: currencyCodeSchema,
+          rate: z.number().positive(),
+          effectiveFrom: z.date().optional(),
+        })
+        .refine((input) => input.fromCurrency !== input.toCurrency, {
+          message: "fromCurrency and toCurrency must differ",
+        }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const effectiveFrom = input.effectiveFrom ?? new Date();
+
+      const exchangeRate = await prisma.exchangeRate.create({
+        data: {
+          organizationId: ctx.organizationId,
+          fromCurrency: input.fromCurrency,
+          toCurrency: input.toCurrency,
+          rate: input.rate,
+          effectiveFrom,
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+          action: "EXCHANGE_RATE_CREATED",
+          resourceType: "exchange_rate",
+          resourceId: exchangeRate.id,
+          changes: {
+            fromCurrency: input.fromCurrency,
+            toCurrency: input.toCurrency,
+            rate: input.rate,
+            effectiveFrom: effectiveFrom.toISOString(),
+          },
+        },
+      });
+
+      return exchangeRate;
+    }),
+
+  resolve: orgProcedure
+    .input(
+      z.object({
+        fromCurrency: currencyCodeSchema,
+        toCurrency: currencyCodeSchema,
+        at: z.date().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      try {
+        const rate = await resolveExchangeRate({
+          organizationId: ctx.organizationId,
+          fromCurrency: input.fromCurrency,
+          toCurrency: input.toCurrency,
+          at: input.at ?? new Date(),
+        });
+        return { ...input, rate: rate.toNumber() };
+      } catch (error) {
+        if (error instanceof ExchangeRateNotFoundError) {
+          throw new TRPCError({ code: "NOT_FOUND", message: error.message });
+        }
+        throw error;
+      }
+    }),
+});
@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, orgProcedure, publicProcedure } from "../trpc";
+import { prisma } from "@/server/db/prisma";
+import { simulatePricing } from "@/server/services/pricingSimulator";
+
+// Each model requires exactly the parameters it uses
+const pricingModelSchema = z.discriminatedUnion("model", [
+  z.object({ model: z.literal("GRADUATED") }),
+  z.object({ model: z.literal("VOLUME") }),
+  z.object({
+    model: z.literal("PACKAGE"),
+    packageSize: z.number().positive(),
+  }),
+  z.object({
+    model: z.literal("FLAT_PLUS_UNIT"),
+    flatFee: z.number().min(0),
+  }),
+  z.object({
+    model: z.literal("FREE_ALLOWANCE"),
+    freeAllowance: z.number().positive(),
+  }),
+]);
+
+export const pricingRouter = router({
+  listModels: orgProcedure.query(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    return prisma.eventPricing.findMany({
+      where: { organizationId: ctx.organizationId },
+      orderBy: { eventType: "asc" },
+    });
+  }),
+
+  setModel: orgProcedure
+    .input(
+      z.object({
+        eventType: z.string().min(1).max(100),
+        pricing: pricingModelSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      const data = {
+        model: input.pricing.model,
+        packageSize:
+          input.pricing.model === "PACKAGE" ? input.pricing.packageSize : null,
+        flatFee:
+          input.pricing.model === "FLAT_PLUS_UNIT"
+            ? input.pricing.flatFee
+            : null,
+        freeAllowance:
+          input.pricing.model === "FREE_ALLOWANCE"
+            ? input.pricing.freeAllowance
+            : null,
+      };
+
+      const eventPricing = await prisma.eventPricing.upsert({
+        where: {
+          organizationId_eventType: {
+            organizationId,
+            eventType: input.eventType,
+          },
+        },
+        create: { organizationId, eventType: input.eventType, ...data },
+        update: data,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId,
+          userId: ctx.userId,
+          action: "PRICING_MODEL_UPDATED",
+          resourceType: "event_pricing",
+          resourceId: eventPricing.id,
+          changes: { eventType: input.eventType, ...data },
+        },
+      });
+
+      return eventPricing;
+    }),
+
+  // Read-only: re-prices historical snapshots, never writes invoices
+  simulate: publicProcedure
+    .input(
+      z
+        .object({
+          organizationId: z.string(),
+          startDate: z.date(),
+          endDate: z.date(),
+          proposedTiers: z
+            .array(
+              z.object({
+                eventType: z.string().min(1).max(100),
+                tierLevel: z.number().int().min(1),
+                minQuantity: z.number().min(0),
+                maxQuantity: z.number().positive().nullable(),
+                unitPrice: z.number().min(0),
+              }),
+            )
+            .min(1)
+            .max(100),
+        })
+        .refine((input) => input.startDate <= input.endDate, {
+          message: "startDate must be before endDate",
+        }),
+    )
+    .query(async ({ input }) => {
+      const organization = await prisma.organization.findUnique({
+        where: { id: input.organizationId },
+        select: { id: true },
+      });
+
+      if (!organization) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Organization not found",
+        });
+      }
+
+      return simulatePricing(input);
+    }),
+});
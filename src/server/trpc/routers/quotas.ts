@@ -0,0 +1,205 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, orgProcedure } from "../trpc";
+import {
+  createQuotaLimit,
+  deleteQuotaLimit,
+  listQuotaLimits,
+  QuotaLimitError,
+  updateQuotaLimit,
+} from "@/server/services/quotaLimits";
+import {
+  applyQuotaTemplate,
+  createQuotaTemplate,
+  deleteQuotaTemplate,
+  listQuotaTemplates,
+  setDefaultQuotaTemplate,
+  updateQuotaTemplate,
+} from "@/server/services/quotaTemplates";
+
+async function withQuotaLimitErrors<T>(operation: () => Promise<T>) {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof QuotaLimitError) {
+      throw new TRPCError({ code: error.code, message: error.message });
+    }
+    throw error;
+  }
+}
+
+const quotaSettingsSchema = z.object({
+  limitType: z.enum(["MONTHLY", "ROLLING_30D", "CUSTOM"]),
+  limitValue: z.number().positive(),
+  periodDays: z.number().int().min(1).max(366).nullable(),
+  resetAt: z.date(),
+  softLimitValue: z.number().positive().nullable(),
+  enforcementMode: z.enum(["HARD", "SOFT", "DISABLED"]),
+  overageAllowed: z.number().min(0).nullable(),
+  gracePeriodEnd: z.date().nullable(),
+});
+
+const templateLimitSchema = z.object({
+  eventType: z.string().min(1).max(100),
+  limitType: z.enum(["MONTHLY", "ROLLING_30D", "CUSTOM"]).default("MONTHLY"),
+  limitValue: z.number().positive(),
+  periodDays: z.number().int().min(1).max(366).nullable().default(null),
+  softLimitValue: z.number().positive().nullable().default(null),
+  enforcementMode: z.enum(["HARD", "SOFT", "DISABLED"]).default("HARD"),
+  overageAllowed: z.number().min(0).nullable().default(null),
+});
+
+export const quotasRouter = router({
+  list: orgProcedure
+    .input(
+      z.object({
+        tenantId: z.string().optional(),
+        eventType: z.string().optional(),
+      }),
+    )
+    .query(({ ctx, input }) =>
+      listQuotaLimits({ ...input, organizationId: ctx.organizationId }),
+    ),
+
+  create: orgProcedure
+    .input(
+      quotaSettingsSchema.partial().extend({
+        tenantId: z.string(),
+        eventType: z.string().min(1).max(100),
+        limitValue: z.number().positive(),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withQuotaLimitErrors(() =>
+        createQuotaLimit({
+          ...input,
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+        }),
+      ),
+    ),
+
+  update: orgProcedure
+    .input(
+      quotaSettingsSchema.partial().extend({
+        quotaLimitId: z.string(),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withQuotaLimitErrors(() =>
+        updateQuotaLimit({
+          ...input,
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+        }),
+      ),
+    ),
+
+  delete: orgProcedure
+    .input(
+      z.object({
+        quotaLimitId: z.string(),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withQuotaLimitErrors(() =>
+        deleteQuotaLimit({
+          ...input,
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+        }),
+      ),
+    ),
+
+  listTemplates: orgProcedure.query(({ ctx }) =>
+    listQuotaTemplates(ctx.organizationId),
+  ),
+
+  createTemplate: orgProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        description: z.string().max(500).optional(),
+        limits: z.array(templateLimitSchema).max(100),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withQuotaLimitErrors(() =>
+        createQuotaTemplate({
+          ...input,
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+        }),
+      ),
+    ),
+
+  updateTemplate: orgProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        name: z.string().min(1).max(100).optional(),
+        description: z.string().max(500).nullable().optional(),
+        limits: z.array(templateLimitSchema).max(100).optional(),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withQuotaLimitErrors(() =>
+        updateQuotaTemplate({
+          ...input,
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+        }),
+      ),
+    ),
+
+  deleteTemplate: orgProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withQuotaLimitErrors(() =>
+        deleteQuotaTemplate({
+          ...input,
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+        }),
+      ),
+    ),
+
+  // Template applied to tenants auto-created by event ingestion
+  setDefaultTemplate: orgProcedure
+    .input(
+      z.object({
+        templateId: z.string().nullable(),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withQuotaLimitErrors(() =>
+        setDefaultQuotaTemplate({
+          ...input,
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+        }),
+      ),
+    ),
+
+  applyTemplate: orgProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        tenantIds: z.array(z.string()).min(1).max(500),
+        replaceExisting: z.boolean().default(false),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withQuotaLimitErrors(() =>
+        applyQuotaTemplate({
+          ...input,
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+        }),
+      ),
+    ),
+});
@@ -3,6 +3,7 @@ import { TRPCError } from "@trpc/server";
 import { Decimal } from "@prisma/client/runtime/library";
 import { router, tenantProcedure } from "../trpc";
 import { prisma } from "@/server/db/prisma";
+import { money, sumMoney } from "@/server/services/money";
 
 type UsageSnapshot = {
   id: string;
@@ -77,7 +78,7 @@ export const snapshotRouter = router({
       // Create or update snapshots
       const snapshots = await Promise.all(
         usageByType.map(async (item: UsageGroupByItem) => {
-          const totalQuantity = Number(item._sum.quantity || 0);
+          const totalQuantity = item._sum.quantity ?? 0;
 
           return prisma.usageSnapshot.upsert({
             where: {
@@ -203,7 +204,7 @@ export const snapshotRouter = router({
       });
 
       // Aggregate by granularity
-      const aggregated: Record<string, Record<string, number>> = {};
+      const aggregated: Record<string, Record<string, Decimal>> = {};
 
       for (const snapshot of snapshots) {
         let key: string;
@@ -217,11 +218,9 @@ export const snapshotRouter = router({
           aggregated[key] = {};
         }
 
-        if (!aggregated[key][snapshot.eventType]) {
-          aggregated[key][snapshot.eventType] = 0;
-        }
-
-        aggregated[key][snapshot.eventType] += Number(snapshot.totalQuantity);
+        aggregated[key][snapshot.eventType] = money(
+          aggregated[key][snapshot.eventType],
+        ).plus(snapshot.totalQuantity);
       }
 
       // Convert to array format
@@ -229,12 +228,9 @@ export const snapshotRouter = router({
         period,
         eventTypes: Object.entries(eventTypes).map(([eventType, quantity]) => ({
           eventType,
-          quantity,
+          quantity: quantity.toNumber(),
         })),
-        totalQuantity: Object.values(eventTypes).reduce(
-          (sum, qty) => sum + qty,
-          0,
-        ),
+        totalQuantity: sumMoney(Object.values(eventTypes)).toNumber(),
       }));
 
       return result.sort((a, b) => a.period.localeCompare(b.period));
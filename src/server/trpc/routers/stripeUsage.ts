@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, orgProcedure } from "../trpc";
+import { prisma } from "@/server/db/prisma";
+import {
+  reconcileStripeUsage,
+  syncOrganizationUsage,
+} from "@/server/services/stripeUsageSync";
+
+const meterEventNameSchema = z
+  .string()
+  .min(1)
+  .max(100)
+  .regex(/^[A-Za-z0-9_.:-]+$/, "Invalid meter event name");
+
+export const stripeUsageRouter = router({
+  listMappings: orgProcedure.query(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    return prisma.stripeMeterMapping.findMany({
+      where: { organizationId: ctx.organizationId },
+      orderBy: { eventType: "asc" },
+    });
+  }),
+
+  // Usage already reported under the previous meter name stays there; only
+  // usage not yet synced goes to the new one
+  setMapping: orgProcedure
+    .input(
+      z.object({
+        eventType: z.string().min(1).max(100),
+        meterEventName: meterEventNameSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      const mapping = await prisma.stripeMeterMapping.upsert({
+        where: {
+          organizationId_eventType: {
+            organizationId,
+            eventType: input.eventType,
+          },
+        },
+        create: { organizationId, ...input },
+        update: { meterEventName: input.meterEventName },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId,
+          userId: ctx.userId,
+          action: "STRIPE_METER_MAPPING_SET",
+          resourceType: "stripe_meter_mapping",
+          resourceId: mapping.id,
+          changes: input,
+        },
+      });
+
+      return mapping;
+    }),
+
+  deleteMapping: orgProcedure
+    .input(z.object({ eventType: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const mapping = await prisma.stripeMeterMapping.findUnique({
+        where: {
+          organizationId_eventType: {
+            organizationId: ctx.organizationId,
+            eventType: input.eventType,
+          },
+        },
+      });
+
+      if (!mapping) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Meter mapping not found",
+        });
+      }
+
+      await prisma.stripeMeterMapping.delete({ where: { id: mapping.id } });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          userId: ctx.userId,
+          action: "STRIPE_METER_MAPPING_DELETED",
+          resourceType: "stripe_meter_mapping",
+          resourceId: mapping.id,
+          changes: {
+            eventType: mapping.eventType,
+            meterEventName: mapping.meterEventName,
+          },
+        },
+      });
+
+      return { success: true };
+    }),
+
+  getReconciliation: orgProcedure.query(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    const reconciliation = await reconcileStripeUsage(ctx.organizationId);
+
+    if (!reconciliation) {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: "Organization has no active subscription",
+      });
+    }
+
+    return reconciliation;
+  }),
+
+  sync: orgProcedure.mutation(async ({ ctx }) => {
+    if (!ctx.organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    const result = await syncOrganizationUsage(ctx.organizationId);
+
+    await prisma.auditLog.create({
+      data: {
+        organizationId: ctx.organizationId,
+        userId: ctx.userId,
+        action: "STRIPE_USAGE_SYNCED",
+        resourceType: "stripe_usage_sync",
+        changes: {
+          status: result.status,
+          reported: result.reported,
+          failed: result.failed,
+        },
+      },
+    });
+
+    return result;
+  }),
+});
@@ -3,14 +3,15 @@ import { TRPCError } from "@trpc/server";
 import { Decimal } from "@prisma/client/runtime/library";
 import { router, publicProcedure } from "../trpc";
 import { prisma } from "@/server/db/prisma";
+import { roundMoney, sumMoney } from "@/server/services/money";
+import { getPaymentProvider } from "@/server/services/payments";
+import { invalidateEntitlements } from "@/server/services/entitlements";
 import {
-  stripe,
-  createStripeCustomer,
-  createCheckoutSession,
-  createBillingPortalSession,
-  getInvoices as getStripeInvoices,
-  getUpcomingInvoice,
-} from "@/server/services/stripe";
+  applyPlanChange,
+  cancelScheduledPlanChange,
+  PlanChangeError,
+  previewPlanChange,
+} from "@/server/services/planChanges";
 
 type SubscriptionPlan = {
   id: string;
@@ -20,6 +21,7 @@ type SubscriptionPlan = {
   basePrice: number;
   includedEvents: number;
   overageRate: number;
+  currency: string;
   features: unknown;
   isActive: boolean;
   createdAt: Date;
@@ -32,6 +34,20 @@ type UsageEventGroupBy = {
   _count: number;
 };
 
+const planChangeTimingSchema = z.enum(["IMMEDIATE", "PERIOD_END"]);
+
+// Run a plan change operation, surfacing its errors as tRPC errors
+async function withPlanChangeErrors<T>(operation: () => Promise<T>) {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof PlanChangeError) {
+      throw new TRPCError({ code: error.code, message: error.message });
+    }
+    throw error;
+  }
+}
+
 export const subscriptionRouter = router({
   getPlans: publicProcedure.query(async () => {
     const plans = await prisma.subscriptionPlan.findMany({
@@ -46,6 +62,7 @@ export const subscriptionRouter = router({
       basePrice: plan.basePrice,
       includedEvents: plan.includedEvents,
       overageRate: plan.overageRate,
+      currency: plan.currency,
       features: plan.features as Record<string, boolean>,
     }));
   }),
@@ -60,6 +77,10 @@ export const subscriptionRouter = router({
         },
         include: {
           plan: true,
+          planChanges: {
+            where: { status: "SCHEDULED" },
+            include: { toPlan: true },
+          },
         },
         orderBy: { createdAt: "desc" },
       });
@@ -68,6 +89,8 @@ export const subscriptionRouter = router({
         return null;
       }
 
+      const scheduledChange = subscription.planChanges[0];
+
       return {
         id: subscription.id,
         status: subscription.status,
@@ -81,9 +104,58 @@ export const subscriptionRouter = router({
         currentPeriodEnd: subscription.currentPeriodEnd,
         cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
         trialEnd: subscription.trialEnd,
+        scheduledChange: scheduledChange
+          ? {
+              planId: scheduledChange.toPlanId,
+              planName: scheduledChange.toPlan.name,
+              effectiveAt: scheduledChange.effectiveAt,
+            }
+          : null,
       };
     }),
 
+  previewPlanChange: publicProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        planId: z.string(),
+        timing: planChangeTimingSchema.optional(),
+      }),
+    )
+    .query(({ input }) => withPlanChangeErrors(() => previewPlanChange(input))),
+
+  // Upgrades apply now and downgrades at the period end unless timing says
+  // otherwise. Pass the preview's prorationDate to be charged what it showed.
+  changePlan: publicProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        planId: z.string(),
+        timing: planChangeTimingSchema.optional(),
+        prorationDate: z.date().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const change = await withPlanChangeErrors(() =>
+        applyPlanChange({ ...input, userId: ctx.userId }),
+      );
+      invalidateEntitlements(input.organizationId);
+      return change;
+    }),
+
+  cancelScheduledPlanChange: publicProcedure
+    .input(z.object({ organizationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const canceled = await withPlanChangeErrors(() =>
+        cancelScheduledPlanChange({
+          organizationId: input.organizationId,
+          userId: ctx.userId,
+        }),
+      );
+      invalidateEntitlements(input.organizationId);
+      return canceled;
+    }),
+
   createCheckoutSession: publicProcedure
     .input(
       z.object({
@@ -119,7 +191,7 @@ export const subscriptionRouter = router({
         stripeCustomerId = existingSubscription.stripeCustomerId;
       } else {
         // Create new Stripe customer
-        const customer = await createStripeCustomer({
+        const customer = await getPaymentProvider().createCustomer({
           email: input.email,
           name: input.organizationName,
           organizationId: input.organizationId,
@@ -130,7 +202,7 @@ export const subscriptionRouter = router({
       const baseUrl =
         process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
 
-      const session = await createCheckoutSession({
+      const session = await getPaymentProvider().createCheckoutSession({
         customerId: stripeCustomerId,
         priceId: plan.stripePriceId,
         organizationId: input.organizationId,
@@ -161,7 +233,7 @@ export const subscriptionRouter = router({
       const baseUrl =
         process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
 
-      const session = await createBillingPortalSession({
+      const session = await getPaymentProvider().createBillingPortalSession({
         customerId: subscription.stripeCustomerId,
         returnUrl: `${baseUrl}/dashboard/billing`,
       });
@@ -181,13 +253,13 @@ export const subscriptionRouter = router({
         return { invoices: [] };
       }
 
-      const stripeInvoices = await getStripeInvoices(
+      const stripeInvoices = await getPaymentProvider().getInvoices(
         subscription.stripeCustomerId,
         10,
       );
 
       return {
-        invoices: stripeInvoices.data.map((invoice) => ({
+        invoices: stripeInvoices.map((invoice) => ({
           id: invoice.id,
           number: invoice.number,
           amount: invoice.amount_due,
@@ -211,7 +283,9 @@ export const subscriptionRouter = router({
         return null;
       }
 
-      const upcoming = await getUpcomingInvoice(subscription.stripeCustomerId);
+      const upcoming = await getPaymentProvider().getUpcomingInvoice(
+        subscription.stripeCustomerId,
+      );
 
       if (!upcoming) {
         return null;
@@ -264,16 +338,18 @@ export const subscriptionRouter = router({
         _count: true,
       });
 
-      const totalEvents = usageEvents.reduce(
-        (sum: number, event: UsageEventGroupBy) =>
-          sum + Number(event._sum.quantity || 0),
-        0,
+      const totalEvents = sumMoney(
+        usageEvents.map((event: UsageEventGroupBy) => event._sum.quantity),
       );
 
       const includedEvents = subscription.plan.includedEvents;
-      const overageEvents = Math.max(0, totalEvents - includedEvents);
-      const overageCost =
-        (overageEvents / 1000) * subscription.plan.overageRate;
+      const overageEvents = Decimal.max(0, totalEvents.minus(includedEvents));
+      // overageRate is cents per 1,000 events
+      const overageCost = roundMoney(
+        overageEvents.times(subscription.plan.overageRate).dividedBy(1000),
+        "HALF_UP",
+        0,
+      ).toNumber();
 
       return {
         currentPeriod: {
@@ -281,15 +357,18 @@ export const subscriptionRouter = router({
           end: subscription.currentPeriodEnd,
         },
         usage: {
-          total: totalEvents,
+          total: totalEvents.toNumber(),
           included: includedEvents,
-          overage: overageEvents,
-          percentUsed: Math.min(100, (totalEvents / includedEvents) * 100),
+          overage: overageEvents.toNumber(),
+          percentUsed: Math.min(
+            100,
+            totalEvents.dividedBy(includedEvents).times(100).toNumber(),
+          ),
         },
         cost: {
           base: subscription.plan.basePrice,
-          overage: Math.round(overageCost),
-          estimated: subscription.plan.basePrice + Math.round(overageCost),
+          overage: overageCost,
+          estimated: subscription.plan.basePrice + overageCost,
         },
         byEventType: usageEvents.map((event: UsageEventGroupBy) => ({
           eventType: event.eventType,
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, orgProcedure } from "../trpc";
+import { prisma } from "@/server/db/prisma";
+
+const countrySchema = z
+  .string()
+  .length(2)
+  .transform((value) => value.toUpperCase());
+
+export const taxRouter = router({
+  listRules: orgProcedure
+    .input(
+      z.object({
+        tenantId: z.string().optional(),
+        includeExpired: z.boolean().default(false),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const now = new Date();
+
+      return prisma.taxRule.findMany({
+        where: {
+          organizationId: ctx.organizationId,
+          ...(input.tenantId ? { tenantId: input.tenantId } : {}),
+          ...(input.includeExpired
+            ? {}
+            : { OR: [{ effectiveTo: null }, { effectiveTo: { gt: now } }] }),
+        },
+        orderBy: [{ tenantId: "asc" }, { effectiveFrom: "desc" }],
+      });
+    }),
+
+  // Rates are never edited in place: creating a rule closes the open rule for
+  // the same scope (tenant + country + jurisdiction) at the new effective date
+  createRule: orgProcedure
+    .input(
+      z.object({
+        tenantId: z.string().optional(),
+        country: countrySchema.optional(),
+        jurisdiction: z.string().max(50).optional(),
+        name: z.string().min(1).max(100),
+        rate: z.number().min(0).max(1),
+        exempt: z.boolean().default(false),
+        reverseCharge: z.boolean().default(false),
+        effectiveFrom: z.date().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+      const organizationId = ctx.organizationId;
+
+      if (input.tenantId) {
+        const tenant = await prisma.tenant.findFirst({
+          where: { id: input.tenantId, organizationId },
+        });
+
+        if (!tenant) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Tenant not found",
+          });
+        }
+      }
+
+      const effectiveFrom = input.effectiveFrom ?? new Date();
+
+      return prisma.$transaction(async (tx) => {
+        const scope = {
+          organizationId,
+          tenantId: input.tenantId ?? null,
+          country: input.country ?? null,
+          jurisdiction: input.jurisdiction ?? null,
+        };
+
+        const superseded = await tx.taxRule.updateMany({
+          where: {
+            ...scope,
+            effectiveFrom: { lt: effectiveFrom },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gt: effectiveFrom } }],
+          },
+          data: { effectiveTo: effectiveFrom },
+        });
+
+        const rule = await tx.taxRule.create({
+          data: {
+            ...scope,
+            name: input.name,
+            rate: input.rate,
+            exempt: input.exempt,
+            reverseCharge: input.reverseCharge,
+            effectiveFrom,
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            organizationId,
+            tenantId: input.tenantId,
+            userId: ctx.userId,
+            action: "TAX_RULE_CREATED",
+            resourceType: "tax_rule",
+            resourceId: rule.id,
+            changes: {
+              rate: input.rate,
+              exempt: input.exempt,
+              reverseCharge: input.reverseCharge,
+              effectiveFrom: effectiveFrom.toISOString(),
+              supersededRules: superseded.count,
+            },
+          },
+        });
+
+        return rule;
+      });
+    }),
+
+  endRule: orgProcedure
+    .input(
+      z.object({
+        ruleId: z.string(),
+        effectiveTo: z.date().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const rule = await prisma.taxRule.findFirst({
+        where: { id: input.ruleId, organizationId: ctx.organizationId },
+      });
+
+      if (!rule) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Tax rule not found",
+        });
+      }
+
+      const effectiveTo = input.effectiveTo ?? new Date();
+
+      if (effectiveTo <= rule.effectiveFrom) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Tax rule cannot end before it becomes effective",
+        });
+      }
+
+      const updated = await prisma.taxRule.update({
+        where: { id: rule.id },
+        data: { effectiveTo },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          organizationId: ctx.organizationId,
+          tenantId: rule.tenantId,
+          userId: ctx.userId,
+          action: "TAX_RULE_ENDED",
+          resourceType: "tax_rule",
+          resourceId: rule.id,
+          changes: { effectiveTo: effectiveTo.toISOString() },
+        },
+      });
+
+      return updated;
+    }),
+
+  updateTenantTaxProfile: orgProcedure
+    .input(
+      z.object({
+        tenantId: z.string(),
+        country: countrySchema.nullable(),
+        taxId: z.string().max(50).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Organization context is required",
+        });
+      }
+
+      const result = await prisma.tenant.updateMany({
+        where: {
+          id: input.tenantId,
+          organizationId: ctx.organizationId,
+        },
+        data: {
+          country: input.country,
+          taxId: input.taxId,
+        },
+      });
+
+      return { success: result.count > 0 };
+    }),
+});
@@ -1,8 +1,10 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { randomBytes } from "crypto";
-import { router, publicProcedure } from "../trpc";
+import { clerkClient } from "@clerk/nextjs/server";
+import { router, publicProcedure, withEntitlementErrors } from "../trpc";
 import { prisma } from "@/server/db/prisma";
+import { requireWithinLimit } from "@/server/services/entitlements";
 
 type TeamInvitation = {
   id: string;
@@ -20,6 +22,25 @@ function generateInviteToken(): string {
   return randomBytes(32).toString("hex");
 }
 
+// Members are managed by Clerk; pending invitations count as seats too
+async function countSeats(organizationId: string) {
+  const clerk = await clerkClient();
+  const [members, pending] = await Promise.all([
+    clerk.organizations.getOrganizationMembershipList({
+      organizationId,
+      limit: 1,
+    }),
+    prisma.teamInvitation.count({
+      where: {
+        organizationId,
+        acceptedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+    }),
+  ]);
+  return members.totalCount + pending;
+}
+
 export const teamRouter = router({
   getInvitations: publicProcedure
     .input(z.object({ organizationId: z.string() }))
@@ -69,6 +90,11 @@ export const teamRouter = router({
         });
       }
 
+      const seats = await countSeats(input.organizationId);
+      await withEntitlementErrors(() =>
+        requireWithinLimit(input.organizationId, "teamMembers", seats),
+      );
+
       const token = generateInviteToken();
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + 7); // 7 days expiry
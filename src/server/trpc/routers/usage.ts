@@ -25,11 +25,12 @@ type UsageEventWithTenant = {
 };
 import {
   incrementRollingCounter,
-  checkAndIncrementQuota,
   getCachedAggregation,
   setCachedAggregation,
   withRedisFallback,
 } from "@/server/db/redis";
+import { getQuotaStatus, reserveEventQuotas } from "@/server/services/quota";
+import { getQuotaHistory } from "@/server/services/quotaPeriods";
 
 export const usageRouter = router({
   recordEvent: tenantProcedure
@@ -64,73 +65,29 @@ export const usageRouter = router({
         });
       }
 
-      // Check quota if not skipped
-      if (!input.skipQuotaCheck) {
-        const periodId = new Date().toISOString().slice(0, 7); // YYYY-MM format
-        const quotaCheck = await withRedisFallback(
-          async () => {
-            const quotaLimit = await prisma.quotaLimit.findUnique({
-              where: {
-                tenantId_eventType: {
-                  tenantId,
-                  eventType: input.eventType,
-                },
-              },
-            });
-
-            if (quotaLimit) {
-              return checkAndIncrementQuota(
-                tenantId,
-                input.eventType,
-                input.quantity,
-                periodId,
-              );
-            }
-            return { allowed: true, current: 0, limit: Infinity };
-          },
-          async () => {
-            // DB fallback for quota check
-            const quotaLimit = await prisma.quotaLimit.findUnique({
-              where: {
-                tenantId_eventType: {
-                  tenantId,
-                  eventType: input.eventType,
-                },
-              },
-            });
-
-            if (quotaLimit) {
-              const usage = await prisma.usageEvent.aggregate({
-                where: {
-                  tenantId,
-                  eventType: input.eventType,
-                  timestamp: {
-                    gte: quotaLimit.resetAt,
-                  },
-                },
-                _sum: {
-                  quantity: true,
-                },
-              });
-
-              const current = Number(usage._sum.quantity || 0);
-              const limit = Number(quotaLimit.limitValue);
-              return {
-                allowed: current + input.quantity <= limit,
-                current: current + input.quantity,
-                limit,
-              };
-            }
-            return { allowed: true, current: 0, limit: Infinity };
-          },
-        );
+      // Reserve quota if not skipped
+      const reservation = input.skipQuotaCheck
+        ? null
+        : await reserveEventQuotas(tenant.organizationId, [
+            { tenantId, eventType: input.eventType, quantity: input.quantity },
+          ]);
 
-        if (!quotaCheck.allowed) {
+      if (reservation && !reservation.allowed) {
+        const quotaCheck = reservation.tenants.get(
+          `${tenantId}:${input.eventType}`,
+        );
+        if (quotaCheck && !quotaCheck.allowed) {
           throw new TRPCError({
             code: "FORBIDDEN",
             message: `Quota exceeded for event type ${input.eventType}. Current: ${quotaCheck.current}, Limit: ${quotaCheck.limit}`,
           });
         }
+
+        const orgQuota = reservation.organization;
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `Organization quota exceeded. Current: ${orgQuota.current}, Limit: ${orgQuota.limit}`,
+        });
       }
 
       // Update Redis rolling counters
@@ -162,16 +119,23 @@ export const usageRouter = router({
       );
 
       // Create usage event in database (async for high throughput)
-      const usageEvent = await prisma.usageEvent.create({
-        data: {
-          tenantId,
-          organizationId: tenant.organizationId,
-          eventType: input.eventType,
-          quantity: input.quantity,
-          metadata: input.metadata,
-          timestamp: now,
-        },
-      });
+      const usageEvent = await prisma.usageEvent
+        .create({
+          data: {
+            tenantId,
+            organizationId: tenant.organizationId,
+            eventType: input.eventType,
+            quantity: input.quantity,
+            metadata: input.metadata,
+            timestamp: now,
+          },
+        })
+        .catch(async (error) => {
+          await reservation?.release([
+            { tenantId, eventType: input.eventType, quantity: input.quantity },
+          ]);
+          throw error;
+        });
 
       return {
         id: usageEvent.id,
@@ -324,65 +288,45 @@ export const usageRouter = router({
       }
       const tenantId = ctx.tenantId;
 
-      const quotaLimit = await prisma.quotaLimit.findUnique({
-        where: {
-          tenantId_eventType: {
-            tenantId,
-            eventType: input.eventType,
-          },
-        },
+      const quotaStatus = await getQuotaStatus({
+        tenantId,
+        eventType: input.eventType,
+        quantity: input.quantity,
       });
 
-      if (!quotaLimit) {
-        return {
-          hasQuota: false,
-          allowed: true,
-          current: 0,
-          limit: Infinity,
-          remaining: Infinity,
-        };
-      }
-
-      const periodId = new Date().toISOString().slice(0, 7);
-
-      const quotaStatus = await withRedisFallback(
-        async () => {
-          return checkAndIncrementQuota(tenantId, input.eventType, 0, periodId);
-        },
-        async () => {
-          // DB fallback
-          const usage = await prisma.usageEvent.aggregate({
-            where: {
-              tenantId,
-              eventType: input.eventType,
-              timestamp: {
-                gte: quotaLimit.resetAt,
-              },
-            },
-            _sum: {
-              quantity: true,
-            },
-          });
-
-          const current = Number(usage._sum.quantity || 0);
-          const limit = Number(quotaLimit.limitValue);
-          return {
-            allowed: current + input.quantity <= limit,
-            current,
-            limit,
-          };
-        },
-      );
-
       return {
-        hasQuota: true,
+        hasQuota: quotaStatus.quotaExists,
         allowed: quotaStatus.allowed,
         current: quotaStatus.current,
         limit: quotaStatus.limit,
         remaining: Math.max(0, quotaStatus.limit - quotaStatus.current),
+        resetAt: quotaStatus.resetAt,
       };
     }),
 
+  // Quota consumption per period, current and archived
+  getQuotaHistory: tenantProcedure
+    .input(
+      z.object({
+        eventType: z.string().optional(),
+        limit: z.number().min(1).max(100).default(12),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.tenantId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Tenant context is required",
+        });
+      }
+
+      return getQuotaHistory({
+        tenantId: ctx.tenantId,
+        eventType: input.eventType,
+        limit: input.limit,
+      });
+    }),
+
   // List events by organization (for dashboard)
   listEventsByOrganization: publicProcedure
     .input(
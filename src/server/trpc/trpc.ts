@@ -1,6 +1,12 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { type Context } from "./context";
+import {
+  EntitlementError,
+  requireEntitlement,
+  type Feature,
+  type LimitFeature,
+} from "@/server/services/entitlements";
 
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
@@ -12,6 +18,9 @@ const t = initTRPC.context<Context>().create({
         code: error.code,
         httpStatus:
           error.cause instanceof Error ? (error.cause as any).status : 500,
+        // Lets the dashboard turn a denial into an upgrade prompt
+        entitlement:
+          error.cause instanceof EntitlementError ? error.cause.details : null,
       },
     };
   },
@@ -59,3 +68,49 @@ const enforceOrgAccess = t.middleware(async ({ ctx, next }) => {
 });
 
 export const orgProcedure = tenantProcedure.use(enforceOrgAccess);
+
+// Rethrow entitlement denials as FORBIDDEN, keeping the details for the client
+export async function withEntitlementErrors<T>(operation: () => Promise<T>) {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof EntitlementError) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Middleware denying callers whose organization lacks a feature. The
+ * organization comes from the context, or else the `organizationId` input.
+ */
+export function requireFeature(
+  feature: Exclude<Feature, LimitFeature>,
+  minimumTier?: string,
+) {
+  return t.middleware(async ({ ctx, getRawInput, next }) => {
+    const input = (await getRawInput()) as { organizationId?: unknown };
+    const organizationId =
+      ctx.organizationId ??
+      (typeof input?.organizationId === "string"
+        ? input.organizationId
+        : undefined);
+
+    if (!organizationId) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Organization context is required",
+      });
+    }
+
+    await withEntitlementErrors(() =>
+      requireEntitlement(organizationId, feature, minimumTier),
+    );
+    return next();
+  });
+}